@@ -0,0 +1,254 @@
+#!/usr/bin/env node
+// Stand-in for the FastAPI backend while working on the UI: audit jobs with streamed stage events,
+// cancellation, and in-memory report history. It reads delimited files naively (no quoted fields) and
+// does not evaluate rule expressions, cross-field constraints or foreign keys; every one reports as passed.
+//
+//   npm run mock:api                       # listens on http://127.0.0.1:8000
+//   MOCK_STAGE_DELAY_MS=3000 npm run mock:api
+import { randomUUID } from "node:crypto";
+import { createServer } from "node:http";
+import { Readable } from "node:stream";
+
+const PORT = Number(process.env.MOCK_API_PORT ?? 8000);
+const STAGE_DELAY_MS = Number(process.env.MOCK_STAGE_DELAY_MS ?? 700);
+const SAMPLE_LIMIT = 5;
+
+const reports = new Map();
+const jobs = new Map();
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+}
+
+async function readForm(req) {
+  const request = new Request(`http://localhost${req.url}`, {
+    method: req.method,
+    headers: req.headers,
+    body: Readable.toWeb(req),
+    duplex: "half",
+  });
+  const form = await request.formData();
+  const file = form.get("file");
+  if (!file || typeof file === "string") throw Object.assign(new Error("file is required"), { status: 422 });
+  const config = form.get("config");
+  return { file, config: typeof config === "string" ? JSON.parse(config) : null };
+}
+
+function parseTable(text) {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== "");
+  const delimiter = lines[0]?.includes("\t") ? "\t" : ",";
+  const columns = (lines[0] ?? "").split(delimiter).map((column) => column.trim());
+  const rows = lines.slice(1).map((line) => {
+    const cells = line.split(delimiter);
+    return Object.fromEntries(columns.map((column, idx) => [column, (cells[idx] ?? "").trim()]));
+  });
+  return { columns, rows };
+}
+
+/** Runs the mock audit, calling `onStage` between steps; `isCancelled` is checked after every pause. */
+async function audit(file, config, onStage = () => {}, isCancelled = () => false) {
+  const stages = [
+    ["parsing", "Reading file"],
+    ["schema", "Validating schema"],
+    ["missing_values", "Counting missing values"],
+    ...config.rules.map((rule) => ["rule", `Checking rule ${rule.name}`]),
+    ["finalizing", "Writing report"],
+  ];
+  let step = 0;
+  const advance = async () => {
+    const [stage, label] = stages[step];
+    onStage({ stage, label, progress: step / stages.length });
+    step += 1;
+    await sleep(STAGE_DELAY_MS);
+    if (isCancelled()) throw Object.assign(new Error("cancelled"), { cancelled: true });
+  };
+
+  await advance();
+  const { columns, rows } = parseTable(await file.text());
+
+  await advance();
+  const schema_results = config.schema.map((field) => ({
+    field: field.name,
+    expected_dtype: field.dtype,
+    actual_dtype: columns.includes(field.name) ? field.dtype : null,
+    status: columns.includes(field.name) ? "ok" : "missing",
+  }));
+
+  await advance();
+  const missing_values = columns.map((column) => {
+    const missing = rows.map((row, idx) => ({ row, line: idx + 2 })).filter(({ row }) => row[column] === "");
+    return {
+      column,
+      missing_count: missing.length,
+      missing_pct: rows.length ? (missing.length / rows.length) * 100 : 0,
+      sample_rows: missing.slice(0, SAMPLE_LIMIT).map(({ row, line }) => ({ __line__: line, ...row })),
+    };
+  });
+
+  const rule_results = [];
+  for (const rule of config.rules) {
+    await advance();
+    rule_results.push({
+      name: rule.name,
+      severity: rule.severity,
+      description: rule.description ?? null,
+      passed: true,
+      failing_rows: 0,
+      sample_rows: [],
+    });
+  }
+
+  const cross_field_results = (config.cross_field_constraints ?? []).map((constraint) => ({
+    name: constraint.name,
+    type: constraint.type,
+    columns: [constraint.column, constraint.when_column, constraint.left, constraint.right, constraint.total]
+      .concat(constraint.columns ?? [])
+      .filter(Boolean),
+    severity: constraint.severity,
+    passed: true,
+    failing_rows: 0,
+    sample_rows: [],
+  }));
+
+  const foreign_key_results = (config.foreign_keys ?? []).map((key) => ({
+    name: key.name,
+    column: key.column,
+    reference:
+      key.reference.type === "file"
+        ? `${key.reference.file_name} › ${key.reference.column}`
+        : `domain ${key.reference.lookup}`,
+    severity: key.severity,
+    checked_rows: rows.filter((row) => (row[key.column] ?? "").trim() !== "").length,
+    orphan_count: 0,
+    sample_rows: [],
+    top_missing_keys: [],
+  }));
+
+  await advance();
+  const id = randomUUID();
+  const report = {
+    id,
+    summary: {
+      dataset_name: config.dataset_name,
+      row_count: rows.length,
+      column_count: columns.length,
+      created_at: new Date().toISOString(),
+      engine_used: "pandas",
+      issues_found:
+        missing_values.reduce((total, item) => total + item.missing_count, 0) +
+        schema_results.filter((item) => item.status !== "ok").length,
+    },
+    schema_results,
+    missing_values,
+    rule_results,
+    cross_field_results,
+    foreign_key_results,
+    sample_rows: rows.slice(0, SAMPLE_LIMIT),
+    config,
+    source_file: file.name,
+  };
+  reports.set(id, report);
+  return report;
+}
+
+function startJob(file, config) {
+  const job = { id: randomUUID(), events: [], listeners: new Set(), done: false, cancelled: false };
+  const emit = (event, data) => {
+    job.events.push({ event, data });
+    job.listeners.forEach((listener) => listener(event, data));
+  };
+  jobs.set(job.id, job);
+  audit(file, config, (stage) => emit("stage", stage), () => job.cancelled)
+    .then((report) => emit("complete", report))
+    .catch((error) => {
+      if (error.cancelled) emit("cancelled", {});
+      else emit("error", { detail: error.message });
+    })
+    .finally(() => {
+      job.done = true;
+      // Keep finished jobs around briefly so a late subscriber still gets the outcome.
+      setTimeout(() => jobs.delete(job.id), 60_000);
+    });
+  return job;
+}
+
+function streamJob(res, job) {
+  res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" });
+  const write = (event, data) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    if (event !== "stage") res.end();
+  };
+  job.events.forEach(({ event, data }) => write(event, data));
+  if (job.done) return;
+  job.listeners.add(write);
+  res.on("close", () => job.listeners.delete(write));
+}
+
+const metadata = (report) => ({
+  id: report.id,
+  dataset_name: report.summary.dataset_name,
+  created_at: report.summary.created_at,
+  issues_found: report.summary.issues_found,
+});
+
+async function route(req, res) {
+  const url = new URL(req.url, "http://localhost");
+  const parts = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+  const method = req.method;
+
+  if (method === "GET" && url.pathname === "/config/template") {
+    return send(res, 200, { dataset_name: "uploaded_dataset", primary_key: [], schema: [], rules: [] });
+  }
+  if (method === "POST" && url.pathname === "/audit/schema") {
+    const { file } = await readForm(req);
+    return send(res, 200, parseTable(await file.text()).columns);
+  }
+  if (method === "POST" && url.pathname === "/audit/run") {
+    const { file, config } = await readForm(req);
+    return send(res, 200, await audit(file, config));
+  }
+  if (method === "POST" && url.pathname === "/audit/jobs") {
+    const { file, config } = await readForm(req);
+    return send(res, 202, { job_id: startJob(file, config).id });
+  }
+  if (parts[0] === "audit" && parts[1] === "jobs" && parts[2]) {
+    const job = jobs.get(parts[2]);
+    if (!job) return send(res, 404, { detail: "Job not found" });
+    if (method === "GET" && parts[3] === "events") return streamJob(res, job);
+    if (method === "DELETE" && !parts[3]) {
+      job.cancelled = true;
+      return send(res, 204);
+    }
+  }
+  if (parts[0] === "reports") {
+    if (method === "GET" && !parts[1]) {
+      return send(res, 200, Array.from(reports.values()).map(metadata));
+    }
+    const report = reports.get(parts[1]);
+    if (!report) return send(res, 404, { detail: "Report not found" });
+    if (method === "GET" && !parts[2]) return send(res, 200, report);
+    if (method === "GET" && parts[2] === "download") {
+      return send(res, 200, report, { "Content-Disposition": `attachment; filename="${report.id}.json"` });
+    }
+    if (method === "DELETE" && !parts[2]) {
+      reports.delete(report.id);
+      return send(res, 204);
+    }
+  }
+  return send(res, 404, { detail: "Not Found" });
+}
+
+createServer((req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "*");
+  if (req.method === "OPTIONS") return send(res, 204);
+  route(req, res).catch((error) => {
+    if (!res.headersSent) send(res, error.status ?? 500, { detail: error.message });
+  });
+}).listen(PORT, "127.0.0.1", () => {
+  console.log(`Mock audit API on http://127.0.0.1:${PORT} (stage delay ${STAGE_DELAY_MS}ms)`);
+});
@@ -1,3 +1,17 @@
 fn main() {
-  tauri_build::build()
+  // Listing the app's commands makes tauri-build generate `allow-*` permissions for them, so each one
+  // has to be granted in `capabilities/` like any plugin command.
+  tauri_build::try_build(tauri_build::Attributes::new().app_manifest(
+    tauri_build::AppManifest::new().commands(&[
+      "pick_data_file",
+      "open_recent_file",
+      "read_data_file",
+      "upload_data_file",
+      "cancel_upload",
+      "list_recent_files",
+      "forget_recent_file",
+      "save_file",
+    ]),
+  ))
+  .expect("failed to run tauri-build");
 }
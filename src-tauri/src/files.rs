@@ -0,0 +1,361 @@
+//! Native file access for the frontend: open and save dialogs, plus a persisted list of recently
+//! opened datasets. The webview can only read files the user picked through the dialog (or picked
+//! in an earlier session), never an arbitrary path.
+//!
+//! Datasets can be many gigabytes, so their contents never cross the IPC bridge whole: the webview
+//! reads bounded prefixes for previews, and audits stream the file to the backend from here.
+
+use std::collections::HashMap;
+use std::fs;
+use std::io::Read;
+use std::path::{Path, PathBuf};
+use std::sync::Mutex;
+use std::time::{SystemTime, UNIX_EPOCH};
+
+use futures_util::future::{AbortHandle, Abortable};
+use futures_util::{stream, StreamExt, TryStreamExt};
+use percent_encoding::percent_decode_str;
+use serde::{Deserialize, Serialize};
+use tauri::ipc::{Channel, InvokeBody, Request, Response};
+use tauri::{AppHandle, Manager, State};
+use tauri_plugin_dialog::DialogExt;
+use tokio_util::io::ReaderStream;
+
+const RECENT_FILES_NAME: &str = "recent-files.json";
+const MAX_RECENT_FILES: usize = 15;
+const DATA_EXTENSIONS: &[&str] = &["csv", "tsv", "txt", "xlsx", "xls"];
+const UPLOAD_CHUNK_BYTES: usize = 256 * 1024;
+/// Progress is reported in steps of this fraction of the file, not once per chunk.
+const PROGRESS_STEPS: u64 = 200;
+
+#[derive(Clone, Serialize, Deserialize)]
+pub struct RecentFile {
+  pub path: String,
+  pub name: String,
+  pub size: u64,
+  /// Milliseconds since the Unix epoch.
+  pub opened_at: u64,
+}
+
+#[derive(Serialize)]
+pub struct RecentFileStatus {
+  #[serde(flatten)]
+  file: RecentFile,
+  exists: bool,
+}
+
+/// A form field sent along with the dataset. Fields with a `file_name` go up as file parts.
+#[derive(Deserialize)]
+pub struct FormPart {
+  name: String,
+  value: String,
+  file_name: Option<String>,
+}
+
+#[derive(Serialize)]
+pub struct UploadResponse {
+  status: u16,
+  body: String,
+}
+
+/// `network` is set when the backend could not be reached, so the frontend can fall back to auditing offline.
+#[derive(Serialize)]
+pub struct UploadError {
+  network: bool,
+  message: String,
+}
+
+impl UploadError {
+  fn other(message: impl ToString) -> Self {
+    Self {
+      network: false,
+      message: message.to_string(),
+    }
+  }
+}
+
+pub struct RecentFiles(Mutex<Vec<RecentFile>>);
+
+/// Uploads in progress, so the frontend can cancel them by id.
+#[derive(Default)]
+pub struct Uploads(Mutex<HashMap<String, AbortHandle>>);
+
+impl RecentFiles {
+  pub fn load(app: &AppHandle) -> Self {
+    let files = store_path(app)
+      .ok()
+      .and_then(|path| fs::read(path).ok())
+      .and_then(|bytes| serde_json::from_slice(&bytes).ok())
+      .unwrap_or_default();
+    Self(Mutex::new(files))
+  }
+
+  fn contains(&self, path: &str) -> Result<bool, String> {
+    Ok(self.lock()?.iter().any(|file| file.path == path))
+  }
+
+  fn lock(&self) -> Result<std::sync::MutexGuard<'_, Vec<RecentFile>>, String> {
+    self.0.lock().map_err(|_| "recent files list is unavailable".to_string())
+  }
+}
+
+fn store_path(app: &AppHandle) -> Result<PathBuf, String> {
+  app
+    .path()
+    .app_data_dir()
+    .map(|dir| dir.join(RECENT_FILES_NAME))
+    .map_err(|error| error.to_string())
+}
+
+fn persist(app: &AppHandle, files: &[RecentFile]) -> Result<(), String> {
+  let path = store_path(app)?;
+  if let Some(dir) = path.parent() {
+    fs::create_dir_all(dir).map_err(|error| error.to_string())?;
+  }
+  let json = serde_json::to_vec_pretty(files).map_err(|error| error.to_string())?;
+  fs::write(path, json).map_err(|error| error.to_string())
+}
+
+fn now_ms() -> u64 {
+  SystemTime::now()
+    .duration_since(UNIX_EPOCH)
+    .map(|duration| duration.as_millis() as u64)
+    .unwrap_or_default()
+}
+
+/// Moves `path` to the top of the recent list, adding it if needed.
+fn remember(app: &AppHandle, recent: &RecentFiles, path: &Path) -> Result<RecentFile, String> {
+  let metadata = fs::metadata(path).map_err(|error| format!("{}: {error}", path.display()))?;
+  let entry = RecentFile {
+    path: path.to_string_lossy().into_owned(),
+    name: path
+      .file_name()
+      .map(|name| name.to_string_lossy().into_owned())
+      .unwrap_or_default(),
+    size: metadata.len(),
+    opened_at: now_ms(),
+  };
+  let mut files = recent.lock()?;
+  files.retain(|file| file.path != entry.path);
+  files.insert(0, entry.clone());
+  files.truncate(MAX_RECENT_FILES);
+  persist(app, &files)?;
+  Ok(entry)
+}
+
+/// Dialogs block until closed, so the commands are async to keep them off the main thread.
+#[tauri::command]
+pub async fn pick_data_file(app: AppHandle, recent: State<'_, RecentFiles>) -> Result<Option<RecentFile>, String> {
+  let Some(picked) = app
+    .dialog()
+    .file()
+    .add_filter("Datasets", DATA_EXTENSIONS)
+    .blocking_pick_file()
+  else {
+    return Ok(None);
+  };
+  let path = picked.into_path().map_err(|error| error.to_string())?;
+  remember(&app, &recent, &path).map(Some)
+}
+
+/// Re-opens a recent file: checks it is still there and moves it to the top of the list.
+#[tauri::command]
+pub fn open_recent_file(app: AppHandle, recent: State<'_, RecentFiles>, path: String) -> Result<RecentFile, String> {
+  if !recent.contains(&path)? {
+    return Err(format!("{path} has not been opened through the file dialog"));
+  }
+  remember(&app, &recent, Path::new(&path))
+}
+
+/// Reads an opened dataset, or only its first `max_bytes` when given.
+#[tauri::command]
+pub async fn read_data_file(
+  recent: State<'_, RecentFiles>,
+  path: String,
+  max_bytes: Option<u64>,
+) -> Result<Response, String> {
+  if !recent.contains(&path)? {
+    return Err(format!("{path} has not been opened through the file dialog"));
+  }
+  let file = fs::File::open(&path).map_err(|error| format!("{path}: {error}"))?;
+  let mut bytes = Vec::new();
+  file
+    .take(max_bytes.unwrap_or(u64::MAX))
+    .read_to_end(&mut bytes)
+    .map_err(|error| format!("{path}: {error}"))?;
+  Ok(Response::new(bytes))
+}
+
+fn part_header(boundary: &str, name: &str, file_name: Option<&str>) -> String {
+  let quote = |value: &str| value.replace('"', "%22").replace(['\r', '\n'], " ");
+  let mut header = format!(
+    "--{boundary}\r\nContent-Disposition: form-data; name=\"{}\"",
+    quote(name)
+  );
+  if let Some(file_name) = file_name {
+    header.push_str(&format!(
+      "; filename=\"{}\"\r\nContent-Type: application/octet-stream",
+      quote(file_name)
+    ));
+  }
+  header.push_str("\r\n\r\n");
+  header
+}
+
+async fn send_multipart(
+  url: String,
+  field: String,
+  path: String,
+  parts: Vec<FormPart>,
+  boundary: String,
+  on_progress: Channel<u64>,
+) -> Result<UploadResponse, UploadError> {
+  let file = tokio::fs::File::open(&path)
+    .await
+    .map_err(|error| UploadError::other(format!("{path}: {error}")))?;
+  let size = file
+    .metadata()
+    .await
+    .map_err(|error| UploadError::other(format!("{path}: {error}")))?
+    .len();
+  let file_name = Path::new(&path)
+    .file_name()
+    .map(|name| name.to_string_lossy().into_owned())
+    .unwrap_or_default();
+
+  let mut head = String::new();
+  for part in &parts {
+    head.push_str(&part_header(&boundary, &part.name, part.file_name.as_deref()));
+    head.push_str(&part.value);
+    head.push_str("\r\n");
+  }
+  head.push_str(&part_header(&boundary, &field, Some(&file_name)));
+  let tail = format!("\r\n--{boundary}--\r\n");
+  let length = head.len() as u64 + size + tail.len() as u64;
+
+  let step = (size / PROGRESS_STEPS).max(1);
+  let mut sent = 0u64;
+  let contents = ReaderStream::with_capacity(file, UPLOAD_CHUNK_BYTES).inspect_ok(move |chunk| {
+    let before = sent / step;
+    sent += chunk.len() as u64;
+    if sent / step != before || sent == size {
+      let _ = on_progress.send(sent);
+    }
+  });
+  let body = stream::once(async move { Ok::<_, std::io::Error>(bytes::Bytes::from(head)) })
+    .chain(contents)
+    .chain(stream::once(async move { Ok(bytes::Bytes::from(tail)) }));
+
+  let network = |error: reqwest::Error| UploadError {
+    network: error.is_connect() || error.is_timeout(),
+    message: error.to_string(),
+  };
+  let response = reqwest::Client::new()
+    .post(&url)
+    .header(
+      reqwest::header::CONTENT_TYPE,
+      format!("multipart/form-data; boundary={boundary}"),
+    )
+    .header(reqwest::header::CONTENT_LENGTH, length)
+    .body(reqwest::Body::wrap_stream(body))
+    .send()
+    .await
+    .map_err(network)?;
+  let status = response.status().as_u16();
+  let body = response.text().await.map_err(network)?;
+  Ok(UploadResponse { status, body })
+}
+
+/// Posts an opened dataset to the backend as `multipart/form-data`, streaming it from disk. The file goes up
+/// as the `field` part after the other `parts`; `on_progress` receives the number of file bytes sent.
+#[tauri::command]
+#[allow(clippy::too_many_arguments)]
+pub async fn upload_data_file(
+  recent: State<'_, RecentFiles>,
+  uploads: State<'_, Uploads>,
+  id: String,
+  url: String,
+  field: String,
+  path: String,
+  parts: Vec<FormPart>,
+  on_progress: Channel<u64>,
+) -> Result<UploadResponse, UploadError> {
+  if !recent.contains(&path).map_err(UploadError::other)? {
+    return Err(UploadError::other(format!(
+      "{path} has not been opened through the file dialog"
+    )));
+  }
+  let (handle, registration) = AbortHandle::new_pair();
+  uploads
+    .0
+    .lock()
+    .map_err(|_| UploadError::other("upload list is unavailable"))?
+    .insert(id.clone(), handle);
+  let boundary = format!("dqa-{}-{id}", now_ms());
+  let result = Abortable::new(
+    send_multipart(url, field, path, parts, boundary, on_progress),
+    registration,
+  )
+  .await;
+  if let Ok(mut uploads) = uploads.0.lock() {
+    uploads.remove(&id);
+  }
+  result.unwrap_or_else(|_| Err(UploadError::other("upload cancelled")))
+}
+
+#[tauri::command]
+pub fn cancel_upload(uploads: State<'_, Uploads>, id: String) {
+  if let Some(handle) = uploads.0.lock().ok().and_then(|mut uploads| uploads.remove(&id)) {
+    handle.abort();
+  }
+}
+
+#[tauri::command]
+pub fn list_recent_files(recent: State<'_, RecentFiles>) -> Result<Vec<RecentFileStatus>, String> {
+  Ok(
+    recent
+      .lock()?
+      .iter()
+      .map(|file| RecentFileStatus {
+        exists: Path::new(&file.path).is_file(),
+        file: file.clone(),
+      })
+      .collect(),
+  )
+}
+
+#[tauri::command]
+pub fn forget_recent_file(app: AppHandle, recent: State<'_, RecentFiles>, path: String) -> Result<(), String> {
+  let mut files = recent.lock()?;
+  files.retain(|file| file.path != path);
+  persist(&app, &files)
+}
+
+/// Asks where to save and writes the contents there. Returns the chosen path, or `None` if cancelled.
+/// The contents come as the raw request body, so binary exports cross the bridge without JSON encoding;
+/// the suggested file name comes percent-encoded in the `x-file-name` header.
+#[tauri::command]
+pub async fn save_file(app: AppHandle, request: Request<'_>) -> Result<Option<String>, String> {
+  let InvokeBody::Raw(contents) = request.body() else {
+    return Err("expected the file contents as a raw body".to_string());
+  };
+  let default_name = request
+    .headers()
+    .get("x-file-name")
+    .and_then(|value| value.to_str().ok())
+    .map(|value| percent_decode_str(value).decode_utf8_lossy().into_owned())
+    .ok_or("missing file name")?;
+  let mut dialog = app.dialog().file().set_file_name(&default_name);
+  if let Some(extension) = Path::new(&default_name)
+    .extension()
+    .and_then(|extension| extension.to_str())
+  {
+    dialog = dialog.add_filter(extension.to_uppercase(), &[extension]);
+  }
+  let Some(picked) = dialog.blocking_save_file() else {
+    return Ok(None);
+  };
+  let path = picked.into_path().map_err(|error| error.to_string())?;
+  fs::write(&path, contents).map_err(|error| format!("{}: {error}", path.display()))?;
+  Ok(Some(path.to_string_lossy().into_owned()))
+}
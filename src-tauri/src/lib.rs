@@ -1,6 +1,11 @@
+mod files;
+
+use tauri::Manager;
+
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
   tauri::Builder::default()
+    .plugin(tauri_plugin_dialog::init())
     .setup(|app| {
       if cfg!(debug_assertions) {
         app.handle().plugin(
@@ -9,8 +14,20 @@ pub fn run() {
             .build(),
         )?;
       }
+      app.manage(files::RecentFiles::load(app.handle()));
+      app.manage(files::Uploads::default());
       Ok(())
     })
+    .invoke_handler(tauri::generate_handler![
+      files::pick_data_file,
+      files::open_recent_file,
+      files::read_data_file,
+      files::upload_data_file,
+      files::cancel_upload,
+      files::list_recent_files,
+      files::forget_recent_file,
+      files::save_file,
+    ])
     .run(tauri::generate_context!())
     .expect("error while running tauri application");
 }
@@ -1,15 +1,41 @@
 "use client";
 
-import { useCallback, useEffect, useState } from "react";
-import { AuditConfig, AuditReport, StoredReportMetadata } from "@/types/audit";
-import { apiUrl, fetchJSON } from "@/lib/api";
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from "react";
+import { AuditConfig, AuditProgressState, AuditReport, StoredReportMetadata } from "@/types/audit";
+import {
+  deleteReport as deleteStoredReport,
+  fetchSchemaColumns,
+  getConfigTemplate,
+  isAbortError,
+  isNetworkError,
+  listReports,
+  reportDownloadUrl,
+  runAuditJob,
+} from "@/lib/api";
+import { downloadBlob } from "@/lib/download";
+import { isDelimitedFile, readDelimitedColumns, readDelimitedHead } from "@/lib/csv";
+import { profileColumnsInBackground, runLocalAudit } from "@/lib/localAudit";
+import { profileSnapshot } from "@/lib/anomalies";
+import { saveProfileSnapshot } from "@/lib/profileSnapshots";
+import { resolveReferences } from "@/lib/referenceData";
+import { PickedFile, desktopStore } from "@/lib/nativeFiles";
+import { fetchReport, forgetReport, withBaselineComparison } from "@/lib/reportCache";
+import { unparsedRulesWarning } from "@/lib/ruleExpression";
 import AuditConfigForm from "@/components/AuditConfigForm";
+import ConfigLibrary from "@/components/ConfigLibrary";
+import AuditProgress from "@/components/AuditProgress";
+import AuditQueue from "@/components/AuditQueue";
 import AuditReportView from "@/components/AuditReportView";
+import DesktopFilePicker from "@/components/DesktopFilePicker";
 import ComparisonView from "@/components/ComparisonView";
+import TrendDashboard from "@/components/TrendDashboard";
+import ValueDomainLibrary from "@/components/ValueDomainLibrary";
 
 const panelClass =
   "rounded-3xl border border-white/5 bg-[#11141c]/80 backdrop-blur-xl shadow-[0_20px_45px_rgba(0,0,0,0.45)] p-6 md:p-8";
 
+const SAMPLE_PREVIEW_ROWS = 200;
+
 export default function Home() {
   const [config, setConfig] = useState<AuditConfig>({
     dataset_name: "uploaded_dataset",
@@ -18,17 +44,23 @@ export default function Home() {
     rules: [],
   });
   const [file, setFile] = useState<File | null>(null);
+  // Only known in the desktop app, where files come from the native dialog.
+  const [filePath, setFilePath] = useState<string | null>(null);
+  const desktop = useSyncExternalStore(...desktopStore);
   const [report, setReport] = useState<AuditReport | null>(null);
   const [reports, setReports] = useState<StoredReportMetadata[]>([]);
   const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<AuditProgressState | null>(null);
+  const auditController = useRef<AbortController | null>(null);
   const [message, setMessage] = useState<string>("");
   const [loadingTemplate, setLoadingTemplate] = useState(false);
   const [availableColumns, setAvailableColumns] = useState<string[]>([]);
+  const [sampleRows, setSampleRows] = useState<Record<string, string>[]>([]);
 
   const fetchTemplate = useCallback(async () => {
     setLoadingTemplate(true);
     try {
-      const template = await fetchJSON<AuditConfig>("/config/template");
+      const template = await getConfigTemplate();
       setConfig(template);
     } catch (error) {
       setMessage(`Unable to load template: ${(error as Error).message}`);
@@ -39,7 +71,7 @@ export default function Home() {
 
   const refreshReports = useCallback(async () => {
     try {
-      const data = await fetchJSON<StoredReportMetadata[]>("/reports");
+      const data = await listReports();
       setReports(data);
     } catch (error) {
       setMessage(`Unable to load reports: ${(error as Error).message}`);
@@ -54,89 +86,175 @@ export default function Home() {
   useEffect(() => {
     if (!file) {
       setAvailableColumns([]);
+      setSampleRows([]);
       return;
     }
+    const controller = new AbortController();
+    // Sample values drive live previews in the form; only delimited files can be read client-side.
+    if (isDelimitedFile(file.name)) {
+      readDelimitedHead(file, SAMPLE_PREVIEW_ROWS)
+        .then((table) => !controller.signal.aborted && setSampleRows(table.rows))
+        .catch(() => setSampleRows([]));
+    } else {
+      setSampleRows([]);
+    }
     const fetchColumns = async () => {
       try {
-        const formData = new FormData();
-        formData.append("file", file);
-        const response = await fetch(apiUrl("/audit/schema"), {
-          method: "POST",
-          body: formData,
-        });
-        if (response.ok) {
-          const cols = await response.json();
-          setAvailableColumns(cols);
-        }
+        const cols = await fetchSchemaColumns(file, { signal: controller.signal });
+        setAvailableColumns(cols);
       } catch (error) {
-        console.error("Failed to fetch columns", error);
+        if (isNetworkError(error)) {
+          readDelimitedColumns(file)
+            .then((cols) => !controller.signal.aborted && setAvailableColumns(cols))
+            .catch((localError) => console.error("Failed to read columns", localError));
+        } else if (!isAbortError(error)) {
+          console.error("Failed to fetch columns", error);
+        }
       }
     };
     fetchColumns();
+    return () => controller.abort();
   }, [file]);
 
-  const runAudit = async () => {
-    if (!file) {
+  /**
+   * Shows a report straight away. Column profiles (for server reports of `source`) and the baseline comparison are
+   * added when they are ready, as long as the same report is still open.
+   */
+  const showReport = (base: AuditReport, source?: File) => {
+    setReport(base);
+    const merge = (extra: Partial<AuditReport>) =>
+      setReport((prev) => (prev?.id === base.id ? { ...prev, ...extra } : prev));
+    const profiling = source && !base.column_profiles?.length ? profileColumnsInBackground(source) : null;
+    Promise.resolve(profiling).then(async (profiles) => {
+      const profiled = profiles ? { ...base, ...profiles } : base;
+      if (profiles) {
+        merge(profiles);
+        const snapshot = profileSnapshot(profiled);
+        if (snapshot) saveProfileSnapshot(snapshot);
+      }
+      const compared = await withBaselineComparison(profiled);
+      if (compared !== profiled) merge({ baseline_comparison: compared.baseline_comparison, issues: compared.issues });
+    });
+  };
+
+  const runOfflineAudit = async (target: File, signal: AbortSignal) => {
+    setMessage("Backend unreachable, auditing in the browser...");
+    try {
+      const { report: localReport, skippedRules } = await runLocalAudit(
+        target,
+        config,
+        resolveReferences(config),
+        signal,
+      );
+      showReport(localReport);
+      setMessage(
+        skippedRules.length
+          ? `Audited offline in the browser. Skipped ${skippedRules.map((rule) => `${rule.name} (${rule.reason})`).join(", ")}; the report is not saved to history.`
+          : "Audited offline in the browser. The report is not saved to history.",
+      );
+    } catch (error) {
+      setMessage(isAbortError(error) ? "Audit cancelled." : `Offline audit failed: ${(error as Error).message}`);
+    }
+  };
+
+  const runAudit = async (target: File | null = file) => {
+    if (!target) {
       setMessage("Upload a CSV/Excel file first.");
       return;
     }
+    const ruleWarning = unparsedRulesWarning(config.rules);
+    if (ruleWarning && !window.confirm(ruleWarning)) return;
+    const controller = new AbortController();
+    auditController.current = controller;
     setIsRunning(true);
+    setProgress({ upload: 0, stages: [] });
     setMessage("Running audit...");
     try {
-      const formData = new FormData();
-      formData.append("file", file);
-      formData.append("config", JSON.stringify(config));
-      const response = await fetch(apiUrl("/audit/run"), {
-        method: "POST",
-        body: formData,
+      const auditReport = await runAuditJob(target, config, {
+        references: resolveReferences(config),
+        signal: controller.signal,
+        onUploadProgress: (fraction) => setProgress((prev) => prev && { ...prev, upload: fraction }),
+        onStage: (stage) => setProgress((prev) => prev && { upload: 1, stages: [...prev.stages, stage] }),
       });
-      if (!response.ok) {
-        const payload = await response.text();
-        throw new Error(payload || "Audit failed");
-      }
-      const auditReport = (await response.json()) as AuditReport;
-      setReport(auditReport);
+      setProgress(null);
+      showReport(auditReport, target);
       setMessage("Audit completed successfully.");
       await refreshReports();
     } catch (error) {
-      setMessage(`Audit failed: ${(error as Error).message}`);
+      setProgress(null);
+      if (isAbortError(error)) {
+        setMessage("Audit cancelled.");
+      } else if (isNetworkError(error)) {
+        await runOfflineAudit(target, controller.signal);
+      } else {
+        setMessage(`Audit failed: ${(error as Error).message}`);
+      }
     } finally {
+      auditController.current = null;
+      setProgress(null);
       setIsRunning(false);
     }
   };
 
+  const cancelAudit = () => auditController.current?.abort();
+
+  const selectPickedFile = (picked: PickedFile) => {
+    setFile(picked.file);
+    setFilePath(picked.path);
+  };
+
+  const rerunPickedFile = (picked: PickedFile) => {
+    selectPickedFile(picked);
+    runAudit(picked.file);
+  };
+
   const loadReport = async (reportId: string) => {
     try {
-      const item = await fetchJSON<AuditReport>(`/reports/${reportId}`);
-      setReport(item);
+      const item = await fetchReport(reportId);
+      showReport(item);
     } catch (error) {
       setMessage(`Unable to load report: ${(error as Error).message}`);
     }
   };
 
-  const downloadReport = (reportId: string) => {
-    window.open(apiUrl(`/reports/${reportId}/download`), "_blank");
+  const downloadReport = async (reportId: string) => {
+    if (!desktop) {
+      window.open(reportDownloadUrl(reportId), "_blank");
+      return;
+    }
+    // The desktop webview has no download manager; fetch the report and save it through the native dialog.
+    try {
+      const item = await fetchReport(reportId);
+      downloadBlob(JSON.stringify(item, null, 2), `${reportId}.json`, "application/json");
+    } catch (error) {
+      setMessage(`Unable to download report: ${(error as Error).message}`);
+    }
   };
 
-  const deleteReport = async (reportId: string) => {
+  const deleteReports = async (reportIds: string[]) => {
+    if (!reportIds.length) return;
     if (typeof window !== "undefined") {
-      const confirmed = window.confirm("Delete this report permanently?");
+      const confirmed = window.confirm(
+        reportIds.length === 1 ? "Delete this report permanently?" : `Delete ${reportIds.length} reports permanently?`,
+      );
       if (!confirmed) {
         return;
       }
     }
-    try {
-      const response = await fetch(apiUrl(`/reports/${reportId}`), { method: "DELETE" });
-      if (!response.ok) {
-        throw new Error(await response.text());
-      }
-      if (report?.id === reportId) {
-        setReport(null);
-      }
-      await refreshReports();
-      setMessage("Report deleted.");
-    } catch (error) {
-      setMessage(`Unable to delete report: ${(error as Error).message}`);
+    const results = await Promise.allSettled(reportIds.map((reportId) => deleteStoredReport(reportId)));
+    const deleted = reportIds.filter((_, idx) => results[idx].status === "fulfilled");
+    deleted.forEach(forgetReport);
+    if (report && deleted.includes(report.id)) {
+      setReport(null);
+    }
+    await refreshReports();
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === "rejected");
+    if (failure) {
+      setMessage(
+        `Deleted ${deleted.length} of ${reportIds.length} reports. Unable to delete the rest: ${(failure.reason as Error).message}`,
+      );
+    } else {
+      setMessage(deleted.length === 1 ? "Report deleted." : `${deleted.length} reports deleted.`);
     }
   };
 
@@ -180,22 +298,50 @@ export default function Home() {
             </p>
           </div>
           <div className="flex flex-col gap-4 md:flex-row md:items-center">
-            <input
-              type="file"
-              className="w-full rounded-2xl border border-white/10 bg-[#0D0F12] px-4 py-3 text-sm text-white placeholder:text-[#4f5661]"
-              onChange={(event) => setFile(event.target.files?.[0] ?? null)}
-            />
+            {desktop ? (
+              <DesktopFilePicker
+                currentPath={filePath}
+                disabled={isRunning}
+                onSelect={selectPickedFile}
+                onRerun={rerunPickedFile}
+                setMessage={setMessage}
+              />
+            ) : (
+              <input
+                type="file"
+                className="w-full rounded-2xl border border-white/10 bg-[#0D0F12] px-4 py-3 text-sm text-white placeholder:text-[#4f5661]"
+                onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+              />
+            )}
             <button
-              onClick={runAudit}
+              onClick={() => runAudit()}
               disabled={!file || isRunning}
               className="rounded-full bg-gradient-to-r from-[#00FFAA] via-[#1de7c2] to-[#8A4DFF] px-6 py-3 text-sm font-semibold text-black shadow-[0_12px_30px_rgba(0,255,170,0.25)] transition hover:opacity-90 disabled:cursor-not-allowed disabled:opacity-40"
             >
               {isRunning ? "Running..." : "Run Audit"}
             </button>
           </div>
+          {progress && <AuditProgress progress={progress} onCancel={cancelAudit} />}
         </section>
 
-        <AuditConfigForm config={config} setConfig={setConfig} availableColumns={availableColumns} />
+        <AuditQueue config={config} onOpenReport={showReport} onReportsChanged={refreshReports} />
+
+        <ConfigLibrary
+          config={config}
+          setConfig={setConfig}
+          fileName={file?.name}
+          availableColumns={availableColumns}
+        />
+
+        <ValueDomainLibrary config={config} />
+
+        <AuditConfigForm
+          config={config}
+          setConfig={setConfig}
+          availableColumns={availableColumns}
+          sampleRows={sampleRows}
+          file={file}
+        />
 
         <AuditReportView report={report} />
 
@@ -204,8 +350,10 @@ export default function Home() {
           setMessage={setMessage}
           loadReport={loadReport}
           downloadReport={downloadReport}
-          deleteReport={deleteReport}
+          deleteReports={deleteReports}
         />
+
+        <TrendDashboard reports={reports} loadReport={loadReport} />
       </div>
     </div>
   );
@@ -0,0 +1,155 @@
+// Headless audit for CI pipelines: `npm run audit -- <data-file> --config <config>`.
+// Exit codes: 0 passed, 1 the quality gate failed, 2 the audit could not run.
+import { readFile, writeFile } from "node:fs/promises";
+import { basename, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { AuditConfig, ValueDomain } from "@/types/audit";
+import { isNetworkError, runAuditJob, setApiBaseUrl } from "@/lib/api";
+import { evaluateGate, formatSummary } from "@/lib/auditGate";
+import { parseConfigFile } from "@/lib/configFile";
+import { withBaselineComparison } from "@/lib/reportCache";
+import { detectDelimiter, isDelimitedFile, parseDelimited } from "@/lib/csv";
+import { auditTable, loadReferenceKeys } from "@/lib/localAudit";
+import { AuditReferences } from "@/lib/referenceData";
+import { formatIssues } from "@/lib/validation";
+import { normaliseDomainContent, parseDomainFile } from "@/lib/valueDomains";
+
+const USAGE = `Usage: npm run audit -- <data-file> --config <file> [options]
+
+Options:
+  -c, --config <file>    AuditConfig as JSON or YAML (required)
+  -o, --out <file>       Where to write the AuditReport JSON (default: <data-file name>.report.json)
+      --summary <file>   Also write the text summary to this file
+      --mode <mode>      auto (API, falling back to local when unreachable), api, or local (default: auto)
+      --api <url>        Backend URL (default: $NEXT_PUBLIC_API_BASE_URL or http://127.0.0.1:8000)
+      --min-score <n>    Fail below this quality score, 0-100 (default: the config's pass threshold)
+      --reference <file> Reference file for the config's foreign keys; repeat for several
+      --domain <name>=<file>
+                         Value domain for schema fields and foreign keys: a text file with one value per line,
+                         a CSV whose first column holds the values and other columns aliases, or an exported
+                         domain's JSON; repeat for several
+  -q, --quiet            Only print the result line
+  -h, --help             Show this help
+
+Exit codes: 0 passed, 1 failed the quality gate, 2 the audit could not run.`;
+
+const EXIT_GATE_FAILED = 1;
+const EXIT_ERROR = 2;
+
+class UsageError extends Error {}
+
+type Mode = "auto" | "api" | "local";
+
+// `npm run` switches to the package root; resolve paths against the directory it was invoked from.
+const fromInvocationDir = (path: string) => resolve(process.env.INIT_CWD ?? process.cwd(), path);
+
+async function readReferences(referencePaths: string[], domainArgs: string[]): Promise<AuditReferences> {
+  const files = await Promise.all(
+    referencePaths.map(async (path) => new File([await readFile(fromInvocationDir(path))], basename(path))),
+  );
+  const domains = await Promise.all(
+    domainArgs.map(async (arg): Promise<[string, ValueDomain]> => {
+      const separator = arg.indexOf("=");
+      if (separator < 1) throw new UsageError(`--domain expects <name>=<file>, got "${arg}".`);
+      const name = arg.slice(0, separator);
+      const path = arg.slice(separator + 1);
+      const { version = 1, case_insensitive = false, ...content } = parseDomainFile(
+        await readFile(fromInvocationDir(path), "utf8"),
+        path,
+      );
+      return [name, { name, version, ...normaliseDomainContent({ ...content, case_insensitive }) }];
+    }),
+  );
+  return { files, domains: Object.fromEntries(domains) };
+}
+
+async function auditLocally(path: string, config: AuditConfig, references: AuditReferences) {
+  const name = basename(path);
+  if (!isDelimitedFile(name)) {
+    throw new UsageError(`${name}: only CSV and TSV files can be audited locally; use --mode api for other formats.`);
+  }
+  const text = await readFile(fromInvocationDir(path), "utf8");
+  const table = parseDelimited(text, { delimiter: detectDelimiter(text, name) });
+  return auditTable(table, config, name, await loadReferenceKeys(config, references), references.domains);
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      config: { type: "string", short: "c" },
+      out: { type: "string", short: "o" },
+      summary: { type: "string" },
+      mode: { type: "string", default: "auto" },
+      api: { type: "string" },
+      "min-score": { type: "string" },
+      reference: { type: "string", multiple: true, default: [] },
+      domain: { type: "string", multiple: true, default: [] },
+      quiet: { type: "boolean", short: "q", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  const [dataPath] = positionals;
+  if (!dataPath || positionals.length > 1) throw new UsageError("Pass exactly one data file.");
+  if (!values.config) throw new UsageError("--config is required.");
+  const mode = values.mode as Mode;
+  if (!["auto", "api", "local"].includes(mode)) throw new UsageError(`Unknown --mode "${values.mode}".`);
+  const minScore = values["min-score"] === undefined ? undefined : Number(values["min-score"]);
+  if (minScore !== undefined && !(minScore >= 0 && minScore <= 100)) {
+    throw new UsageError("--min-score must be a number between 0 and 100.");
+  }
+  if (values.api) setApiBaseUrl(values.api);
+  const log = (line: string) => {
+    if (!values.quiet) console.error(line);
+  };
+
+  const parsed = parseConfigFile(await readFile(fromInvocationDir(values.config), "utf8"), values.config);
+  if (!parsed.config) throw new Error(`${values.config}: ${formatIssues(parsed.errors)}`);
+  const config = parsed.config;
+  const references = await readReferences(values.reference, values.domain);
+
+  const audit = async () => {
+    if (mode === "local") return auditLocally(dataPath, config, references);
+    try {
+      const file = new File([await readFile(fromInvocationDir(dataPath))], basename(dataPath));
+      const report = await runAuditJob(file, config, {
+        references,
+        onStage: (stage) => log(`… ${stage.label}`),
+      });
+      return { report, skippedRules: [] };
+    } catch (error) {
+      if (mode === "api" || !isNetworkError(error)) throw error;
+      log("Backend unreachable, auditing locally.");
+      return auditLocally(dataPath, config, references);
+    }
+  };
+  const audited = await audit();
+  const skippedRules = audited.skippedRules;
+  // Earlier reports live in the backend, so `--mode local` never compares with them.
+  const report = mode === "local" ? audited.report : await withBaselineComparison(audited.report);
+
+  const gate = evaluateGate(report, { minScore, skippedRules });
+  const summary = formatSummary(report, gate, skippedRules);
+  const outPath = values.out ?? `${basename(dataPath).replace(/\.[^.]+$/, "")}.report.json`;
+  await writeFile(fromInvocationDir(outPath), `${JSON.stringify(report, null, 2)}\n`);
+  if (values.summary) await writeFile(fromInvocationDir(values.summary), summary);
+
+  if (values.quiet) console.log(gate.passed ? "PASSED" : `FAILED: ${gate.failures.join("; ")}`);
+  else console.log(`${summary}\nReport written to ${outPath}`);
+  return gate.passed ? 0 : EXIT_GATE_FAILED;
+}
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error: Error) => {
+    console.error(`audit: ${error.message}`);
+    if (error instanceof UsageError) console.error(`\n${USAGE}`);
+    process.exitCode = EXIT_ERROR;
+  });
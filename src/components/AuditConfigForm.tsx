@@ -1,5 +1,17 @@
-import { AuditConfig, RuleDefinition, SchemaField } from "@/types/audit";
-import { Dispatch, SetStateAction } from "react";
+import { AnomalyDetectionConfig, AuditConfig, RuleDefinition, SchemaField, ScoringConfig } from "@/types/audit";
+import { ChangeEvent, Dispatch, SetStateAction, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import CrossFieldConstraintBuilder from "@/components/CrossFieldConstraintBuilder";
+import FieldConstraintEditor from "@/components/FieldConstraintEditor";
+import ForeignKeyBuilder from "@/components/ForeignKeyBuilder";
+import RuleExpressionEditor from "@/components/RuleExpressionEditor";
+import RuleTestPanel from "@/components/RuleTestPanel";
+import SchemaInferenceReview from "@/components/SchemaInferenceReview";
+import { DEFAULT_ANOMALY_DETECTION, MIN_BASELINE_REPORTS, defaultAnomalyThreshold } from "@/lib/anomalies";
+import { CONFIG_FILE_ACCEPT, ConfigFileFormat, parseConfigFile, serializeConfig } from "@/lib/configFile";
+import { downloadBlob } from "@/lib/download";
+import { DEFAULT_PASS_THRESHOLD, severityWeights } from "@/lib/qualityScore";
+import { getReferenceData, getServerReferenceData, subscribeReferenceData } from "@/lib/referenceData";
+import { ValidationIssue } from "@/lib/validation";
 
 const dtypeOptions = ["string", "integer", "float", "boolean", "datetime", "category"] as const;
 const severityOptions = ["info", "warning", "error"] as const;
@@ -10,9 +22,44 @@ interface AuditConfigFormProps {
   config: AuditConfig;
   setConfig: Dispatch<SetStateAction<AuditConfig>>;
   availableColumns?: string[];
+  sampleRows?: Record<string, string>[];
+  file?: File | null;
 }
 
-export default function AuditConfigForm({ config, setConfig, availableColumns = [] }: AuditConfigFormProps) {
+const boundFamily = (dtype: SchemaField["dtype"]) => {
+  if (dtype === "integer" || dtype === "float") return "number";
+  if (dtype === "datetime") return "date";
+  return null;
+};
+
+export default function AuditConfigForm({
+  config,
+  setConfig,
+  availableColumns = [],
+  sampleRows = [],
+  file = null,
+}: AuditConfigFormProps) {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const { domains } = useSyncExternalStore(subscribeReferenceData, getReferenceData, getServerReferenceData);
+  const domainNames = domains.map((domain) => domain.name);
+  const [importErrors, setImportErrors] = useState<{ fileName: string; issues: ValidationIssue[] } | null>(null);
+
+  const sampleValues = useMemo(() => {
+    const values: Record<string, string[]> = {};
+    sampleRows.forEach((row) => {
+      Object.entries(row).forEach(([column, value]) => {
+        (values[column] ??= []).push(value);
+      });
+    });
+    return values;
+  }, [sampleRows]);
+
+  const schemaColumns = useMemo(() => config.schema.map((field) => field.name), [config.schema]);
+  const columnOptions = useMemo(
+    () => Array.from(new Set([...availableColumns, ...schemaColumns])).filter(Boolean),
+    [availableColumns, schemaColumns],
+  );
+
   const updateSchemaField = (index: number, field: Partial<SchemaField>) => {
     setConfig((prev) => {
       const nextSchema = [...prev.schema];
@@ -21,6 +68,54 @@ export default function AuditConfigForm({ config, setConfig, availableColumns =
     });
   };
 
+  const updateScoring = (scoring: Partial<ScoringConfig>) => {
+    setConfig((prev) => ({ ...prev, scoring: { ...prev.scoring, ...scoring } }));
+  };
+
+  const weights = severityWeights(config.scoring);
+
+  const anomalyDetection = config.anomaly_detection;
+  const updateAnomalyDetection = (settings: Partial<AnomalyDetectionConfig>) => {
+    setConfig((prev) => ({
+      ...prev,
+      anomaly_detection: { ...(prev.anomaly_detection ?? DEFAULT_ANOMALY_DETECTION), ...settings },
+    }));
+  };
+  const toggleAnomalyDetection = (enabled: boolean) => {
+    setConfig(({ anomaly_detection, ...prev }) =>
+      enabled ? { ...prev, anomaly_detection: anomaly_detection ?? DEFAULT_ANOMALY_DETECTION } : prev,
+    );
+  };
+
+  const exportConfig = (format: ConfigFileFormat) => {
+    const baseName = config.dataset_name.trim() || "audit_config";
+    downloadBlob(
+      serializeConfig(config, format),
+      `${baseName}.${format === "yaml" ? "yaml" : "json"}`,
+      format === "yaml" ? "application/yaml" : "application/json",
+    );
+  };
+
+  const importConfig = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    const result = parseConfigFile(await file.text(), file.name);
+    if (result.config) {
+      setConfig(result.config);
+      setImportErrors(null);
+    } else {
+      setImportErrors({ fileName: file.name, issues: result.errors });
+    }
+  };
+
+  const changeDtype = (index: number, dtype: SchemaField["dtype"]) => {
+    const current = config.schema[index];
+    // Bounds only carry over between dtypes that compare the same way.
+    const keepBounds = boundFamily(current.dtype) === boundFamily(dtype);
+    updateSchemaField(index, keepBounds ? { dtype } : { dtype, min: undefined, max: undefined });
+  };
+
   const addSchemaField = () => {
     setConfig((prev) => ({
       ...prev,
@@ -70,13 +165,64 @@ export default function AuditConfigForm({ config, setConfig, availableColumns =
 
   return (
     <section className={panelClass}>
-      <div className="flex flex-col gap-2">
-        <p className="text-sm uppercase tracking-[0.3em] text-[#8A4DFF]">Step 2</p>
-        <h2 className="text-2xl font-semibold text-white">Load & configure validation rules</h2>
-        <p className="text-sm text-[#9BA0A8]">
-          Define schema constraints, data ranges, enumerations, and custom expressions that the engine enforces.
-        </p>
+      <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+        <div className="flex flex-col gap-2">
+          <p className="text-sm uppercase tracking-[0.3em] text-[#8A4DFF]">Step 2</p>
+          <h2 className="text-2xl font-semibold text-white">Load & configure validation rules</h2>
+          <p className="text-sm text-[#9BA0A8]">
+            Define schema constraints, data ranges, enumerations, cross-field constraints, and custom expressions that the
+            engine enforces.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <input
+            ref={importInputRef}
+            type="file"
+            accept={CONFIG_FILE_ACCEPT}
+            className="hidden"
+            onChange={importConfig}
+          />
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="rounded-full border border-white/20 px-3 py-1 text-xs text-[#00FFAA] transition hover:bg-white/5"
+          >
+            Import
+          </button>
+          <button
+            onClick={() => exportConfig("json")}
+            className="rounded-full border border-white/20 px-3 py-1 text-xs text-[#00FFAA] transition hover:bg-white/5"
+          >
+            Export JSON
+          </button>
+          <button
+            onClick={() => exportConfig("yaml")}
+            className="rounded-full border border-white/20 px-3 py-1 text-xs text-[#00FFAA] transition hover:bg-white/5"
+          >
+            Export YAML
+          </button>
+        </div>
       </div>
+      {importErrors && (
+        <div className="mt-4 rounded-2xl border border-rose-500/30 bg-rose-500/10 p-4 text-sm">
+          <div className="flex items-center justify-between">
+            <p className="font-semibold text-rose-100">
+              {importErrors.fileName} was not loaded ({importErrors.issues.length} problem
+              {importErrors.issues.length === 1 ? "" : "s"})
+            </p>
+            <button onClick={() => setImportErrors(null)} className="text-xs text-rose-200 hover:text-rose-100">
+              Dismiss
+            </button>
+          </div>
+          <ul className="mt-2 space-y-1 font-mono text-xs text-rose-100/90">
+            {importErrors.issues.map((issue, idx) => (
+              <li key={`${issue.path}-${idx}`}>
+                {issue.path}: {issue.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <SchemaInferenceReview file={file} setConfig={setConfig} />
       <div className="grid gap-6 md:grid-cols-2">
         <div>
           <div className="mb-3 flex items-center justify-between">
@@ -137,7 +283,7 @@ export default function AuditConfigForm({ config, setConfig, availableColumns =
                   )}
                   <select
                     value={item.dtype}
-                    onChange={(event) => updateSchemaField(index, { dtype: event.target.value as SchemaField["dtype"] })}
+                    onChange={(event) => changeDtype(index, event.target.value as SchemaField["dtype"])}
                     className="rounded-xl border border-white/10 bg-transparent px-3 py-2"
                   >
                     {dtypeOptions.map((option) => (
@@ -168,8 +314,24 @@ export default function AuditConfigForm({ config, setConfig, availableColumns =
                           .filter(Boolean),
                       })
                     }
-                    className="w-1/2 rounded-xl border border-white/10 bg-transparent px-3 py-2"
+                    className="w-1/3 rounded-xl border border-white/10 bg-transparent px-3 py-2"
                   />
+                  <select
+                    value={item.value_domain ?? ""}
+                    onChange={(event) => updateSchemaField(index, { value_domain: event.target.value || undefined })}
+                    className="w-1/4 rounded-xl border border-white/10 bg-[#11141c] px-3 py-2"
+                    title="Shared value domain the column's values must belong to"
+                  >
+                    <option value="">No value domain</option>
+                    {domainNames.map((name) => (
+                      <option key={name} value={name}>
+                        {name}
+                      </option>
+                    ))}
+                    {item.value_domain && !domainNames.includes(item.value_domain) && (
+                      <option value={item.value_domain}>{item.value_domain} (not stored here)</option>
+                    )}
+                  </select>
                   <button
                     onClick={() => removeSchemaField(index)}
                     className="text-rose-300 transition hover:text-rose-200"
@@ -177,6 +339,11 @@ export default function AuditConfigForm({ config, setConfig, availableColumns =
                     Remove
                   </button>
                 </div>
+                <FieldConstraintEditor
+                  field={item}
+                  sampleValues={sampleValues[item.name] ?? []}
+                  onChange={(patch) => updateSchemaField(index, patch)}
+                />
               </div>
             ))}
             {!config.schema.length && (
@@ -202,12 +369,13 @@ export default function AuditConfigForm({ config, setConfig, availableColumns =
                   onChange={(event) => updateRule(index, { name: event.target.value })}
                   className="w-full rounded-xl border border-white/10 bg-transparent px-3 py-2"
                 />
-                <textarea
+                <RuleExpressionEditor
                   value={rule.expression}
-                  onChange={(event) => updateRule(index, { expression: event.target.value })}
-                  rows={2}
-                  className="w-full rounded-xl border border-white/10 bg-transparent px-3 py-2 font-mono text-xs"
+                  onChange={(expression) => updateRule(index, { expression })}
+                  schemaColumns={schemaColumns}
+                  fileColumns={availableColumns}
                 />
+                <RuleTestPanel file={file} expression={rule.expression} />
                 <div className="flex items-center justify-between">
                   <select
                     value={rule.severity}
@@ -241,6 +409,129 @@ export default function AuditConfigForm({ config, setConfig, availableColumns =
           </div>
         </div>
       </div>
+      <CrossFieldConstraintBuilder
+        config={config}
+        setConfig={setConfig}
+        columns={columnOptions}
+        sampleRows={sampleRows}
+      />
+      <ForeignKeyBuilder config={config} setConfig={setConfig} columns={columnOptions} />
+      <div className="mt-6 rounded-2xl border border-white/10 bg-[#0D0F12] p-4 text-sm shadow-inner shadow-black/40">
+        <div className="mb-3">
+          <h3 className="font-semibold text-white">Quality scoring</h3>
+          <p className="text-xs text-[#9BA0A8]">
+            Each failing check costs its share of rows times the severity weight (0 ignores it, 1 counts it in full).
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-4">
+          {severityOptions.map((level) => (
+            <label key={level} className="flex flex-col gap-1 text-xs capitalize text-[#9BA0A8]">
+              {level} weight
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                value={weights[level]}
+                onChange={(event) =>
+                  updateScoring({
+                    severity_weights: { ...config.scoring?.severity_weights, [level]: Number(event.target.value) },
+                  })
+                }
+                className="w-28 rounded-xl border border-white/10 bg-transparent px-3 py-2 text-sm text-white"
+              />
+            </label>
+          ))}
+          <label className="flex flex-col gap-1 text-xs text-[#9BA0A8]">
+            Pass threshold
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step={1}
+              value={config.scoring?.pass_threshold ?? DEFAULT_PASS_THRESHOLD}
+              onChange={(event) => updateScoring({ pass_threshold: Number(event.target.value) })}
+              className="w-28 rounded-xl border border-white/10 bg-transparent px-3 py-2 text-sm text-white"
+            />
+          </label>
+        </div>
+      </div>
+      <div className="mt-6 rounded-2xl border border-white/10 bg-[#0D0F12] p-4 text-sm shadow-inner shadow-black/40">
+        <div className="mb-3 flex items-start justify-between gap-4">
+          <div>
+            <h3 className="font-semibold text-white">Baseline anomaly detection</h3>
+            <p className="text-xs text-[#9BA0A8]">
+              Compares the row count, null rates, distinct counts and numeric statistics with the latest stored reports
+              of this dataset, and flags values far outside their usual range. Needs at least {MIN_BASELINE_REPORTS}{" "}
+              earlier reports.
+            </p>
+          </div>
+          <label className="flex items-center gap-2 text-xs">
+            <input
+              type="checkbox"
+              checked={Boolean(anomalyDetection)}
+              onChange={(event) => toggleAnomalyDetection(event.target.checked)}
+            />
+            Enabled
+          </label>
+        </div>
+        {anomalyDetection && (
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="flex flex-col gap-1 text-xs text-[#9BA0A8]">
+              Earlier reports
+              <input
+                type="number"
+                min={MIN_BASELINE_REPORTS}
+                step={1}
+                value={anomalyDetection.baseline_runs}
+                onChange={(event) => updateAnomalyDetection({ baseline_runs: Number(event.target.value) })}
+                className="w-28 rounded-xl border border-white/10 bg-transparent px-3 py-2 text-sm text-white"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-[#9BA0A8]">
+              Method
+              <select
+                value={anomalyDetection.method}
+                onChange={(event) => {
+                  const method = event.target.value as AnomalyDetectionConfig["method"];
+                  updateAnomalyDetection({ method, threshold: defaultAnomalyThreshold(method) });
+                }}
+                className="rounded-xl border border-white/10 bg-[#11141c] px-3 py-2 text-sm text-white"
+              >
+                <option value="zscore">Z-score (standard deviations)</option>
+                <option value="iqr">IQR (interquartile ranges)</option>
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-[#9BA0A8]">
+              Threshold
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={anomalyDetection.threshold}
+                onChange={(event) => updateAnomalyDetection({ threshold: Number(event.target.value) })}
+                className="w-28 rounded-xl border border-white/10 bg-transparent px-3 py-2 text-sm text-white"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-[#9BA0A8]">
+              Severity
+              <select
+                value={anomalyDetection.severity}
+                onChange={(event) =>
+                  updateAnomalyDetection({ severity: event.target.value as AnomalyDetectionConfig["severity"] })
+                }
+                className="rounded-xl border border-white/10 bg-[#11141c] px-3 py-2 text-sm text-white"
+              >
+                {severityOptions.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+        )}
+      </div>
     </section>
   );
 }
@@ -0,0 +1,60 @@
+import { AuditProgressState } from "@/types/audit";
+
+interface AuditProgressProps {
+  progress: AuditProgressState;
+  onCancel: () => void;
+}
+
+const percent = (fraction: number) => `${Math.round(Math.min(Math.max(fraction, 0), 1) * 100)}%`;
+
+export default function AuditProgress({ progress, onCancel }: AuditProgressProps) {
+  const uploading = progress.upload < 1 && !progress.stages.length;
+  const current = progress.stages.at(-1) ?? null;
+  const serverProgress = current?.progress ?? null;
+
+  return (
+    <div className="mt-4 space-y-3 rounded-2xl border border-white/10 bg-black/20 p-4 text-sm">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-white">
+          {uploading
+            ? `Uploading ${percent(progress.upload)}`
+            : current
+              ? current.label
+              : "Upload complete, waiting for the server..."}
+        </p>
+        <button
+          onClick={onCancel}
+          className="rounded-full border border-rose-400/40 px-4 py-1 text-xs text-rose-200 transition hover:bg-rose-500/10"
+        >
+          Cancel
+        </button>
+      </div>
+
+      <div className="h-2 overflow-hidden rounded-full bg-white/5">
+        {uploading || serverProgress !== null ? (
+          <div
+            className="h-full rounded-full bg-gradient-to-r from-[#00FFAA] to-[#8A4DFF] transition-[width]"
+            style={{ width: percent(uploading ? progress.upload : (serverProgress ?? 0)) }}
+          />
+        ) : (
+          // No estimate from the engine: show activity rather than a made-up number.
+          <div className="h-full w-full animate-pulse rounded-full bg-gradient-to-r from-[#00FFAA]/40 to-[#8A4DFF]/40" />
+        )}
+      </div>
+
+      {progress.stages.length > 0 && (
+        <ol className="space-y-1 text-xs">
+          <li className="text-[#4f5661]">✓ Upload</li>
+          {progress.stages.map((stage, idx) => {
+            const running = idx === progress.stages.length - 1;
+            return (
+              <li key={`${stage.stage}-${idx}`} className={running ? "text-[#00FFAA]" : "text-[#4f5661]"}>
+                {running ? "›" : "✓"} {stage.label}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+import { AuditConfig, AuditReport } from "@/types/audit";
+import {
+  MAX_QUEUE_CONCURRENCY,
+  QueueProfile,
+  QueueStatus,
+  QueuedAudit,
+  cancelJob,
+  clearFinished,
+  enqueueAudits,
+  getQueue,
+  removeJob,
+  retryJob,
+  setJobProfile,
+  setQueueConcurrency,
+  setQueuePaused,
+  subscribeQueue,
+} from "@/lib/auditQueue";
+import { getProfiles, getServerProfiles, subscribeProfiles } from "@/lib/configLibrary";
+import { unparsedRulesWarning } from "@/lib/ruleExpression";
+import { useEffect, useState, useSyncExternalStore } from "react";
+
+const panelClass =
+  "rounded-3xl border border-white/5 bg-[#11141c]/80 backdrop-blur-xl shadow-[0_20px_45px_rgba(0,0,0,0.45)] p-6 md:p-8";
+
+const CURRENT_CONFIG = "current";
+const CURRENT_CONFIG_LABEL = "Current config";
+
+const statusTone: Record<QueueStatus, string> = {
+  queued: "bg-white/10 text-[#9BA0A8]",
+  running: "bg-blue-500/20 text-blue-200",
+  done: "bg-emerald-500/20 text-emerald-200",
+  failed: "bg-rose-500/20 text-rose-200",
+};
+
+interface AuditQueueProps {
+  config: AuditConfig;
+  onOpenReport: (report: AuditReport, file: File) => void;
+  /** Called as queued audits finish, so report history can be refreshed. */
+  onReportsChanged: () => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(Math.round(bytes / 1024), 1)} KB`;
+
+function progressText(job: QueuedAudit) {
+  if (job.status !== "running" || !job.progress) return null;
+  const current = job.progress.stages.at(-1);
+  if (current) return current.label;
+  return job.progress.upload < 1 ? `Uploading ${Math.round(job.progress.upload * 100)}%` : "Waiting for the server...";
+}
+
+export default function AuditQueue({ config, onOpenReport, onReportsChanged }: AuditQueueProps) {
+  const queue = useSyncExternalStore(subscribeQueue, getQueue, getQueue);
+  const profiles = useSyncExternalStore(subscribeProfiles, getProfiles, getServerProfiles);
+  const [profileId, setProfileId] = useState(CURRENT_CONFIG);
+
+  const resolveProfile = (id: string): QueueProfile => {
+    const profile = profiles.find((item) => item.id === id);
+    return profile
+      ? { id: profile.id, name: profile.name, config: profile.config }
+      : { id: null, name: CURRENT_CONFIG_LABEL, config };
+  };
+
+  const counts = queue.jobs.reduce(
+    (totals, job) => ({ ...totals, [job.status]: totals[job.status] + 1 }),
+    { queued: 0, running: 0, done: 0, failed: 0 } as Record<QueueStatus, number>,
+  );
+  const storedCount = queue.jobs.filter((job) => job.status === "done" && !job.offline).length;
+
+  useEffect(() => {
+    if (storedCount) onReportsChanged();
+  }, [storedCount, onReportsChanged]);
+
+  // The queue sends rules the client parser rejects only once the user has been warned, like a single audit.
+  const confirmRules = (profile: QueueProfile) => {
+    const ruleWarning = unparsedRulesWarning(profile.config.rules);
+    return !ruleWarning || window.confirm(ruleWarning);
+  };
+
+  const addFiles = (files: FileList | null) => {
+    if (!files?.length) return;
+    const profile = resolveProfile(profileId);
+    if (confirmRules(profile)) enqueueAudits(Array.from(files), profile);
+  };
+
+  const switchProfile = (jobId: string, profileId: string) => {
+    const profile = resolveProfile(profileId);
+    if (confirmRules(profile)) setJobProfile(jobId, profile);
+  };
+
+  const selectClass = "rounded-xl border border-white/10 bg-[#0D0F12] px-3 py-2 text-xs text-white";
+
+  return (
+    <section className={panelClass}>
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div className="flex flex-col gap-2">
+          <p className="text-sm uppercase tracking-[0.3em] text-[#8A4DFF]">Batch</p>
+          <h2 className="text-2xl font-semibold text-white">Audit queue</h2>
+          <p className="text-sm text-[#9BA0A8]">
+            Queue several files, each with a config profile, and audit them in turn. Pick a profile before adding files;
+            queued rows can still be switched.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={profileId} onChange={(event) => setProfileId(event.target.value)} className={selectClass}>
+            <option value={CURRENT_CONFIG}>{CURRENT_CONFIG_LABEL}</option>
+            {profiles.map((profile) => (
+              <option key={profile.id} value={profile.id}>
+                {profile.name}
+              </option>
+            ))}
+          </select>
+          <label className="cursor-pointer rounded-full border border-white/20 px-3 py-2 text-xs text-[#00FFAA] transition hover:bg-white/5">
+            Add files
+            <input
+              type="file"
+              multiple
+              className="hidden"
+              onChange={(event) => {
+                addFiles(event.target.files);
+                event.target.value = "";
+              }}
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-3 text-xs text-[#9BA0A8]">
+        <button
+          onClick={() => setQueuePaused(!queue.paused)}
+          disabled={!queue.jobs.length}
+          className="rounded-full bg-gradient-to-r from-[#00FFAA] to-[#53ffe0] px-4 py-2 text-xs font-semibold text-black transition hover:opacity-90 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          {queue.paused ? "Start queue" : "Pause queue"}
+        </button>
+        <label className="flex items-center gap-2">
+          Run at once
+          <select
+            value={queue.concurrency}
+            onChange={(event) => setQueueConcurrency(Number(event.target.value))}
+            className={selectClass}
+          >
+            {Array.from({ length: MAX_QUEUE_CONCURRENCY }, (_, idx) => idx + 1).map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </select>
+        </label>
+        {queue.jobs.length > 0 && (
+          <span>
+            {counts.done} done · {counts.running} running · {counts.queued} queued · {counts.failed} failed
+          </span>
+        )}
+        {counts.done > 0 && (
+          <button onClick={clearFinished} className="ml-auto hover:text-white">
+            Clear finished
+          </button>
+        )}
+      </div>
+
+      <div className="mt-4 overflow-x-auto rounded-2xl border border-white/10 bg-black/20">
+        <table className="min-w-full text-left text-sm">
+          <thead className="bg-white/5 text-xs uppercase text-[#9BA0A8]">
+            <tr>
+              <th className="px-3 py-2">File</th>
+              <th className="px-3 py-2">Profile</th>
+              <th className="px-3 py-2">Status</th>
+              <th className="px-3 py-2">Issues</th>
+              <th className="px-3 py-2">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {queue.jobs.map((job) => {
+              const editable = job.status === "queued" || job.status === "failed";
+              const detail = progressText(job) ?? job.error;
+              return (
+                <tr key={job.id} className="border-b border-white/5">
+                  <td className="px-3 py-2">
+                    <div className="text-white">{job.file.name}</div>
+                    <div className="text-xs text-[#4f5661]">{formatSize(job.file.size)}</div>
+                  </td>
+                  <td className="px-3 py-2">
+                    {editable ? (
+                      <select
+                        value={job.profile.id ?? CURRENT_CONFIG}
+                        onChange={(event) => switchProfile(job.id, event.target.value)}
+                        className={selectClass}
+                      >
+                        <option value={CURRENT_CONFIG}>{CURRENT_CONFIG_LABEL}</option>
+                        {profiles.map((profile) => (
+                          <option key={profile.id} value={profile.id}>
+                            {profile.name}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      job.profile.name
+                    )}
+                  </td>
+                  <td className="px-3 py-2">
+                    <span className={`rounded px-2 py-1 text-xs capitalize ${statusTone[job.status]}`}>{job.status}</span>
+                    {detail && (
+                      <p className={`mt-1 text-xs ${job.status === "failed" ? "text-rose-200" : "text-[#9BA0A8]"}`}>
+                        {detail}
+                      </p>
+                    )}
+                    {job.offline && <p className="mt-1 text-xs text-amber-200">Audited offline; not saved to history.</p>}
+                  </td>
+                  <td className="px-3 py-2">{job.report ? job.report.summary.issues_found.toLocaleString() : "-"}</td>
+                  <td className="px-3 py-2 space-x-2">
+                    {job.report && (
+                      <button
+                        onClick={() => onOpenReport(job.report as AuditReport, job.file)}
+                        className="text-xs text-blue-300 hover:text-blue-200"
+                      >
+                        Open report
+                      </button>
+                    )}
+                    {job.status === "failed" && (
+                      <button onClick={() => retryJob(job.id)} className="text-xs text-emerald-300 hover:text-emerald-200">
+                        Retry
+                      </button>
+                    )}
+                    {job.status === "running" && (
+                      <button onClick={() => cancelJob(job.id)} className="text-xs text-rose-300 hover:text-rose-200">
+                        Cancel
+                      </button>
+                    )}
+                    {job.status !== "running" && (
+                      <button onClick={() => removeJob(job.id)} className="text-xs text-[#9BA0A8] hover:text-white">
+                        Remove
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+            {!queue.jobs.length && (
+              <tr>
+                <td colSpan={5} className="px-3 py-4 text-center text-[#4f5661]">
+                  No files queued.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
@@ -10,7 +10,16 @@ import {
     XAxis,
     YAxis,
 } from "recharts";
-import { apiUrl } from "@/lib/api";
+import { reportDownloadUrl } from "@/lib/api";
+import { MIN_BASELINE_REPORTS, describeComparedMetrics, describeMetric, formatMetricValue } from "@/lib/anomalies";
+import { crossFieldTypeLabels } from "@/lib/crossField";
+import { downloadBlob } from "@/lib/download";
+import { downloadReportHtml, printReportHtml } from "@/lib/htmlReport";
+import { isDesktop } from "@/lib/nativeFiles";
+import { issueCategoryLabels, issueIndicators, reportIssues } from "@/lib/issues";
+import { computeQualityScore, formatScore, qualityDimensions, scoreTone } from "@/lib/qualityScore";
+import ColumnProfiles from "@/components/ColumnProfiles";
+import IssueLog from "@/components/IssueLog";
 
 const panelClass =
     "rounded-3xl border border-white/5 bg-[#11141c]/80 backdrop-blur-xl shadow-[0_20px_45px_rgba(0,0,0,0.45)] p-6 md:p-8";
@@ -20,143 +29,30 @@ interface AuditReportViewProps {
 }
 
 export default function AuditReportView({ report }: AuditReportViewProps) {
-    const allIssues = useMemo(() => {
-        if (!report) return [];
-        const issues: Array<{
-            rowId: string;
-            value: string;
-            errorType: string;
-            ruleOrColumn: string;
-            severity: "info" | "warning" | "error";
-        }> = [];
+    const allIssues = useMemo(() => (report ? reportIssues(report) : []), [report]);
+    const qualityScore = useMemo(() => (report ? computeQualityScore(report) : null), [report]);
 
-        // 1. Rule Failures
-        report.rule_results.forEach((rule) => {
-            if (!rule.passed && rule.sample_rows) {
-                rule.sample_rows.forEach((sample) => {
-                    const enrichedSample = sample as Record<string, string> & { __line__?: string };
-                    issues.push({
-                        rowId: enrichedSample.__line__ ?? "n/a",
-                        value: JSON.stringify(sample), // Or specific column if possible, but rule might involve multiple
-                        errorType: "Rule Failed",
-                        ruleOrColumn: rule.name,
-                        severity: rule.severity,
-                    });
-                });
-            }
-        });
+    const indicators = useMemo(() => (report ? issueIndicators(report) : []), [report]);
 
-        // 2. Missing Values
-        report.missing_values.forEach((mv) => {
-            if (mv.missing_count > 0 && mv.sample_rows) {
-                mv.sample_rows.forEach((sample) => {
-                    const enrichedSample = sample as Record<string, string> & { __line__?: string };
-                    issues.push({
-                        rowId: enrichedSample.__line__ ?? "n/a",
-                        value: "NULL / Empty",
-                        errorType: "Missing Value",
-                        ruleOrColumn: mv.column,
-                        severity: mv.missing_pct > 10 ? "error" : "warning",
-                    });
-                });
-            }
-        });
-
-        // 3. Primary Key Issues
-        if (report.primary_key_result) {
-            const pkCols = report.primary_key_result.columns.join(", ");
-            report.primary_key_result.sample_rows.forEach((sample) => {
-                const enrichedSample = sample as Record<string, string> & { __line__?: string };
-                // Determine if it's a duplicate or null based on the data? 
-                // The backend returns mixed samples. We can infer or just label generic "PK Issue"
-                // For simplicity, let's check if PK columns are null
-                const isNull = report.primary_key_result?.columns.some(col => !sample[col]);
-
-                issues.push({
-                    rowId: enrichedSample.__line__ ?? "n/a",
-                    value: JSON.stringify(sample),
-                    errorType: isNull ? "PK Null" : "PK Duplicate",
-                    ruleOrColumn: pkCols,
-                    severity: "error",
-                });
-            });
-        }
-
-        return issues.sort((a, b) => {
-            // Try to sort by row ID if it's a number
-            const rowA = parseInt(a.rowId);
-            const rowB = parseInt(b.rowId);
-            if (!isNaN(rowA) && !isNaN(rowB)) return rowA - rowB;
-            return a.rowId.localeCompare(b.rowId);
-        });
-    }, [report]);
-
-
-
-    const issueIndicators = useMemo(() => {
-        if (!report) return [];
-        const indicators: Array<{ label: string; detail: string; severity: "info" | "warning" | "error" }> = [];
-
-        report.schema_results.forEach((item) => {
-            if (item.status === "missing") {
-                indicators.push({
-                    label: `Missing column`,
-                    detail: item.field,
-                    severity: "error",
-                });
-            } else if (item.status === "type_mismatch") {
-                indicators.push({
-                    label: `Type mismatch`,
-                    detail: `${item.field}: expected ${item.expected_dtype}, found ${item.actual_dtype ?? "n/a"}`,
-                    severity: "warning",
-                });
-            }
-        });
-
-        report.missing_values.forEach((item) => {
-            if (item.missing_count > 0) {
-                indicators.push({
-                    label: `Missing data`,
-                    detail: `${item.column}: ${item.missing_pct.toFixed(1)}%`,
-                    severity: item.missing_pct > 10 ? "error" : "warning",
-                });
-            }
-        });
-
-        report.rule_results.forEach((rule) => {
-            if (!rule.passed) {
-                indicators.push({
-                    label: `Rule failed`,
-                    detail: `${rule.name} (${rule.failing_rows} rows)`,
-                    severity: rule.severity,
-                });
-            }
-        });
-
-        if (report.primary_key_result) {
-            if (report.primary_key_result.duplicate_count > 0) {
-                indicators.push({
-                    label: "PK duplicate",
-                    detail: `${report.primary_key_result.duplicate_count} rows`,
-                    severity: "error",
-                });
-            }
-            if (report.primary_key_result.null_count > 0) {
-                indicators.push({
-                    label: "PK null",
-                    detail: `${report.primary_key_result.null_count} rows`,
-                    severity: "error",
-                });
-            }
+    const downloadReport = (item: AuditReport) => {
+        // Browser-engine reports never reach the server, so there is nothing to download from it; the desktop
+        // app saves through the native dialog instead of opening a download URL.
+        if (item.summary.engine_used === "browser" || isDesktop()) {
+            downloadBlob(JSON.stringify(item, null, 2), `${item.id}.json`, "application/json");
+            return;
         }
-
-        return indicators;
-    }, [report]);
-
-    const downloadReport = (reportId: string) => {
-        window.open(apiUrl(`/reports/${reportId}/download`), "_blank");
+        window.open(reportDownloadUrl(item.id), "_blank");
     };
 
+    const renderSampleRows = (rows: Record<string, string>[], emptyMessage: string) =>
+        rows.length > 0 ? (
+            <pre className="mt-3 max-h-40 overflow-auto rounded-2xl bg-black/40 p-3 text-xs">
+                {JSON.stringify(rows, null, 2)}
+            </pre>
+        ) : (
+            <p className="mt-3 text-xs text-emerald-300">{emptyMessage}</p>
+        );
+
     const renderMissingChart = (items: MissingValueStat[]) => {
         if (!items.length) return <p className="text-sm text-gray-500">No missing value issues detected.</p>;
         return (
@@ -211,12 +107,27 @@ export default function AuditReportView({ report }: AuditReportViewProps) {
                     <h2 className="text-2xl font-semibold text-white">Quality scorecard</h2>
                 </div>
                 {report && (
-                    <button
-                        onClick={() => downloadReport(report.id)}
-                        className="rounded-full border border-white/20 px-4 py-2 text-xs text-[#00FFAA] transition hover:bg-white/5"
-                    >
-                        Download JSON
-                    </button>
+                    <div className="flex flex-wrap gap-2">
+                        <button
+                            onClick={() => downloadReport(report)}
+                            className="rounded-full border border-white/20 px-4 py-2 text-xs text-[#00FFAA] transition hover:bg-white/5"
+                        >
+                            Download JSON
+                        </button>
+                        <button
+                            onClick={() => downloadReportHtml(report)}
+                            className="rounded-full border border-white/20 px-4 py-2 text-xs text-[#00FFAA] transition hover:bg-white/5"
+                        >
+                            Download HTML
+                        </button>
+                        <button
+                            onClick={() => printReportHtml(report)}
+                            title="Opens the print dialog; choose Save as PDF to export a PDF"
+                            className="rounded-full border border-white/20 px-4 py-2 text-xs text-[#00FFAA] transition hover:bg-white/5"
+                        >
+                            Print / PDF
+                        </button>
+                    </div>
                 )}
             </div>
             {!report && <p className="text-sm text-[#4f5661]">Run an audit to see results.</p>}
@@ -241,16 +152,57 @@ export default function AuditReportView({ report }: AuditReportViewProps) {
                         </div>
                     </div>
 
-                    {issueIndicators.length > 0 && (
+                    {qualityScore && (
+                        <div className="grid gap-4 rounded-2xl border border-white/10 bg-black/20 p-4 md:grid-cols-[200px_1fr]">
+                            <div className="flex flex-col items-center justify-center text-center">
+                                <p className="text-xs uppercase tracking-[0.4em] text-[#9BA0A8]">Quality score</p>
+                                <p className={`mt-2 text-5xl font-bold ${scoreTone(qualityScore.overall, qualityScore.threshold)}`}>
+                                    {formatScore(qualityScore.overall)}
+                                </p>
+                                {qualityScore.passed !== null && (
+                                    <span
+                                        className={`mt-2 rounded px-2 py-1 text-xs ${qualityScore.passed ? "bg-emerald-500/20 text-emerald-200" : "bg-rose-500/20 text-rose-200"
+                                            }`}
+                                    >
+                                        {qualityScore.passed ? "Passes" : "Below"} threshold {qualityScore.threshold}
+                                    </span>
+                                )}
+                            </div>
+                            <div className="grid gap-3 sm:grid-cols-2">
+                                {qualityDimensions.map((dimension) => {
+                                    const value = qualityScore.dimensions[dimension.key];
+                                    return (
+                                        <div key={dimension.key} title={dimension.description}>
+                                            <div className="flex items-baseline justify-between text-sm">
+                                                <span className="text-white">{dimension.label}</span>
+                                                <span className={`font-mono ${scoreTone(value, qualityScore.threshold)}`}>
+                                                    {value === null ? "n/a" : formatScore(value)}
+                                                </span>
+                                            </div>
+                                            <div className="mt-1 h-2 overflow-hidden rounded-full bg-white/5">
+                                                <div
+                                                    className="h-full rounded-full bg-gradient-to-r from-[#00FFAA] to-[#8A4DFF]"
+                                                    style={{ width: `${value ?? 0}%` }}
+                                                />
+                                            </div>
+                                            <p className="mt-1 text-xs text-[#4f5661]">{dimension.description}</p>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
+
+                    {indicators.length > 0 && (
                         <div className="rounded-2xl border border-white/10 bg-black/20 p-4">
                             <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
                                 <h3 className="text-lg font-semibold text-white">Active issue indicators</h3>
                                 <p className="text-xs uppercase tracking-[0.4em] text-[#9BA0A8]">
-                                    {issueIndicators.length} alerts
+                                    {indicators.length} alerts
                                 </p>
                             </div>
                             <div className="mt-4 grid gap-3 md:grid-cols-2">
-                                {issueIndicators.map((indicator, idx) => {
+                                {indicators.map((indicator, idx) => {
                                     let tone = "border-blue-400/30 bg-blue-500/10 text-blue-100";
                                     if (indicator.severity === "error") {
                                         tone = "border-rose-500/30 bg-rose-500/10 text-rose-100";
@@ -301,12 +253,90 @@ export default function AuditReportView({ report }: AuditReportViewProps) {
                                     </div>
                                 </div>
                             </div>
-                            {report.primary_key_result.sample_rows.length > 0 ? (
-                                <pre className="mt-3 max-h-40 overflow-auto rounded-2xl bg-black/40 p-3 text-xs">
-                                    {JSON.stringify(report.primary_key_result.sample_rows, null, 2)}
-                                </pre>
-                            ) : (
-                                <p className="mt-3 text-xs text-emerald-300">No duplicate or null primary key rows detected.</p>
+                            {renderSampleRows(
+                                report.primary_key_result.sample_rows,
+                                "No duplicate or null primary key rows detected.",
+                            )}
+                        </div>
+                    )}
+
+                    {report.foreign_key_results?.map((result) => (
+                        <div key={result.name} className="rounded-2xl border border-white/10 bg-[#0f131b] p-4">
+                            <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                                <div>
+                                    <h3 className="text-lg font-semibold text-white">Referential integrity: {result.name}</h3>
+                                    <p className="text-xs text-[#9BA0A8]">
+                                        {result.column} → {result.reference}
+                                    </p>
+                                </div>
+                                <div className="grid gap-3 text-center sm:grid-cols-2">
+                                    <div>
+                                        <p className="text-xs uppercase text-[#9BA0A8]">Checked rows</p>
+                                        <p className="text-xl font-bold text-white">{result.checked_rows}</p>
+                                    </div>
+                                    <div>
+                                        <p className="text-xs uppercase text-[#9BA0A8]">Orphans</p>
+                                        <p className={`text-xl font-bold ${result.orphan_count ? "text-rose-200" : "text-emerald-200"}`}>
+                                            {result.orphan_count}
+                                        </p>
+                                    </div>
+                                </div>
+                            </div>
+                            {result.top_missing_keys.length > 0 && (
+                                <div className="mt-3">
+                                    <p className="mb-1 text-xs uppercase tracking-[0.2em] text-[#9BA0A8]">Top missing keys</p>
+                                    <div className="flex flex-wrap gap-2 text-xs">
+                                        {result.top_missing_keys.map((key) => (
+                                            <span key={key.value} className="rounded-full bg-rose-500/10 px-3 py-1 font-mono text-rose-100">
+                                                {key.value} <span className="text-rose-200/60">×{key.count}</span>
+                                            </span>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                            {renderSampleRows(result.sample_rows, "Every key exists in the reference.")}
+                        </div>
+                    ))}
+
+                    {report.baseline_comparison && (
+                        <div>
+                            <h3 className="mb-2 text-lg font-semibold text-white">Baseline anomalies</h3>
+                            <p className="mb-2 text-xs text-[#9BA0A8]">
+                                {report.baseline_comparison.baseline_report_ids.length < MIN_BASELINE_REPORTS
+                                    ? `Found ${report.baseline_comparison.baseline_report_ids.length} earlier reports of this dataset; comparisons need at least ${MIN_BASELINE_REPORTS}.`
+                                    : `Compared ${report.baseline_comparison.metrics_checked} metrics with the ${report.baseline_comparison.baseline_report_ids.length} latest earlier reports (${report.baseline_comparison.method === "iqr" ? "IQR" : "z-score"}, threshold ${report.baseline_comparison.threshold}). ${describeComparedMetrics(report.baseline_comparison)}`}
+                            </p>
+                            {report.baseline_comparison.anomalies.length > 0 && (
+                                <div className="overflow-x-auto rounded-2xl border border-white/10 bg-black/20">
+                                    <table className="min-w-full text-left text-sm">
+                                        <thead className="bg-white/5 text-xs uppercase text-[#9BA0A8]">
+                                            <tr>
+                                                <th className="px-3 py-2">Metric</th>
+                                                <th className="px-3 py-2">Observed</th>
+                                                <th className="px-3 py-2">Expected</th>
+                                                <th className="px-3 py-2">Baseline values</th>
+                                                <th className="px-3 py-2">Score</th>
+                                                <th className="px-3 py-2">Severity</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {report.baseline_comparison.anomalies.map((anomaly) => (
+                                                <tr key={`${anomaly.metric}:${anomaly.column ?? ""}`} className="border-b border-white/5">
+                                                    <td className="px-3 py-2">{describeMetric(anomaly)}</td>
+                                                    <td className="px-3 py-2 text-rose-200">
+                                                        {formatMetricValue(anomaly.metric, anomaly.observed)}
+                                                    </td>
+                                                    <td className="px-3 py-2">{formatMetricValue(anomaly.metric, anomaly.expected)}</td>
+                                                    <td className="px-3 py-2 font-mono text-xs text-[#9BA0A8]">
+                                                        {anomaly.baseline.map((value) => formatMetricValue(anomaly.metric, value)).join(", ")}
+                                                    </td>
+                                                    <td className="px-3 py-2">{anomaly.score.toFixed(1)}</td>
+                                                    <td className="px-3 py-2 capitalize">{anomaly.severity}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
                             )}
                         </div>
                     )}
@@ -385,43 +415,72 @@ export default function AuditReportView({ report }: AuditReportViewProps) {
                         </div>
                     </div>
 
-                    {allIssues.length > 0 && (
+                    {report.cross_field_results && report.cross_field_results.length > 0 && (
                         <div>
-                            <h3 className="mb-2 text-lg font-semibold text-white">Detailed issue log</h3>
+                            <h3 className="mb-2 text-lg font-semibold text-white">Cross-field constraints</h3>
                             <div className="overflow-x-auto rounded-2xl border border-white/10 bg-black/20">
                                 <table className="min-w-full text-left text-sm">
                                     <thead className="bg-white/5 text-xs uppercase text-[#9BA0A8]">
                                         <tr>
-                                            <th className="px-3 py-2">Row</th>
-                                            <th className="px-3 py-2">Value</th>
-                                            <th className="px-3 py-2">Error Type</th>
-                                            <th className="px-3 py-2">Rule / Column</th>
+                                            <th className="px-3 py-2">Constraint</th>
+                                            <th className="px-3 py-2">Requires</th>
                                             <th className="px-3 py-2">Severity</th>
+                                            <th className="px-3 py-2">Status</th>
+                                            <th className="px-3 py-2">Failing rows</th>
                                         </tr>
                                     </thead>
                                     <tbody>
-                                        {allIssues.map((item, idx) => (
-                                            <tr key={`${item.errorType}-${item.rowId}-${idx}`} className="border-b border-white/5 hover:bg-white/5">
-                                                <td className="px-3 py-2 font-mono text-xs text-[#9BA0A8]">{item.rowId}</td>
+                                        {report.cross_field_results.map((result) => (
+                                            <tr key={result.name} className="border-b border-white/5">
+                                                <td className="px-3 py-2">{result.name}</td>
+                                                <td className="px-3 py-2 font-mono text-xs text-[#9BA0A8]">
+                                                    {result.details ?? crossFieldTypeLabels[result.type]}
+                                                </td>
+                                                <td className="px-3 py-2 capitalize">{result.severity}</td>
                                                 <td className="px-3 py-2">
-                                                    <div className="max-w-xs truncate text-xs text-white/80" title={item.value}>
-                                                        {item.value}
-                                                    </div>
+                                                    <span
+                                                        className={`rounded px-2 py-1 text-xs ${result.passed ? "bg-emerald-500/20 text-emerald-200" : "bg-rose-500/20 text-rose-200"
+                                                            }`}
+                                                    >
+                                                        {result.passed ? "Passed" : "Failed"}
+                                                    </span>
                                                 </td>
-                                                <td className="px-3 py-2">{item.errorType}</td>
-                                                <td className="px-3 py-2">{item.ruleOrColumn}</td>
+                                                <td className="px-3 py-2">{result.failing_rows}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    )}
+
+                    {report.constraint_results && report.constraint_results.length > 0 && (
+                        <div>
+                            <h3 className="mb-2 text-lg font-semibold text-white">Column constraints</h3>
+                            <div className="overflow-x-auto rounded-2xl border border-white/10 bg-black/20">
+                                <table className="min-w-full text-left text-sm">
+                                    <thead className="bg-white/5 text-xs uppercase text-[#9BA0A8]">
+                                        <tr>
+                                            <th className="px-3 py-2">Column</th>
+                                            <th className="px-3 py-2">Constraint</th>
+                                            <th className="px-3 py-2">Status</th>
+                                            <th className="px-3 py-2">Failing rows</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {report.constraint_results.map((result) => (
+                                            <tr key={`${result.column}-${result.constraint}`} className="border-b border-white/5">
+                                                <td className="px-3 py-2">{result.column}</td>
+                                                <td className="px-3 py-2 text-[#9BA0A8]">{result.details ?? result.constraint}</td>
                                                 <td className="px-3 py-2">
                                                     <span
-                                                        className={`rounded px-2 py-1 text-xs capitalize ${item.severity === "error"
-                                                            ? "bg-rose-500/20 text-rose-200"
-                                                            : item.severity === "warning"
-                                                                ? "bg-amber-500/20 text-amber-200"
-                                                                : "bg-blue-500/20 text-blue-200"
+                                                        className={`rounded px-2 py-1 text-xs ${result.passed ? "bg-emerald-500/20 text-emerald-200" : "bg-rose-500/20 text-rose-200"
                                                             }`}
                                                     >
-                                                        {item.severity}
+                                                        {result.passed ? "Passed" : issueCategoryLabels[result.constraint]}
                                                     </span>
                                                 </td>
+                                                <td className="px-3 py-2">{result.failing_rows}</td>
                                             </tr>
                                         ))}
                                     </tbody>
@@ -430,6 +489,26 @@ export default function AuditReportView({ report }: AuditReportViewProps) {
                         </div>
                     )}
 
+                    {report.column_profiles && report.column_profiles.length > 0 && (
+                        <div>
+                            <h3 className="mb-2 text-lg font-semibold text-white">Column profiles</h3>
+                            {report.column_profile_rows !== undefined && (
+                                <p className="mb-2 text-xs text-[#9BA0A8]">
+                                    Profiled in the browser from the first {report.column_profile_rows.toLocaleString()} rows
+                                    of {report.summary.row_count.toLocaleString()}.
+                                </p>
+                            )}
+                            <ColumnProfiles key={report.id} profiles={report.column_profiles} />
+                        </div>
+                    )}
+
+                    {allIssues.length > 0 && (
+                        <div>
+                            <h3 className="mb-2 text-lg font-semibold text-white">Detailed issue log</h3>
+                            <IssueLog key={report.id} issues={allIssues} exportName={report.summary.dataset_name} />
+                        </div>
+                    )}
+
                     <div>
                         <h3 className="mb-2 text-lg font-semibold text-white">Sample records</h3>
                         <pre className="max-h-56 overflow-x-auto rounded-2xl bg-black/30 p-4 text-xs">
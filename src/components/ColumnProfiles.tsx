@@ -0,0 +1,180 @@
+import { ColumnProfile } from "@/types/audit";
+import { useState } from "react";
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+interface ColumnProfilesProps {
+  profiles: ColumnProfile[];
+}
+
+const kindTone: Record<ColumnProfile["kind"], string> = {
+  numeric: "bg-[#00FFAA]/15 text-[#00FFAA]",
+  datetime: "bg-[#8A4DFF]/20 text-[#c9b0ff]",
+  boolean: "bg-blue-500/20 text-blue-200",
+  string: "bg-white/10 text-white/80",
+};
+
+const formatStat = (value: number) =>
+  Number.isInteger(value) ? value.toLocaleString() : value.toLocaleString(undefined, { maximumFractionDigits: 3 });
+
+const formatDateStat = (value: string) => value.replace("T00:00:00.000Z", "").replace(".000Z", "Z");
+
+function statsFor(profile: ColumnProfile): Array<[string, string]> {
+  if (profile.numeric) {
+    const { min, max, mean, stddev, percentiles } = profile.numeric;
+    return [
+      ["Min", formatStat(min)],
+      ["Max", formatStat(max)],
+      ["Mean", formatStat(mean)],
+      ["Std dev", formatStat(stddev)],
+      ["P5", formatStat(percentiles.p5)],
+      ["P25", formatStat(percentiles.p25)],
+      ["Median", formatStat(percentiles.p50)],
+      ["P75", formatStat(percentiles.p75)],
+      ["P95", formatStat(percentiles.p95)],
+    ];
+  }
+  if (profile.datetime) {
+    return [
+      ["Earliest", formatDateStat(profile.datetime.min)],
+      ["Latest", formatDateStat(profile.datetime.max)],
+    ];
+  }
+  if (profile.string_length) {
+    return [
+      ["Min length", formatStat(profile.string_length.min)],
+      ["Max length", formatStat(profile.string_length.max)],
+      ["Mean length", formatStat(profile.string_length.mean)],
+    ];
+  }
+  return [];
+}
+
+const histogramTitle = (profile: ColumnProfile) =>
+  profile.kind === "string" ? "Length distribution" : profile.kind === "boolean" ? "Value counts" : "Distribution";
+
+export default function ColumnProfiles({ profiles }: ColumnProfilesProps) {
+  const [selected, setSelected] = useState(profiles[0]?.column ?? "");
+  const profile = profiles.find((item) => item.column === selected) ?? profiles[0];
+  if (!profile) return null;
+
+  const total = profile.non_null_count + profile.null_count;
+  const topMax = profile.top_values[0]?.count ?? 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {profiles.map((item) => (
+          <button
+            key={item.column}
+            onClick={() => setSelected(item.column)}
+            className={`rounded-full border px-3 py-1 text-xs transition ${item.column === profile.column
+              ? "border-[#00FFAA]/60 bg-[#00FFAA]/10 text-[#00FFAA]"
+              : "border-white/10 text-[#9BA0A8] hover:bg-white/5"
+              }`}
+          >
+            {item.column}
+          </button>
+        ))}
+      </div>
+
+      <div className="rounded-2xl border border-white/10 bg-black/20 p-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <h4 className="font-mono text-base text-white">{profile.column}</h4>
+          <span className={`rounded px-2 py-1 text-xs capitalize ${kindTone[profile.kind]}`}>{profile.kind}</span>
+        </div>
+        <div className="mt-3 grid grid-cols-2 gap-3 text-sm md:grid-cols-4">
+          <div>
+            <p className="text-xs uppercase text-[#9BA0A8]">Non-null</p>
+            <p className="text-lg font-semibold text-white">{profile.non_null_count.toLocaleString()}</p>
+          </div>
+          <div>
+            <p className="text-xs uppercase text-[#9BA0A8]">Null</p>
+            <p className={`text-lg font-semibold ${profile.null_count ? "text-amber-200" : "text-white"}`}>
+              {profile.null_count.toLocaleString()}
+              {total > 0 && <span className="ml-1 text-xs text-[#9BA0A8]">({((profile.null_count / total) * 100).toFixed(1)}%)</span>}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs uppercase text-[#9BA0A8]">Distinct</p>
+            <p className="text-lg font-semibold text-white">{profile.distinct_count.toLocaleString()}</p>
+          </div>
+          <div>
+            <p className="text-xs uppercase text-[#9BA0A8]">Unique ratio</p>
+            <p className="text-lg font-semibold text-white">
+              {profile.non_null_count ? `${((profile.distinct_count / profile.non_null_count) * 100).toFixed(1)}%` : "-"}
+            </p>
+          </div>
+          {statsFor(profile).map(([label, value]) => (
+            <div key={label}>
+              <p className="text-xs uppercase text-[#9BA0A8]">{label}</p>
+              <p className="font-mono text-sm text-white">{value}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-4 grid gap-4 md:grid-cols-2">
+          <div>
+            <p className="mb-2 text-xs uppercase text-[#9BA0A8]">{histogramTitle(profile)}</p>
+            {profile.histogram.length ? (
+              <div className="h-56 w-full">
+                <ResponsiveContainer>
+                  <BarChart data={profile.histogram}>
+                    <defs>
+                      <linearGradient id="profileBar" x1="0" x2="0" y1="0" y2="1">
+                        <stop offset="0%" stopColor="#00FFAA" />
+                        <stop offset="100%" stopColor="#8A4DFF" />
+                      </linearGradient>
+                    </defs>
+                    <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.06)" />
+                    <XAxis
+                      dataKey="label"
+                      tick={{ fill: "#9BA0A8", fontSize: 10 }}
+                      interval="preserveStartEnd"
+                      axisLine={{ stroke: "rgba(255,255,255,0.08)" }}
+                      tickLine={{ stroke: "rgba(255,255,255,0.08)" }}
+                    />
+                    <YAxis
+                      allowDecimals={false}
+                      tick={{ fill: "#9BA0A8" }}
+                      axisLine={{ stroke: "rgba(255,255,255,0.08)" }}
+                      tickLine={{ stroke: "rgba(255,255,255,0.08)" }}
+                    />
+                    <Tooltip
+                      contentStyle={{ background: "#11141c", border: "1px solid rgba(255,255,255,0.08)", borderRadius: 16 }}
+                    />
+                    <Bar dataKey="count" fill="url(#profileBar)" radius={[6, 6, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            ) : (
+              <p className="text-sm text-[#4f5661]">No non-null values.</p>
+            )}
+          </div>
+          <div>
+            <p className="mb-2 text-xs uppercase text-[#9BA0A8]">Top values</p>
+            {profile.top_values.length ? (
+              <ul className="space-y-1 text-xs">
+                {profile.top_values.map((item) => (
+                  <li key={item.value} className="relative overflow-hidden rounded-lg bg-white/5 px-2 py-1">
+                    <div
+                      className="absolute inset-y-0 left-0 bg-[#8A4DFF]/25"
+                      style={{ width: `${topMax ? (item.count / topMax) * 100 : 0}%` }}
+                    />
+                    <div className="relative flex justify-between gap-3">
+                      <span className="truncate text-white" title={item.value}>
+                        {item.value}
+                      </span>
+                      <span className="font-mono text-[#9BA0A8]">{item.count.toLocaleString()}</span>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-[#4f5661]">No non-null values.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
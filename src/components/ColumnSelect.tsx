@@ -0,0 +1,36 @@
+const inputClass = "rounded-xl border border-white/10 bg-transparent px-3 py-2";
+const selectClass = "rounded-xl border border-white/10 bg-[#11141c] px-3 py-2";
+
+interface ColumnSelectProps {
+  value: string;
+  columns: string[];
+  placeholder: string;
+  onChange: (column: string) => void;
+}
+
+/** A column dropdown, or a free-text input when no columns are known yet. */
+export default function ColumnSelect({ value, columns, placeholder, onChange }: ColumnSelectProps) {
+  if (!columns.length) {
+    return (
+      <input
+        value={value}
+        placeholder={placeholder}
+        onChange={(event) => onChange(event.target.value)}
+        className={`${inputClass} min-w-0 flex-1`}
+      />
+    );
+  }
+  return (
+    <select value={value} onChange={(event) => onChange(event.target.value)} className={`${selectClass} min-w-0 flex-1`}>
+      <option value="" disabled>
+        {placeholder}
+      </option>
+      {value && !columns.includes(value) && <option value={value}>{value}</option>}
+      {columns.map((column) => (
+        <option key={column} value={column}>
+          {column}
+        </option>
+      ))}
+    </select>
+  );
+}
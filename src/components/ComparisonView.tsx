@@ -1,16 +1,37 @@
 import { AuditReport, StoredReportMetadata } from "@/types/audit";
-import { fetchJSON } from "@/lib/api";
-import { Dispatch, SetStateAction, useState } from "react";
+import { fetchReport } from "@/lib/reportCache";
+import { ChangeKind, diffReports } from "@/lib/reportDiff";
+import { Dispatch, SetStateAction, useMemo, useState } from "react";
+import ReportHistory from "@/components/ReportHistory";
 
 const panelClass =
     "rounded-3xl border border-white/5 bg-[#11141c]/80 backdrop-blur-xl shadow-[0_20px_45px_rgba(0,0,0,0.45)] p-6 md:p-8";
 
+const changeTone: Record<ChangeKind, string> = {
+    regression: "text-rose-200",
+    improvement: "text-emerald-200",
+    unchanged: "text-slate-400",
+};
+
+const changeBadge: Record<ChangeKind, string> = {
+    regression: "bg-rose-500/20 text-rose-200",
+    improvement: "bg-emerald-500/20 text-emerald-200",
+    unchanged: "bg-white/5 text-slate-400",
+};
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta.toLocaleString()}` : delta.toLocaleString());
+
+const formatRuleState = (passed: boolean | undefined, failingRows: number) => {
+    if (passed === undefined) return "-";
+    return passed ? "Passed" : `Failed (${failingRows})`;
+};
+
 interface ComparisonViewProps {
     reports: StoredReportMetadata[];
     setMessage: Dispatch<SetStateAction<string>>;
     loadReport: (id: string) => void;
     downloadReport: (id: string) => void;
-    deleteReport: (id: string) => void;
+    deleteReports: (ids: string[]) => Promise<void>;
 }
 
 export default function ComparisonView({
@@ -18,20 +39,24 @@ export default function ComparisonView({
     setMessage,
     loadReport,
     downloadReport,
-    deleteReport,
+    deleteReports,
 }: ComparisonViewProps) {
     const [compareIds, setCompareIds] = useState<{ a?: string; b?: string }>({});
     const [comparison, setComparison] = useState<{ a: AuditReport; b: AuditReport } | null>(null);
+    const [showUnchanged, setShowUnchanged] = useState(false);
 
-    const handleCompare = async () => {
-        if (!compareIds.a || !compareIds.b || compareIds.a === compareIds.b) {
+    const diff = useMemo(() => (comparison ? diffReports(comparison.a, comparison.b) : null), [comparison]);
+
+    const compareReports = async (a?: string, b?: string) => {
+        if (!a || !b || a === b) {
             setMessage("Choose two different reports to compare.");
             return;
         }
+        setCompareIds({ a, b });
         try {
             const [reportA, reportB] = await Promise.all([
-                fetchJSON<AuditReport>(`/reports/${compareIds.a}`),
-                fetchJSON<AuditReport>(`/reports/${compareIds.b}`),
+                fetchReport(a),
+                fetchReport(b),
             ]);
             setComparison({ a: reportA, b: reportB });
         } catch (error) {
@@ -39,6 +64,54 @@ export default function ComparisonView({
         }
     };
 
+    const renderDiffTable = (
+        title: string,
+        headers: string[],
+        rows: Array<{ key: string; kind: ChangeKind; cells: string[] }>,
+    ) => {
+        const visible = showUnchanged ? rows : rows.filter((row) => row.kind !== "unchanged");
+        if (!rows.length) return null;
+        return (
+            <div>
+                <h4 className="mb-2 text-sm font-semibold text-white">{title}</h4>
+                {visible.length ? (
+                    <div className="overflow-x-auto rounded-2xl border border-white/10 bg-black/20">
+                        <table className="min-w-full text-left text-sm">
+                            <thead className="bg-white/5 text-xs uppercase text-[#9BA0A8]">
+                                <tr>
+                                    {headers.map((header) => (
+                                        <th key={header} className="px-3 py-2">
+                                            {header}
+                                        </th>
+                                    ))}
+                                    <th className="px-3 py-2">Change</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {visible.map((row) => (
+                                    <tr key={row.key} className="border-b border-white/5">
+                                        {row.cells.map((cell, idx) => (
+                                            <td key={idx} className="px-3 py-2">
+                                                {cell}
+                                            </td>
+                                        ))}
+                                        <td className="px-3 py-2">
+                                            <span className={`rounded px-2 py-1 text-xs capitalize ${changeBadge[row.kind]}`}>
+                                                {row.kind}
+                                            </span>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                ) : (
+                    <p className="text-xs text-[#4f5661]">No changes.</p>
+                )}
+            </div>
+        );
+    };
+
     return (
         <section className={panelClass}>
             <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
@@ -73,7 +146,7 @@ export default function ComparisonView({
                         ))}
                     </select>
                     <button
-                        onClick={handleCompare}
+                        onClick={() => compareReports(compareIds.a, compareIds.b)}
                         className="rounded-full bg-gradient-to-r from-[#00FFAA] to-[#8A4DFF] px-4 py-2 text-sm font-semibold text-black shadow-[0_10px_25px_rgba(0,0,0,0.4)] transition hover:opacity-90"
                     >
                         Compare
@@ -81,73 +154,91 @@ export default function ComparisonView({
                 </div>
             </div>
 
-            <div className="mt-4 overflow-x-auto rounded-2xl border border-white/10 bg-black/20">
-                <table className="min-w-full text-left text-sm">
-                    <thead className="bg-white/5 text-xs uppercase text-[#9BA0A8]">
-                        <tr>
-                            <th className="px-3 py-2">Dataset</th>
-                            <th className="px-3 py-2">Created</th>
-                            <th className="px-3 py-2">Issues</th>
-                            <th className="px-3 py-2">Actions</th>
-                        </tr>
-                    </thead>
-                    <tbody>
-                        {reports.map((item) => (
-                            <tr key={item.id} className="border-b border-white/5">
-                                <td className="px-3 py-2">{item.dataset_name}</td>
-                                <td className="px-3 py-2">{new Date(item.created_at).toLocaleString()}</td>
-                                <td className="px-3 py-2">{item.issues_found}</td>
-                                <td className="px-3 py-2 space-x-2">
-                                    <button
-                                        onClick={() => loadReport(item.id)}
-                                        className="text-xs text-blue-300 hover:text-blue-200"
-                                    >
-                                        View
-                                    </button>
-                                    <button
-                                        onClick={() => downloadReport(item.id)}
-                                        className="text-xs text-emerald-300 hover:text-emerald-200"
-                                    >
-                                        Download
-                                    </button>
-                                    <button
-                                        onClick={() => deleteReport(item.id)}
-                                        className="text-xs text-rose-300 hover:text-rose-200"
-                                    >
-                                        Delete
-                                    </button>
-                                </td>
-                            </tr>
-                        ))}
-                        {!reports.length && (
-                            <tr>
-                                <td colSpan={4} className="px-3 py-4 text-center text-[#4f5661]">
-                                    No historical audits stored yet.
-                                </td>
-                            </tr>
-                        )}
-                    </tbody>
-                </table>
-            </div>
+            <ReportHistory
+                reports={reports}
+                setMessage={setMessage}
+                loadReport={loadReport}
+                downloadReport={downloadReport}
+                deleteReports={deleteReports}
+                compareReports={compareReports}
+            />
 
-            {comparison && (
-                <div className="mt-6 grid gap-4 rounded-2xl border border-white/10 bg-black/20 p-4 md:grid-cols-3">
-                    <div>
-                        <p className="text-xs uppercase text-[#9BA0A8]">Report A issues</p>
-                        <p className="text-2xl font-semibold text-rose-200">{comparison.a.summary.issues_found}</p>
+            {comparison && diff && (
+                <div className="mt-6 space-y-4 rounded-2xl border border-white/10 bg-black/20 p-4">
+                    <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                        <h3 className="text-lg font-semibold text-white">Regression diff</h3>
+                        <div className="flex items-center gap-3 text-xs">
+                            <span className="text-rose-200">{diff.totals.regression} regressions</span>
+                            <span className="text-emerald-200">{diff.totals.improvement} improvements</span>
+                            <label className="flex items-center gap-2 text-[#9BA0A8]">
+                                <input
+                                    type="checkbox"
+                                    checked={showUnchanged}
+                                    onChange={(event) => setShowUnchanged(event.target.checked)}
+                                />
+                                Show unchanged
+                            </label>
+                        </div>
                     </div>
-                    <div>
-                        <p className="text-xs uppercase text-[#9BA0A8]">Report B issues</p>
-                        <p className="text-2xl font-semibold text-emerald-200">{comparison.b.summary.issues_found}</p>
-                    </div>
-                    <div>
-                        <p className="text-xs uppercase text-[#9BA0A8]">Delta</p>
-                        {(() => {
-                            const delta = comparison.b.summary.issues_found - comparison.a.summary.issues_found;
-                            const tone = delta > 0 ? "text-rose-200" : delta < 0 ? "text-emerald-200" : "text-slate-200";
-                            return <p className={`text-2xl font-semibold ${tone}`}>{delta}</p>;
-                        })()}
+
+                    <div className="grid gap-4 md:grid-cols-3">
+                        {diff.counts.map((item) => (
+                            <div key={item.label}>
+                                <p className="text-xs uppercase text-[#9BA0A8]">{item.label}</p>
+                                <p className="text-2xl font-semibold text-white">
+                                    {item.before.toLocaleString()} → {item.after.toLocaleString()}
+                                </p>
+                                <p className={`text-sm ${changeTone[item.kind]}`}>{formatDelta(item.delta)}</p>
+                            </div>
+                        ))}
                     </div>
+
+                    {renderDiffTable(
+                        "Schema",
+                        ["Field", "Report A", "Report B"],
+                        diff.schema.map((item) => ({
+                            key: item.field,
+                            kind: item.kind,
+                            cells: [item.field, item.before ?? "-", item.after ?? "-"],
+                        })),
+                    )}
+                    {renderDiffTable(
+                        "Missing values",
+                        ["Column", "Report A", "Report B", "Delta"],
+                        diff.missing.map((item) => ({
+                            key: item.column,
+                            kind: item.kind,
+                            cells: [
+                                item.column,
+                                `${item.before.toFixed(2)}%`,
+                                `${item.after.toFixed(2)}%`,
+                                `${formatDelta(Number(item.delta.toFixed(2)))} pp`,
+                            ],
+                        })),
+                    )}
+                    {renderDiffTable(
+                        "Rules",
+                        ["Rule", "Report A", "Report B", "Failing rows delta"],
+                        diff.rules.map((item) => ({
+                            key: item.name,
+                            kind: item.kind,
+                            cells: [
+                                item.name,
+                                formatRuleState(item.passedBefore, item.failingBefore),
+                                formatRuleState(item.passedAfter, item.failingAfter),
+                                formatDelta(item.delta),
+                            ],
+                        })),
+                    )}
+                    {renderDiffTable(
+                        "Primary key",
+                        ["Check", "Report A", "Report B", "Delta"],
+                        diff.primaryKey.map((item) => ({
+                            key: item.label,
+                            kind: item.kind,
+                            cells: [item.label, String(item.before), String(item.after), formatDelta(item.delta)],
+                        })),
+                    )}
                 </div>
             )}
         </section>
@@ -0,0 +1,181 @@
+import { AuditConfig } from "@/types/audit";
+import {
+  ConfigProfile,
+  deleteProfile,
+  duplicateProfile,
+  getProfiles,
+  getServerProfiles,
+  renameProfile,
+  saveProfile,
+  subscribeProfiles,
+  suggestProfile,
+  updateProfileConfig,
+} from "@/lib/configLibrary";
+import { Dispatch, SetStateAction, useMemo, useState, useSyncExternalStore } from "react";
+
+const panelClass =
+  "rounded-3xl border border-white/5 bg-[#11141c]/80 backdrop-blur-xl shadow-[0_20px_45px_rgba(0,0,0,0.45)] p-6 md:p-8";
+
+interface ConfigLibraryProps {
+  config: AuditConfig;
+  setConfig: Dispatch<SetStateAction<AuditConfig>>;
+  fileName?: string;
+  availableColumns: string[];
+}
+
+export default function ConfigLibrary({ config, setConfig, fileName, availableColumns }: ConfigLibraryProps) {
+  const profiles = useSyncExternalStore(subscribeProfiles, getProfiles, getServerProfiles);
+  const [newName, setNewName] = useState("");
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [dismissedFor, setDismissedFor] = useState<string | null>(null);
+
+  const suggestion = useMemo(() => {
+    if (!fileName || dismissedFor === fileName) return null;
+    const match = suggestProfile(profiles, fileName, availableColumns);
+    return match && match.profile.id !== activeId ? match : null;
+  }, [profiles, fileName, availableColumns, activeId, dismissedFor]);
+
+  const applyProfile = (profile: ConfigProfile) => {
+    setConfig(structuredClone(profile.config));
+    setActiveId(profile.id);
+  };
+
+  const saveCurrent = () => {
+    setActiveId(saveProfile(newName, config).id);
+    setNewName("");
+  };
+
+  const commitRename = () => {
+    if (!renaming) return;
+    renameProfile(renaming.id, renaming.name);
+    setRenaming(null);
+  };
+
+  const removeProfile = (profile: ConfigProfile) => {
+    if (!window.confirm(`Delete profile "${profile.name}"?`)) return;
+    deleteProfile(profile.id);
+    if (activeId === profile.id) setActiveId(null);
+  };
+
+  return (
+    <section className={panelClass}>
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div className="flex flex-col gap-2">
+          <p className="text-sm uppercase tracking-[0.3em] text-[#8A4DFF]">Profiles</p>
+          <h2 className="text-2xl font-semibold text-white">Config library</h2>
+          <p className="text-sm text-[#9BA0A8]">
+            Save configurations per dataset and reuse them for recurring feeds. Profiles are stored on this device.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <input
+            value={newName}
+            onChange={(event) => setNewName(event.target.value)}
+            placeholder={config.dataset_name || "Profile name"}
+            className="rounded-xl border border-white/10 bg-transparent px-3 py-2 text-sm"
+          />
+          <button
+            onClick={saveCurrent}
+            className="rounded-full border border-white/20 px-3 py-1 text-xs text-[#00FFAA] transition hover:bg-white/5"
+          >
+            Save current
+          </button>
+        </div>
+      </div>
+
+      {suggestion && (
+        <div className="mt-4 flex flex-col gap-2 rounded-2xl border border-[#00FFAA]/30 bg-[#00FFAA]/10 px-4 py-3 text-sm md:flex-row md:items-center md:justify-between">
+          <p className="text-white">
+            Profile <span className="font-semibold">{suggestion.profile.name}</span> looks like a match:{" "}
+            <span className="text-[#9BA0A8]">{suggestion.reason}</span>
+          </p>
+          <div className="flex gap-3 text-xs">
+            <button onClick={() => applyProfile(suggestion.profile)} className="text-[#00FFAA] hover:underline">
+              Apply
+            </button>
+            <button onClick={() => setDismissedFor(fileName ?? null)} className="text-[#9BA0A8] hover:text-white">
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-4 overflow-x-auto rounded-2xl border border-white/10 bg-black/20">
+        <table className="min-w-full text-left text-sm">
+          <thead className="bg-white/5 text-xs uppercase text-[#9BA0A8]">
+            <tr>
+              <th className="px-3 py-2">Profile</th>
+              <th className="px-3 py-2">Dataset</th>
+              <th className="px-3 py-2">Columns</th>
+              <th className="px-3 py-2">Rules</th>
+              <th className="px-3 py-2">Updated</th>
+              <th className="px-3 py-2">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {profiles.map((profile) => (
+              <tr key={profile.id} className={`border-b border-white/5 ${profile.id === activeId ? "bg-white/5" : ""}`}>
+                <td className="px-3 py-2">
+                  {renaming?.id === profile.id ? (
+                    <input
+                      value={renaming.name}
+                      onChange={(event) => setRenaming({ id: profile.id, name: event.target.value })}
+                      onBlur={commitRename}
+                      onKeyDown={(event) => {
+                        if (event.key === "Enter") commitRename();
+                        if (event.key === "Escape") setRenaming(null);
+                      }}
+                      className="rounded-xl border border-white/10 bg-transparent px-2 py-1"
+                      autoFocus
+                    />
+                  ) : (
+                    profile.name
+                  )}
+                </td>
+                <td className="px-3 py-2">{profile.config.dataset_name}</td>
+                <td className="px-3 py-2">{profile.config.schema.length}</td>
+                <td className="px-3 py-2">{profile.config.rules.length}</td>
+                <td className="px-3 py-2">{new Date(profile.updated_at).toLocaleString()}</td>
+                <td className="px-3 py-2 space-x-2">
+                  <button onClick={() => applyProfile(profile)} className="text-xs text-blue-300 hover:text-blue-200">
+                    Load
+                  </button>
+                  <button
+                    onClick={() => updateProfileConfig(profile.id, config)}
+                    className="text-xs text-emerald-300 hover:text-emerald-200"
+                    title="Overwrite with the current configuration"
+                  >
+                    Update
+                  </button>
+                  <button
+                    onClick={() => setRenaming({ id: profile.id, name: profile.name })}
+                    className="text-xs text-[#9BA0A8] hover:text-white"
+                  >
+                    Rename
+                  </button>
+                  <button
+                    onClick={() => duplicateProfile(profile.id)}
+                    className="text-xs text-[#9BA0A8] hover:text-white"
+                  >
+                    Duplicate
+                  </button>
+                  <button onClick={() => removeProfile(profile)} className="text-xs text-rose-300 hover:text-rose-200">
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {!profiles.length && (
+              <tr>
+                <td colSpan={6} className="px-3 py-4 text-center text-[#4f5661]">
+                  No saved profiles yet.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,334 @@
+import { AuditConfig, ComparisonOperator, CrossFieldConstraint, CrossFieldType, Severity } from "@/types/audit";
+import {
+  comparisonOperators,
+  crossFieldColumns,
+  crossFieldTypeLabels,
+  crossFieldViolation,
+  describeCrossField,
+  newCrossFieldConstraint,
+} from "@/lib/crossField";
+import { Dispatch, SetStateAction, useMemo, useState } from "react";
+import ColumnSelect from "@/components/ColumnSelect";
+
+const severityOptions = ["info", "warning", "error"] as const;
+const inputClass = "rounded-xl border border-white/10 bg-transparent px-3 py-2";
+const selectClass = "rounded-xl border border-white/10 bg-[#11141c] px-3 py-2";
+
+interface CrossFieldConstraintBuilderProps {
+  config: AuditConfig;
+  setConfig: Dispatch<SetStateAction<AuditConfig>>;
+  /** Columns from the file and the schema, offered in the column pickers. */
+  columns: string[];
+  sampleRows: Record<string, string>[];
+}
+
+const splitList = (text: string) =>
+  text
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+interface ColumnListProps {
+  values: string[];
+  columns: string[];
+  onChange: (columns: string[]) => void;
+}
+
+function ColumnList({ values, columns, onChange }: ColumnListProps) {
+  if (!columns.length) {
+    return (
+      <input
+        key={values.join(",")}
+        defaultValue={values.join(", ")}
+        placeholder="Columns comma-separated"
+        onBlur={(event) => onChange(splitList(event.target.value))}
+        className={`${inputClass} w-full`}
+      />
+    );
+  }
+  const remaining = columns.filter((column) => !values.includes(column));
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {values.map((column) => (
+        <span key={column} className="flex items-center gap-1 rounded-full bg-white/5 px-3 py-1 text-xs text-white">
+          {column}
+          <button
+            onClick={() => onChange(values.filter((item) => item !== column))}
+            className="text-[#9BA0A8] hover:text-rose-200"
+            title={`Remove ${column}`}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      {remaining.length > 0 && (
+        <select
+          value=""
+          onChange={(event) => onChange([...values, event.target.value])}
+          className={`${selectClass} text-xs`}
+        >
+          <option value="" disabled>
+            Add column…
+          </option>
+          {remaining.map((column) => (
+            <option key={column} value={column}>
+              {column}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
+
+export default function CrossFieldConstraintBuilder({
+  config,
+  setConfig,
+  columns,
+  sampleRows,
+}: CrossFieldConstraintBuilderProps) {
+  const [newType, setNewType] = useState<CrossFieldType>("required_if");
+  const constraints = useMemo(() => config.cross_field_constraints ?? [], [config.cross_field_constraints]);
+
+  // How each constraint fares on the preview rows, so a mistyped condition shows up before the audit runs.
+  const sampleChecks = useMemo(
+    () =>
+      constraints.map((constraint) => {
+        const absent = columns.length
+          ? crossFieldColumns(constraint).filter((column) => column && !columns.includes(column))
+          : [];
+        if (absent.length || !sampleRows.length) return { absent, failing: 0 };
+        const violates = crossFieldViolation(constraint, config.schema);
+        return { absent, failing: sampleRows.filter(violates).length };
+      }),
+    [constraints, columns, sampleRows, config.schema],
+  );
+
+  const setConstraints = (update: (prev: CrossFieldConstraint[]) => CrossFieldConstraint[]) => {
+    setConfig((prev) => ({ ...prev, cross_field_constraints: update(prev.cross_field_constraints ?? []) }));
+  };
+
+  const updateConstraint = (index: number, patch: Partial<CrossFieldConstraint>) => {
+    setConstraints((prev) =>
+      prev.map((item, idx) => (idx === index ? ({ ...item, ...patch } as CrossFieldConstraint) : item)),
+    );
+  };
+
+  const changeType = (index: number, type: CrossFieldType) => {
+    setConstraints((prev) =>
+      prev.map((item, idx) => {
+        if (idx !== index) return item;
+        // Reuse the columns already picked, in order, to prefill the new type.
+        const picked = crossFieldColumns(item).filter(Boolean);
+        const prefill = [...picked, ...columns.filter((column) => !picked.includes(column))];
+        const next = newCrossFieldConstraint(type, prefill, item.name);
+        return { ...next, severity: item.severity, description: item.description };
+      }),
+    );
+  };
+
+  const addConstraint = () => {
+    setConstraints((prev) => [...prev, newCrossFieldConstraint(newType, columns, `Constraint ${prev.length + 1}`)]);
+  };
+
+  const removeConstraint = (index: number) => {
+    setConstraints((prev) => prev.filter((_, idx) => idx !== index));
+  };
+
+  const renderFields = (constraint: CrossFieldConstraint, index: number) => {
+    switch (constraint.type) {
+      case "required_if":
+        return (
+          <>
+            <div className="flex items-center gap-2">
+              <ColumnSelect
+                value={constraint.column}
+                columns={columns}
+                placeholder="Required column"
+                onChange={(column) => updateConstraint(index, { column })}
+              />
+              <span className="text-[#9BA0A8]">required when</span>
+              <ColumnSelect
+                value={constraint.when_column}
+                columns={columns}
+                placeholder="Condition column"
+                onChange={(when_column) => updateConstraint(index, { when_column })}
+              />
+            </div>
+            <input
+              key={constraint.when_values.join(",")}
+              defaultValue={constraint.when_values.join(", ")}
+              placeholder="Is one of (comma-separated; empty means any value)"
+              onBlur={(event) => updateConstraint(index, { when_values: splitList(event.target.value) })}
+              className={`${inputClass} w-full`}
+            />
+          </>
+        );
+      case "compare":
+        return (
+          <div className="flex items-center gap-2">
+            <ColumnSelect
+              value={constraint.left}
+              columns={columns}
+              placeholder="Column"
+              onChange={(left) => updateConstraint(index, { left })}
+            />
+            <select
+              value={constraint.operator}
+              onChange={(event) => updateConstraint(index, { operator: event.target.value as ComparisonOperator })}
+              className={`${selectClass} font-mono`}
+            >
+              {comparisonOperators.map((operator) => (
+                <option key={operator} value={operator}>
+                  {operator}
+                </option>
+              ))}
+            </select>
+            <ColumnSelect
+              value={constraint.right}
+              columns={columns}
+              placeholder="Column"
+              onChange={(right) => updateConstraint(index, { right })}
+            />
+          </div>
+        );
+      case "sum_equals":
+        return (
+          <>
+            <ColumnList
+              values={constraint.columns}
+              columns={columns}
+              onChange={(picked) => updateConstraint(index, { columns: picked })}
+            />
+            <div className="flex items-center gap-2">
+              <span className="text-[#9BA0A8]">add up to</span>
+              <ColumnSelect
+                value={constraint.total}
+                columns={columns}
+                placeholder="Total column"
+                onChange={(total) => updateConstraint(index, { total })}
+              />
+              <input
+                type="number"
+                min={0}
+                step="any"
+                placeholder="± tolerance"
+                value={constraint.tolerance ?? ""}
+                onChange={(event) =>
+                  updateConstraint(index, {
+                    tolerance: event.target.value === "" ? undefined : Number(event.target.value),
+                  })
+                }
+                className={`${inputClass} w-28`}
+              />
+            </div>
+          </>
+        );
+      case "mutually_exclusive":
+        return (
+          <>
+            <p className="text-[#9BA0A8]">At most one of these may be filled in:</p>
+            <ColumnList
+              values={constraint.columns}
+              columns={columns}
+              onChange={(picked) => updateConstraint(index, { columns: picked })}
+            />
+          </>
+        );
+    }
+  };
+
+  return (
+    <div className="mt-6 rounded-2xl border border-white/10 bg-[#0D0F12] p-4 text-sm shadow-inner shadow-black/40">
+      <div className="mb-3 flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h3 className="font-semibold text-white">Cross-field constraints</h3>
+          <p className="text-xs text-[#9BA0A8]">
+            Relationships between columns: conditional requirements, comparisons, totals and exclusive fields.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={newType}
+            onChange={(event) => setNewType(event.target.value as CrossFieldType)}
+            className={`${selectClass} text-xs`}
+          >
+            {Object.entries(crossFieldTypeLabels).map(([type, label]) => (
+              <option key={type} value={type}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={addConstraint}
+            className="rounded-full border border-white/20 px-3 py-1 text-xs text-[#00FFAA] transition hover:bg-white/5"
+          >
+            Add constraint
+          </button>
+        </div>
+      </div>
+      <div className="grid gap-3 md:grid-cols-2">
+        {constraints.map((constraint, index) => {
+          const check = sampleChecks[index];
+          return (
+            <div key={index} className="space-y-2 rounded-2xl border border-white/10 bg-[#11141c]/60 p-4">
+              <div className="flex gap-2">
+                <input
+                  value={constraint.name}
+                  onChange={(event) => updateConstraint(index, { name: event.target.value })}
+                  className={`${inputClass} min-w-0 flex-1`}
+                />
+                <select
+                  value={constraint.type}
+                  onChange={(event) => changeType(index, event.target.value as CrossFieldType)}
+                  className={selectClass}
+                >
+                  {Object.entries(crossFieldTypeLabels).map(([type, label]) => (
+                    <option key={type} value={type}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {renderFields(constraint, index)}
+              <p className="font-mono text-xs text-[#9BA0A8]">{describeCrossField(constraint)}</p>
+              {check && check.absent.length > 0 && (
+                <p className="text-xs text-amber-200">Not in the file: {check.absent.join(", ")}</p>
+              )}
+              {check && !check.absent.length && sampleRows.length > 0 && (
+                <p className={`text-xs ${check.failing ? "text-amber-200" : "text-emerald-300"}`}>
+                  {check.failing
+                    ? `${check.failing} of ${sampleRows.length} preview rows violate this`
+                    : `All ${sampleRows.length} preview rows pass`}
+                </p>
+              )}
+              <div className="flex items-center justify-between gap-2">
+                <select
+                  value={constraint.severity}
+                  onChange={(event) => updateConstraint(index, { severity: event.target.value as Severity })}
+                  className={selectClass}
+                >
+                  {severityOptions.map((option) => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  placeholder="Optional description"
+                  value={constraint.description ?? ""}
+                  onChange={(event) => updateConstraint(index, { description: event.target.value || undefined })}
+                  className={`${inputClass} min-w-0 flex-1`}
+                />
+                <button onClick={() => removeConstraint(index)} className="text-rose-300 transition hover:text-rose-200">
+                  Remove
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {!constraints.length && <p className="text-sm text-[#4f5661]">No cross-field constraints configured.</p>}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { PickedFile, RecentFile, forgetRecentFile, listRecentFiles, openRecentFile, pickDataFile } from "@/lib/nativeFiles";
+import { Dispatch, SetStateAction, useEffect, useState } from "react";
+
+interface DesktopFilePickerProps {
+  /** Path of the file currently selected for auditing. */
+  currentPath: string | null;
+  disabled: boolean;
+  onSelect: (picked: PickedFile) => void;
+  /** Selects the file and audits it straight away with the current config. */
+  onRerun: (picked: PickedFile) => void;
+  setMessage: Dispatch<SetStateAction<string>>;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(Math.round(bytes / 1024), 1)} KB`;
+
+export default function DesktopFilePicker({ currentPath, disabled, onSelect, onRerun, setMessage }: DesktopFilePickerProps) {
+  const [recent, setRecent] = useState<RecentFile[]>([]);
+  const [version, setVersion] = useState(0);
+  const [opening, setOpening] = useState<string | null>(null);
+
+  useEffect(() => {
+    listRecentFiles()
+      .then(setRecent)
+      .catch((error) => console.error("Failed to list recent files", error));
+  }, [version]);
+
+  const refresh = () => setVersion((value) => value + 1);
+
+  const choose = async () => {
+    try {
+      const picked = await pickDataFile();
+      if (picked) onSelect(picked);
+    } catch (error) {
+      setMessage(`Unable to open file: ${(error as Error).message}`);
+    } finally {
+      refresh();
+    }
+  };
+
+  const openEntry = async (entry: RecentFile, rerun: boolean) => {
+    setOpening(entry.path);
+    try {
+      const picked = { file: await openRecentFile(entry), path: entry.path };
+      if (rerun) onRerun(picked);
+      else onSelect(picked);
+    } catch (error) {
+      setMessage(`Unable to open ${entry.name}: ${(error as Error).message}`);
+    } finally {
+      setOpening(null);
+      refresh();
+    }
+  };
+
+  const forget = async (entry: RecentFile) => {
+    try {
+      await forgetRecentFile(entry.path);
+    } catch (error) {
+      setMessage(`Unable to update recent files: ${(error as Error).message}`);
+    } finally {
+      refresh();
+    }
+  };
+
+  return (
+    <div className="w-full space-y-3">
+      <div className="flex items-center gap-3 rounded-2xl border border-white/10 bg-[#0D0F12] px-4 py-3 text-sm">
+        <button
+          onClick={choose}
+          disabled={disabled}
+          className="rounded-full border border-white/20 px-3 py-1 text-xs text-[#00FFAA] transition hover:bg-white/5 disabled:opacity-40"
+        >
+          Choose file...
+        </button>
+        <span className={`truncate ${currentPath ? "text-white" : "text-[#4f5661]"}`} title={currentPath ?? undefined}>
+          {currentPath ?? "No file selected"}
+        </span>
+      </div>
+
+      {recent.length > 0 && (
+        <div>
+          <p className="mb-1 text-xs uppercase tracking-[0.2em] text-[#9BA0A8]">Recent files</p>
+          <ul className="space-y-1 text-xs">
+            {recent.map((entry) => (
+              <li
+                key={entry.path}
+                className={`flex flex-wrap items-center gap-x-3 gap-y-1 rounded-lg px-2 py-1 ${entry.path === currentPath ? "bg-white/5" : ""}`}
+              >
+                <span className={entry.exists === false ? "text-[#4f5661] line-through" : "text-white"} title={entry.path}>
+                  {entry.name}
+                </span>
+                <span className="text-[#4f5661]">
+                  {formatSize(entry.size)} · {new Date(entry.opened_at).toLocaleString()}
+                </span>
+                <span className="ml-auto space-x-2">
+                  {entry.exists !== false && (
+                    <>
+                      <button
+                        onClick={() => openEntry(entry, false)}
+                        disabled={disabled || opening !== null}
+                        className="text-blue-300 hover:text-blue-200 disabled:opacity-40"
+                      >
+                        Select
+                      </button>
+                      <button
+                        onClick={() => openEntry(entry, true)}
+                        disabled={disabled || opening !== null}
+                        className="text-emerald-300 hover:text-emerald-200 disabled:opacity-40"
+                      >
+                        Re-run audit
+                      </button>
+                    </>
+                  )}
+                  <button onClick={() => forget(entry)} className="text-[#9BA0A8] hover:text-white">
+                    Forget
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
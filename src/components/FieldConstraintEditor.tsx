@@ -0,0 +1,113 @@
+import { SchemaField } from "@/types/audit";
+import { compileFieldPattern, isNullValue } from "@/lib/values";
+import { useMemo } from "react";
+
+interface FieldConstraintEditorProps {
+  field: SchemaField;
+  sampleValues: string[];
+  onChange: (patch: Partial<SchemaField>) => void;
+}
+
+const inputClass = "w-full rounded-xl border border-white/10 bg-transparent px-3 py-2";
+
+const toNumberBound = (value: string) => (value.trim() === "" ? undefined : Number(value));
+const toDateBound = (value: string) => (value === "" ? undefined : value);
+// Inferred bounds carry a time of day when the data does; a plain date input would show them as empty.
+const dateInputType = (bound: SchemaField["min"]) =>
+  typeof bound === "string" && bound.includes("T") ? "datetime-local" : "date";
+
+export default function FieldConstraintEditor({ field, sampleValues, onChange }: FieldConstraintEditorProps) {
+  const isNumeric = field.dtype === "integer" || field.dtype === "float";
+  const isDate = field.dtype === "datetime";
+  const supportsPattern = field.dtype === "string" || field.dtype === "category";
+
+  const patternCheck = useMemo(() => {
+    if (!field.regex) return null;
+    let pattern: RegExp;
+    try {
+      pattern = compileFieldPattern(field.regex);
+    } catch (error) {
+      return { error: (error as Error).message, tested: 0, failures: [] as string[] };
+    }
+    const present = sampleValues.filter((value) => !isNullValue(value));
+    const failures = present.filter((value) => !pattern.test(value));
+    return { error: null, tested: present.length, failures };
+  }, [field.regex, sampleValues]);
+
+  return (
+    <div className="mt-2 space-y-2 text-xs">
+      {isNumeric && (
+        <div className="flex gap-2">
+          <input
+            type="number"
+            step={field.dtype === "integer" ? 1 : "any"}
+            placeholder="Min"
+            value={typeof field.min === "number" ? field.min : ""}
+            onChange={(event) => onChange({ min: toNumberBound(event.target.value) })}
+            className={inputClass}
+          />
+          <input
+            type="number"
+            step={field.dtype === "integer" ? 1 : "any"}
+            placeholder="Max"
+            value={typeof field.max === "number" ? field.max : ""}
+            onChange={(event) => onChange({ max: toNumberBound(event.target.value) })}
+            className={inputClass}
+          />
+        </div>
+      )}
+      {isDate && (
+        <div className="flex items-center gap-2">
+          <span className="text-[#9BA0A8]">From</span>
+          <input
+            type={dateInputType(field.min)}
+            step={1}
+            value={typeof field.min === "string" ? field.min : ""}
+            onChange={(event) => onChange({ min: toDateBound(event.target.value) })}
+            className={inputClass}
+          />
+          <span className="text-[#9BA0A8]">to</span>
+          <input
+            type={dateInputType(field.max)}
+            step={1}
+            value={typeof field.max === "string" ? field.max : ""}
+            onChange={(event) => onChange({ max: toDateBound(event.target.value) })}
+            className={inputClass}
+          />
+        </div>
+      )}
+      {supportsPattern && (
+        <div>
+          <input
+            placeholder="Regex pattern (full match)"
+            value={field.regex ?? ""}
+            onChange={(event) => onChange({ regex: event.target.value || undefined })}
+            className={`${inputClass} font-mono ${patternCheck?.error ? "border-rose-400/60" : ""}`}
+          />
+          {patternCheck?.error && <p className="mt-1 text-rose-300">{patternCheck.error}</p>}
+          {patternCheck && !patternCheck.error && !patternCheck.tested && (
+            <p className="mt-1 text-[#9BA0A8]">
+              No sample values to test against. Samples are read in the browser from CSV and TSV files only.
+            </p>
+          )}
+          {patternCheck && !patternCheck.error && patternCheck.tested > 0 && (
+            <p className={`mt-1 ${patternCheck.failures.length ? "text-amber-200" : "text-emerald-300"}`}>
+              {patternCheck.tested - patternCheck.failures.length} of {patternCheck.tested} sample values match
+              {patternCheck.failures.length > 0 &&
+                ` · e.g. ${patternCheck.failures
+                  .slice(0, 3)
+                  .map((value) => JSON.stringify(value))
+                  .join(", ")}`}
+            </p>
+          )}
+        </div>
+      )}
+      <input
+        placeholder="Description"
+        value={field.description ?? ""}
+        onChange={(event) => onChange({ description: event.target.value || undefined })}
+        className={inputClass}
+      />
+    </div>
+  );
+}
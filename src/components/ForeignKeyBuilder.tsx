@@ -0,0 +1,241 @@
+import { AuditConfig, ForeignKey, ReferenceSource, Severity } from "@/types/audit";
+import { ChangeEvent, Dispatch, SetStateAction, useEffect, useState, useSyncExternalStore } from "react";
+import ColumnSelect from "@/components/ColumnSelect";
+import { isDelimitedFile, readDelimitedColumns, readDelimitedFile } from "@/lib/csv";
+import {
+  attachReferenceFile,
+  detachReferenceFile,
+  getReferenceData,
+  getServerReferenceData,
+  saveValueDomain,
+  subscribeReferenceData,
+} from "@/lib/referenceData";
+
+const severityOptions = ["info", "warning", "error"] as const;
+const inputClass = "rounded-xl border border-white/10 bg-transparent px-3 py-2";
+const selectClass = "rounded-xl border border-white/10 bg-[#11141c] px-3 py-2";
+
+interface ForeignKeyBuilderProps {
+  config: AuditConfig;
+  setConfig: Dispatch<SetStateAction<AuditConfig>>;
+  /** Columns of the audited file and the schema. */
+  columns: string[];
+}
+
+export default function ForeignKeyBuilder({ config, setConfig, columns }: ForeignKeyBuilderProps) {
+  const references = useSyncExternalStore(subscribeReferenceData, getReferenceData, getServerReferenceData);
+  const [fileColumns, setFileColumns] = useState<Record<string, string[]>>({});
+  const [error, setError] = useState("");
+  const foreignKeys = config.foreign_keys ?? [];
+
+  useEffect(() => {
+    Promise.all(references.files.map(async (file) => [file.name, await readDelimitedColumns(file)] as const))
+      .then((entries) => setFileColumns(Object.fromEntries(entries)))
+      .catch((readError) => setError(`Unable to read reference columns: ${(readError as Error).message}`));
+  }, [references.files]);
+
+  const setForeignKeys = (update: (prev: ForeignKey[]) => ForeignKey[]) => {
+    setConfig((prev) => ({ ...prev, foreign_keys: update(prev.foreign_keys ?? []) }));
+  };
+
+  const updateForeignKey = (index: number, patch: Partial<ForeignKey>) => {
+    setForeignKeys((prev) => prev.map((item, idx) => (idx === index ? { ...item, ...patch } : item)));
+  };
+
+  const defaultReference = (): ReferenceSource => {
+    if (references.files.length) return { type: "file", file_name: references.files[0].name, column: "" };
+    if (references.domains.length) return { type: "lookup", lookup: references.domains[0].name };
+    return { type: "file", file_name: "", column: "" };
+  };
+
+  const addForeignKey = () => {
+    setForeignKeys((prev) => [
+      ...prev,
+      {
+        name: `Foreign key ${prev.length + 1}`,
+        column: columns.find((column) => /_id$/i.test(column)) ?? columns[0] ?? "",
+        reference: defaultReference(),
+        severity: "error",
+      },
+    ]);
+  };
+
+  const removeForeignKey = (index: number) => {
+    setForeignKeys((prev) => prev.filter((_, idx) => idx !== index));
+  };
+
+  const changeSourceType = (index: number, type: ReferenceSource["type"]) => {
+    const reference: ReferenceSource =
+      type === "file"
+        ? { type, file_name: references.files[0]?.name ?? "", column: "" }
+        : { type, lookup: references.domains[0]?.name ?? "" };
+    updateForeignKey(index, { reference });
+  };
+
+  const attach = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    if (!isDelimitedFile(file.name)) {
+      setError(`${file.name}: reference files must be CSV, TSV or TXT.`);
+      return;
+    }
+    setError("");
+    attachReferenceFile(file);
+  };
+
+  /** Stores the reference column as a value domain, so the key keeps working without re-attaching the file. */
+  const saveAsDomain = async (index: number, source: Extract<ReferenceSource, { type: "file" }>) => {
+    const file = references.files.find((item) => item.name === source.file_name);
+    if (!file || !source.column) return;
+    try {
+      const table = await readDelimitedFile(file);
+      const domain = saveValueDomain(`${file.name.replace(/\.[^.]+$/, "")}.${source.column}`, {
+        values: table.rows.map((row) => row[source.column]),
+      });
+      updateForeignKey(index, { reference: { type: "lookup", lookup: domain.name } });
+      setError("");
+    } catch (saveError) {
+      setError(`Unable to save value domain: ${(saveError as Error).message}`);
+    }
+  };
+
+  const fileNames = references.files.map((file) => file.name);
+  const domainNames = references.domains.map((item) => item.name);
+
+  return (
+    <div className="mt-6 rounded-2xl border border-white/10 bg-[#0D0F12] p-4 text-sm shadow-inner shadow-black/40">
+      <div className="mb-3 flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h3 className="font-semibold text-white">Referential integrity</h3>
+          <p className="text-xs text-[#9BA0A8]">
+            Foreign keys whose values must exist in a reference file or a value domain.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <label className="cursor-pointer rounded-full border border-white/20 px-3 py-1 text-xs text-[#00FFAA] transition hover:bg-white/5">
+            Attach reference file
+            <input type="file" accept=".csv,.tsv,.txt" className="hidden" onChange={attach} />
+          </label>
+          <button
+            onClick={addForeignKey}
+            className="rounded-full border border-white/20 px-3 py-1 text-xs text-[#00FFAA] transition hover:bg-white/5"
+          >
+            Add foreign key
+          </button>
+        </div>
+      </div>
+      {error && <p className="mb-3 text-xs text-rose-300">{error}</p>}
+
+      {references.files.length > 0 && (
+        <div className="mb-3 flex flex-wrap gap-2 text-xs">
+          {references.files.map((file) => (
+            <span key={file.name} className="flex items-center gap-2 rounded-full bg-white/5 px-3 py-1 text-white">
+              {file.name}
+              <span className="text-[#4f5661]">{fileColumns[file.name]?.length ?? "…"} columns</span>
+              <button
+                onClick={() => detachReferenceFile(file.name)}
+                className="text-[#9BA0A8] hover:text-rose-200"
+                title={`Detach ${file.name}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="grid gap-3 md:grid-cols-2">
+        {foreignKeys.map((key, index) => {
+          const source = key.reference;
+          let unavailable = "";
+          if (source.type === "file" && source.file_name && !fileNames.includes(source.file_name)) {
+            unavailable = `Attach ${source.file_name} before auditing.`;
+          } else if (source.type === "lookup" && source.lookup && !domainNames.includes(source.lookup)) {
+            unavailable = `Value domain ${source.lookup} is not stored here.`;
+          }
+          return (
+            <div key={index} className="space-y-2 rounded-2xl border border-white/10 bg-[#11141c]/60 p-4">
+              <input
+                value={key.name}
+                onChange={(event) => updateForeignKey(index, { name: event.target.value })}
+                className={`${inputClass} w-full`}
+              />
+              <div className="flex items-center gap-2">
+                <ColumnSelect
+                  value={key.column}
+                  columns={columns}
+                  placeholder="Key column"
+                  onChange={(column) => updateForeignKey(index, { column })}
+                />
+                <span className="text-[#9BA0A8]">must exist in</span>
+                <select
+                  value={source.type}
+                  onChange={(event) => changeSourceType(index, event.target.value as ReferenceSource["type"])}
+                  className={selectClass}
+                >
+                  <option value="file">Reference file</option>
+                  <option value="lookup">Value domain</option>
+                </select>
+              </div>
+              {source.type === "file" ? (
+                <div className="flex items-center gap-2">
+                  <ColumnSelect
+                    value={source.file_name}
+                    columns={fileNames}
+                    placeholder="Reference file"
+                    onChange={(file_name) =>
+                      updateForeignKey(index, { reference: { ...source, file_name, column: "" } })
+                    }
+                  />
+                  <ColumnSelect
+                    value={source.column}
+                    columns={fileColumns[source.file_name] ?? []}
+                    placeholder="Reference column"
+                    onChange={(column) => updateForeignKey(index, { reference: { ...source, column } })}
+                  />
+                  <button
+                    onClick={() => saveAsDomain(index, source)}
+                    disabled={!fileNames.includes(source.file_name) || !source.column}
+                    className="whitespace-nowrap text-xs text-[#00FFAA] hover:underline disabled:opacity-40"
+                    title="Store the reference column's keys so this config works without the file"
+                  >
+                    Save as domain
+                  </button>
+                </div>
+              ) : (
+                <ColumnSelect
+                  value={source.lookup}
+                  columns={domainNames}
+                  placeholder="Value domain"
+                  onChange={(lookup) => updateForeignKey(index, { reference: { ...source, lookup } })}
+                />
+              )}
+              {unavailable && <p className="text-xs text-amber-200">{unavailable}</p>}
+              <div className="flex items-center justify-between">
+                <select
+                  value={key.severity}
+                  onChange={(event) => updateForeignKey(index, { severity: event.target.value as Severity })}
+                  className={selectClass}
+                >
+                  {severityOptions.map((option) => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => removeForeignKey(index)}
+                  className="text-rose-300 transition hover:text-rose-200"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {!foreignKeys.length && <p className="text-sm text-[#4f5661]">No foreign keys configured.</p>}
+    </div>
+  );
+}
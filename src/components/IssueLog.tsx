@@ -0,0 +1,291 @@
+import { Issue, Severity } from "@/types/audit";
+import { issueCategoryLabels, issueTarget, issueValue } from "@/lib/issues";
+import { exportIssuesCsv, exportIssuesXlsx } from "@/lib/issueExport";
+import { UIEvent, useMemo, useRef, useState } from "react";
+
+interface IssueLogProps {
+  issues: Issue[];
+  /** Base name for exported files, usually the dataset. */
+  exportName: string;
+}
+
+interface IssueLogEntry {
+  issue: Issue;
+  rowId: string;
+  value: string;
+  errorType: string;
+  ruleOrColumn: string;
+  severity: Severity;
+}
+
+type SortKey = "rowId" | "value" | "errorType" | "ruleOrColumn" | "severity";
+
+const ROW_HEIGHT = 37;
+const VIEWPORT_HEIGHT = 420;
+const OVERSCAN = 8;
+
+const severityRank: Record<Severity, number> = { error: 0, warning: 1, info: 2 };
+
+const severityTone: Record<Severity, string> = {
+  error: "bg-rose-500/20 text-rose-200",
+  warning: "bg-amber-500/20 text-amber-200",
+  info: "bg-blue-500/20 text-blue-200",
+};
+
+const headers: Array<{ key: SortKey; label: string }> = [
+  { key: "rowId", label: "Row" },
+  { key: "value", label: "Value" },
+  { key: "errorType", label: "Error Type" },
+  { key: "ruleOrColumn", label: "Rule / Column" },
+  { key: "severity", label: "Severity" },
+];
+
+function compareRows(a: string, b: string) {
+  const rowA = parseInt(a);
+  const rowB = parseInt(b);
+  if (!isNaN(rowA) && !isNaN(rowB)) return rowA - rowB;
+  return a.localeCompare(b);
+}
+
+function compareBy(key: SortKey, a: IssueLogEntry, b: IssueLogEntry) {
+  if (key === "rowId") return compareRows(a.rowId, b.rowId);
+  if (key === "severity") return severityRank[a.severity] - severityRank[b.severity];
+  return a[key].localeCompare(b[key]);
+}
+
+const distinct = (values: string[]) => Array.from(new Set(values)).sort((a, b) => a.localeCompare(b));
+
+export default function IssueLog({ issues, exportName }: IssueLogProps) {
+  const [severity, setSeverity] = useState<"all" | Severity>("all");
+  const [errorType, setErrorType] = useState("all");
+  const [ruleOrColumn, setRuleOrColumn] = useState("all");
+  const [search, setSearch] = useState("");
+  const [sort, setSort] = useState<{ key: SortKey; direction: 1 | -1 }>({ key: "rowId", direction: 1 });
+  const [scrollTop, setScrollTop] = useState(0);
+  const [selected, setSelected] = useState<Issue | null>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+
+  const entries = useMemo(
+    () =>
+      issues.map((issue) => ({
+        issue,
+        rowId: issue.row_id === null ? "n/a" : String(issue.row_id),
+        value: issueValue(issue),
+        errorType: issueCategoryLabels[issue.category],
+        ruleOrColumn: issueTarget(issue),
+        severity: issue.severity,
+      })),
+    [issues],
+  );
+  const errorTypes = useMemo(() => distinct(entries.map((entry) => entry.errorType)), [entries]);
+  const targets = useMemo(() => distinct(entries.map((entry) => entry.ruleOrColumn)), [entries]);
+
+  const visibleIssues = useMemo(() => {
+    const needle = search.trim().toLowerCase();
+    return entries
+      .filter((issue) => severity === "all" || issue.severity === severity)
+      .filter((issue) => errorType === "all" || issue.errorType === errorType)
+      .filter((issue) => ruleOrColumn === "all" || issue.ruleOrColumn === ruleOrColumn)
+      .filter(
+        (issue) =>
+          !needle ||
+          [issue.rowId, issue.value, issue.errorType, issue.ruleOrColumn, ...Object.values(issue.issue.record ?? {})].some((text) =>
+            text?.toLowerCase().includes(needle),
+          ),
+      )
+      .sort((a, b) => compareBy(sort.key, a, b) * sort.direction || compareRows(a.rowId, b.rowId));
+  }, [entries, severity, errorType, ruleOrColumn, search, sort]);
+
+  // Only the rows inside the scroll viewport are mounted; spacer rows keep the scrollbar honest.
+  const first = Math.max(Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN, 0);
+  const last = Math.min(Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN, visibleIssues.length);
+  const windowed = visibleIssues.slice(first, last);
+
+  const toggleSort = (key: SortKey) =>
+    setSort((current) => ({ key, direction: current.key === key ? (current.direction === 1 ? -1 : 1) : 1 }));
+
+  const onScroll = (event: UIEvent<HTMLDivElement>) => setScrollTop(event.currentTarget.scrollTop);
+
+  // Jump back to the top whenever the filters change, otherwise the window may point past the new end.
+  const resetScroll = () => {
+    if (viewportRef.current) viewportRef.current.scrollTop = 0;
+    setScrollTop(0);
+  };
+
+  // Exports follow the current filters and sort, so analysts get exactly what they are looking at.
+  const exportedIssues = () => visibleIssues.map((entry) => entry.issue);
+
+  const selectClass = "rounded-xl border border-white/10 bg-[#0D0F12] px-3 py-2 text-xs text-white";
+  const exportClass =
+    "rounded-full border border-white/20 px-3 py-2 text-xs text-[#00FFAA] transition hover:bg-white/5 disabled:opacity-40";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={search}
+          onChange={(event) => {
+            setSearch(event.target.value);
+            resetScroll();
+          }}
+          placeholder="Search rows, values, rules..."
+          className="min-w-[220px] flex-1 rounded-xl border border-white/10 bg-transparent px-3 py-2 text-xs"
+        />
+        <select
+          value={severity}
+          onChange={(event) => {
+            setSeverity(event.target.value as typeof severity);
+            resetScroll();
+          }}
+          className={selectClass}
+        >
+          <option value="all">All severities</option>
+          <option value="error">Error</option>
+          <option value="warning">Warning</option>
+          <option value="info">Info</option>
+        </select>
+        <select
+          value={errorType}
+          onChange={(event) => {
+            setErrorType(event.target.value);
+            resetScroll();
+          }}
+          className={selectClass}
+        >
+          <option value="all">All error types</option>
+          {errorTypes.map((type) => (
+            <option key={type} value={type}>
+              {type}
+            </option>
+          ))}
+        </select>
+        <select
+          value={ruleOrColumn}
+          onChange={(event) => {
+            setRuleOrColumn(event.target.value);
+            resetScroll();
+          }}
+          className={selectClass}
+        >
+          <option value="all">All rules / columns</option>
+          {targets.map((target) => (
+            <option key={target} value={target}>
+              {target}
+            </option>
+          ))}
+        </select>
+        <span className="text-xs text-[#9BA0A8]">
+          {visibleIssues.length.toLocaleString()} of {issues.length.toLocaleString()}
+        </span>
+        <div className="ml-auto flex gap-2">
+          <button
+            onClick={() => exportIssuesCsv(exportedIssues(), exportName)}
+            disabled={!visibleIssues.length}
+            title="One CSV per rule or error type; several are zipped together"
+            className={exportClass}
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => exportIssuesXlsx(exportedIssues(), exportName)}
+            disabled={!visibleIssues.length}
+            title="One sheet per rule or error type, plus all issues"
+            className={exportClass}
+          >
+            Export XLSX
+          </button>
+        </div>
+      </div>
+
+      <div className={`grid gap-4 ${selected ? "lg:grid-cols-[minmax(0,1fr)_320px]" : ""}`}>
+        <div
+          ref={viewportRef}
+          onScroll={onScroll}
+          style={{ maxHeight: VIEWPORT_HEIGHT }}
+          className="overflow-auto rounded-2xl border border-white/10 bg-black/20"
+        >
+          <table className="min-w-full text-left text-sm">
+            <thead className="sticky top-0 z-10 bg-[#151923] text-xs uppercase text-[#9BA0A8]">
+              <tr>
+                {headers.map((header) => (
+                  <th key={header.key} className="px-3 py-2">
+                    <button onClick={() => toggleSort(header.key)} className="flex items-center gap-1 uppercase hover:text-white">
+                      {header.label}
+                      {sort.key === header.key && <span className="text-[#00FFAA]">{sort.direction === 1 ? "▲" : "▼"}</span>}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {first > 0 && (
+                <tr style={{ height: first * ROW_HEIGHT }}>
+                  <td colSpan={headers.length} />
+                </tr>
+              )}
+              {windowed.map((item, idx) => (
+                <tr
+                  key={`${item.errorType}-${item.ruleOrColumn}-${item.rowId}-${first + idx}`}
+                  onClick={() => setSelected(item.issue)}
+                  style={{ height: ROW_HEIGHT }}
+                  className={`cursor-pointer border-b border-white/5 hover:bg-white/5 ${selected === item.issue ? "bg-white/10" : ""}`}
+                >
+                  <td className="px-3 py-2 font-mono text-xs text-[#9BA0A8]">{item.rowId}</td>
+                  <td className="px-3 py-2">
+                    <div className="max-w-xs truncate text-xs text-white/80" title={item.value}>
+                      {item.value}
+                    </div>
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-2">{item.errorType}</td>
+                  <td className="px-3 py-2">{item.ruleOrColumn}</td>
+                  <td className="px-3 py-2">
+                    <span className={`rounded px-2 py-1 text-xs capitalize ${severityTone[item.severity]}`}>{item.severity}</span>
+                  </td>
+                </tr>
+              ))}
+              {last < visibleIssues.length && (
+                <tr style={{ height: (visibleIssues.length - last) * ROW_HEIGHT }}>
+                  <td colSpan={headers.length} />
+                </tr>
+              )}
+            </tbody>
+          </table>
+          {!visibleIssues.length && <p className="px-3 py-4 text-sm text-[#4f5661]">No issues match the current filters.</p>}
+        </div>
+
+        {selected && (
+          <aside className="rounded-2xl border border-white/10 bg-black/30 p-4 text-sm">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <p className="text-xs uppercase text-[#9BA0A8]">Row {selected.row_id ?? "n/a"}</p>
+                <p className="font-semibold text-white">{issueCategoryLabels[selected.category]}</p>
+                <p className="text-xs text-[#9BA0A8]">{issueTarget(selected)}</p>
+              </div>
+              <button onClick={() => setSelected(null)} className="text-xs text-[#9BA0A8] hover:text-white">
+                Close
+              </button>
+            </div>
+            <table className="mt-3 w-full text-left text-xs">
+              <tbody>
+                {Object.entries(selected.record ?? {}).map(([column, value]) => {
+                  const failing = selected.columns.includes(column);
+                  return (
+                    <tr key={column} className={`border-b border-white/5 ${failing ? "bg-rose-500/10" : ""}`}>
+                      <th className={`py-1 pr-3 align-top font-mono font-normal ${failing ? "text-rose-200" : "text-[#9BA0A8]"}`}>
+                        {column}
+                      </th>
+                      <td className={`break-all py-1 ${failing ? "text-white" : "text-white/70"}`}>
+                        {value === "" ? <span className="text-[#4f5661]">empty</span> : value}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {!selected.record && <p className="mt-3 text-xs text-[#4f5661]">The audit engine did not sample this row.</p>}
+          </aside>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,371 @@
+import { AuditReport, StoredReportMetadata } from "@/types/audit";
+import { isAbortError } from "@/lib/api";
+import { downloadBlob } from "@/lib/download";
+import { computeQualityScore, formatScore, scoreTone } from "@/lib/qualityScore";
+import { fetchReports } from "@/lib/reportCache";
+import {
+  HISTORY_PAGE_SIZE,
+  HistoryFilters,
+  HistorySortKey,
+  emptyHistoryFilters,
+  filterReports,
+  pageCount,
+  sortReports,
+} from "@/lib/reportHistory";
+import { Dispatch, SetStateAction, useEffect, useMemo, useRef, useState } from "react";
+
+interface ReportHistoryProps {
+  reports: StoredReportMetadata[];
+  setMessage: Dispatch<SetStateAction<string>>;
+  loadReport: (id: string) => void;
+  downloadReport: (id: string) => void;
+  deleteReports: (ids: string[]) => Promise<void>;
+  compareReports: (a: string, b: string) => void;
+}
+
+const columns: Array<{ key: HistorySortKey; label: string }> = [
+  { key: "dataset_name", label: "Dataset" },
+  { key: "created_at", label: "Created" },
+  { key: "issues_found", label: "Issues" },
+  { key: "quality_score", label: "Score" },
+];
+
+const inputClass = "rounded-xl border border-white/10 bg-transparent px-3 py-2 text-xs";
+
+export default function ReportHistory({
+  reports,
+  setMessage,
+  loadReport,
+  downloadReport,
+  deleteReports,
+  compareReports,
+}: ReportHistoryProps) {
+  const [filters, setFilters] = useState<HistoryFilters>(emptyHistoryFilters);
+  const [sort, setSort] = useState<{ key: HistorySortKey; direction: 1 | -1 }>({ key: "created_at", direction: -1 });
+  const [page, setPage] = useState(0);
+  const [selection, setSelection] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState(false);
+  const [scores, setScores] = useState<Record<string, { overall: number | null; threshold: number }>>({});
+  const [failedScores, setFailedScores] = useState<Set<string>>(new Set());
+  const [scoreAttempt, setScoreAttempt] = useState(0);
+  const requestedScores = useRef(new Set<string>());
+
+  // A score from the list is shown at once; its pass threshold is in the report's config, so until the report
+  // arrives the score is shown without a pass/fail tone.
+  const scoreOf = (item: StoredReportMetadata) => {
+    const fetched = scores[item.id];
+    if (item.quality_score == null) return fetched ?? null;
+    return { overall: item.quality_score, threshold: fetched?.threshold ?? null };
+  };
+
+  const visible = sortReports(
+    filterReports(reports, filters),
+    sort.key,
+    sort.direction,
+    (item) => scoreOf(item)?.overall ?? null,
+  );
+  const pages = pageCount(visible.length);
+  // Deleting or filtering can leave the page index past the end.
+  const currentPage = Math.min(page, pages - 1);
+  const pageRows = visible.slice(currentPage * HISTORY_PAGE_SIZE, (currentPage + 1) * HISTORY_PAGE_SIZE);
+
+  // Older backends leave the score out of the list, and scoring a report means fetching all of it. Only the rows on
+  // show are fetched, for their score or its threshold, unless the table is sorted by score and needs every score.
+  const idsToScore = [
+    ...new Set([
+      ...(sort.key === "quality_score" ? filterReports(reports, filters) : pageRows)
+        .filter((item) => item.quality_score == null)
+        .map((item) => item.id),
+      ...pageRows.map((item) => item.id),
+    ]),
+  ].join("\n");
+
+  useEffect(() => {
+    const requested = requestedScores.current;
+    const pending = idsToScore.split("\n").filter((id) => id && !requested.has(id));
+    if (!pending.length) return;
+    pending.forEach((id) => requested.add(id));
+    const controller = new AbortController();
+    const scored = new Set<string>();
+    fetchReports(
+      pending,
+      (full) => {
+        const score = computeQualityScore(full);
+        scored.add(full.id);
+        setScores((prev) => ({ ...prev, [full.id]: { overall: score.overall, threshold: score.threshold } }));
+      },
+      { signal: controller.signal },
+    )
+      .then((failed) => {
+        failed.forEach((id) => scored.add(id));
+        if (failed.length) setFailedScores((prev) => new Set([...prev, ...failed]));
+      })
+      .catch((error) => {
+        if (!isAbortError(error)) console.error("Failed to score reports", error);
+      });
+    return () => {
+      controller.abort();
+      // Let the next run retry whatever this one did not finish.
+      pending.forEach((id) => {
+        if (!scored.has(id)) requested.delete(id);
+      });
+    };
+  }, [idsToScore, scoreAttempt]);
+
+  const retryScore = (reportId: string) => {
+    requestedScores.current.delete(reportId);
+    setFailedScores((prev) => new Set([...prev].filter((id) => id !== reportId)));
+    setScoreAttempt((attempt) => attempt + 1);
+  };
+
+  // Selections of reports that have since been deleted are dropped.
+  const selectedIds = useMemo(
+    () => reports.filter((item) => selection.has(item.id)).map((item) => item.id),
+    [reports, selection],
+  );
+  const pageSelected = pageRows.length > 0 && pageRows.every((item) => selection.has(item.id));
+
+  const updateFilters = (next: Partial<HistoryFilters>) => {
+    setFilters((prev) => ({ ...prev, ...next }));
+    setPage(0);
+  };
+
+  const toggleSort = (key: HistorySortKey) => {
+    setSort((current) => ({
+      key,
+      direction: current.key === key ? (current.direction === 1 ? -1 : 1) : key === "dataset_name" ? 1 : -1,
+    }));
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelection((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const togglePage = () => {
+    setSelection((prev) => {
+      const next = new Set(prev);
+      pageRows.forEach((item) => (pageSelected ? next.delete(item.id) : next.add(item.id)));
+      return next;
+    });
+  };
+
+  const bulkDelete = async () => {
+    setBusy(true);
+    try {
+      await deleteReports(selectedIds);
+      setSelection(new Set());
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const bulkDownload = async () => {
+    if (selectedIds.length === 1) {
+      downloadReport(selectedIds[0]);
+      return;
+    }
+    setBusy(true);
+    try {
+      const fetched: AuditReport[] = [];
+      const failed = await fetchReports(selectedIds, (report) => fetched.push(report));
+      if (fetched.length) {
+        downloadBlob(JSON.stringify(fetched, null, 2), `reports-${fetched.length}.json`, "application/json");
+      }
+      if (failed.length) setMessage(`Downloaded ${fetched.length} reports; ${failed.length} could not be fetched.`);
+    } catch (error) {
+      setMessage(`Bulk download failed: ${(error as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const filtered = Object.values(filters).some((value) => value !== "");
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="flex flex-wrap items-end gap-2">
+        <input
+          value={filters.search}
+          onChange={(event) => updateFilters({ search: event.target.value })}
+          placeholder="Search datasets..."
+          className={`${inputClass} min-w-[200px] flex-1`}
+        />
+        <label className="flex flex-col gap-1 text-[10px] uppercase text-[#9BA0A8]">
+          From
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(event) => updateFilters({ from: event.target.value })}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-[10px] uppercase text-[#9BA0A8]">
+          To
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(event) => updateFilters({ to: event.target.value })}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-[10px] uppercase text-[#9BA0A8]">
+          Min issues
+          <input
+            type="number"
+            min={0}
+            value={filters.minIssues}
+            onChange={(event) => updateFilters({ minIssues: event.target.value })}
+            className={`${inputClass} w-24`}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-[10px] uppercase text-[#9BA0A8]">
+          Max issues
+          <input
+            type="number"
+            min={0}
+            value={filters.maxIssues}
+            onChange={(event) => updateFilters({ maxIssues: event.target.value })}
+            className={`${inputClass} w-24`}
+          />
+        </label>
+        {filtered && (
+          <button onClick={() => updateFilters(emptyHistoryFilters)} className="px-2 py-2 text-xs text-[#9BA0A8] hover:text-white">
+            Clear
+          </button>
+        )}
+      </div>
+
+      {selectedIds.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 rounded-2xl border border-[#00FFAA]/20 bg-[#00FFAA]/5 px-4 py-2 text-xs">
+          <span className="text-white">{selectedIds.length} selected</span>
+          <button
+            onClick={() => compareReports(selectedIds[0], selectedIds[1])}
+            disabled={busy || selectedIds.length !== 2}
+            title={selectedIds.length === 2 ? undefined : "Select exactly two reports to compare"}
+            className="text-[#00FFAA] hover:text-white disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            Compare selected
+          </button>
+          <button onClick={bulkDownload} disabled={busy} className="text-emerald-300 hover:text-emerald-200 disabled:opacity-40">
+            Download
+          </button>
+          <button onClick={bulkDelete} disabled={busy} className="text-rose-300 hover:text-rose-200 disabled:opacity-40">
+            Delete
+          </button>
+          <button onClick={() => setSelection(new Set())} className="ml-auto text-[#9BA0A8] hover:text-white">
+            Clear selection
+          </button>
+        </div>
+      )}
+
+      <div className="overflow-x-auto rounded-2xl border border-white/10 bg-black/20">
+        <table className="min-w-full text-left text-sm">
+          <thead className="bg-white/5 text-xs uppercase text-[#9BA0A8]">
+            <tr>
+              <th className="w-8 px-3 py-2">
+                <input type="checkbox" checked={pageSelected} onChange={togglePage} aria-label="Select page" />
+              </th>
+              {columns.map((column) => (
+                <th key={column.key} className="px-3 py-2">
+                  <button onClick={() => toggleSort(column.key)} className="flex items-center gap-1 uppercase hover:text-white">
+                    {column.label}
+                    {sort.key === column.key && <span className="text-[#00FFAA]">{sort.direction === 1 ? "▲" : "▼"}</span>}
+                  </button>
+                </th>
+              ))}
+              <th className="px-3 py-2">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {pageRows.map((item) => {
+              const score = scoreOf(item);
+              return (
+                <tr key={item.id} className={`border-b border-white/5 ${selection.has(item.id) ? "bg-white/5" : ""}`}>
+                  <td className="px-3 py-2">
+                    <input
+                      type="checkbox"
+                      checked={selection.has(item.id)}
+                      onChange={() => toggleSelected(item.id)}
+                      aria-label={`Select ${item.dataset_name} report`}
+                    />
+                  </td>
+                  <td className="px-3 py-2">{item.dataset_name}</td>
+                  <td className="px-3 py-2">{new Date(item.created_at).toLocaleString()}</td>
+                  <td className="px-3 py-2">{item.issues_found}</td>
+                  <td
+                    className={`px-3 py-2 font-mono ${score?.threshold != null ? scoreTone(score.overall, score.threshold) : "text-[#4f5661]"}`}
+                  >
+                    {score ? formatScore(score.overall) : !failedScores.has(item.id) && "…"}
+                    {failedScores.has(item.id) && (
+                      <button
+                        onClick={() => retryScore(item.id)}
+                        title="The report could not be loaded to score it against its pass threshold"
+                        className={`font-sans text-xs text-rose-300 hover:text-rose-200 ${score ? "ml-2" : ""}`}
+                      >
+                        {score ? "Retry" : "Failed · retry"}
+                      </button>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 space-x-2">
+                    <button onClick={() => loadReport(item.id)} className="text-xs text-blue-300 hover:text-blue-200">
+                      View
+                    </button>
+                    <button onClick={() => downloadReport(item.id)} className="text-xs text-emerald-300 hover:text-emerald-200">
+                      Download
+                    </button>
+                    <button onClick={() => deleteReports([item.id])} className="text-xs text-rose-300 hover:text-rose-200">
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+            {!pageRows.length && (
+              <tr>
+                <td colSpan={columns.length + 2} className="px-3 py-4 text-center text-[#4f5661]">
+                  {reports.length ? "No reports match the current filters." : "No historical audits stored yet."}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {visible.length > 0 && (
+        <div className="flex items-center justify-between text-xs text-[#9BA0A8]">
+          <span>
+            {currentPage * HISTORY_PAGE_SIZE + 1}–{Math.min((currentPage + 1) * HISTORY_PAGE_SIZE, visible.length)} of{" "}
+            {visible.length}
+            {filtered ? ` (filtered from ${reports.length})` : ""}
+          </span>
+          {pages > 1 && (
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setPage(currentPage - 1)}
+                disabled={currentPage === 0}
+                className="rounded-full border border-white/10 px-3 py-1 hover:bg-white/5 disabled:opacity-40"
+              >
+                Previous
+              </button>
+              <span>
+                Page {currentPage + 1} of {pages}
+              </span>
+              <button
+                onClick={() => setPage(currentPage + 1)}
+                disabled={currentPage >= pages - 1}
+                className="rounded-full border border-white/10 px-3 py-1 hover:bg-white/5 disabled:opacity-40"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { parseRule, quoteColumn, referencedColumns } from "@/lib/ruleExpression";
+import { KeyboardEvent, useMemo, useRef, useState } from "react";
+
+interface RuleExpressionEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Columns declared in the config schema. */
+  schemaColumns: string[];
+  /** Columns found in the uploaded file, if any. */
+  fileColumns: string[];
+}
+
+const MAX_SUGGESTIONS = 8;
+
+/** The identifier being typed just before the cursor, unless the cursor sits inside a quoted literal. */
+function wordBeforeCursor(text: string, cursor: number) {
+  const before = text.slice(0, cursor);
+  const quotes = (before.match(/'/g) ?? []).length;
+  if (quotes % 2 === 1) return null;
+  const match = /[A-Za-z_][A-Za-z0-9_]*$/.exec(before);
+  return match ? { word: match[0], start: cursor - match[0].length } : null;
+}
+
+export default function RuleExpressionEditor({ value, onChange, schemaColumns, fileColumns }: RuleExpressionEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  const parsed = useMemo(() => parseRule(value), [value]);
+
+  const warnings = useMemo(() => {
+    if (!parsed.ast) return [];
+    const schema = new Set(schemaColumns);
+    const file = new Set(fileColumns);
+    const seen = new Set<string>();
+    const messages: string[] = [];
+    referencedColumns(parsed.ast).forEach(({ name }) => {
+      if (seen.has(name)) return;
+      seen.add(name);
+      if (fileColumns.length && !file.has(name)) {
+        messages.push(`"${name}" is not a column in the uploaded file`);
+      } else if (!schema.has(name)) {
+        messages.push(`"${name}" is not in the schema`);
+      }
+    });
+    return messages;
+  }, [parsed, schemaColumns, fileColumns]);
+
+  const completion = useMemo(() => {
+    if (cursor === null || dismissed) return null;
+    const current = wordBeforeCursor(value, cursor);
+    if (!current) return null;
+    const prefix = current.word.toLowerCase();
+    const options = Array.from(new Set([...fileColumns, ...schemaColumns]))
+      .filter((column) => column.toLowerCase().startsWith(prefix) && column !== current.word)
+      .slice(0, MAX_SUGGESTIONS);
+    return options.length ? { ...current, options } : null;
+  }, [value, cursor, dismissed, fileColumns, schemaColumns]);
+
+  const accept = (column: string) => {
+    if (!completion) return;
+    const inserted = quoteColumn(column);
+    const next = value.slice(0, completion.start) + inserted + value.slice(cursor ?? completion.start);
+    const position = completion.start + inserted.length;
+    onChange(next);
+    setCursor(position);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const onKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!completion) return;
+    const selected = Math.min(activeIndex, completion.options.length - 1);
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((selected + step + completion.options.length) % completion.options.length);
+    } else if (event.key === "Enter" || event.key === "Tab") {
+      event.preventDefault();
+      accept(completion.options[selected]);
+    } else if (event.key === "Escape") {
+      setDismissed(true);
+    }
+  };
+
+  const syncCursor = () => setCursor(textareaRef.current?.selectionStart ?? null);
+
+  const error = parsed.error;
+  const errorStart = error ? Math.min(error.start, value.length) : 0;
+  const errorEnd = error ? Math.min(Math.max(error.end, errorStart + 1), value.length) : 0;
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(event) => {
+          onChange(event.target.value);
+          setCursor(event.target.selectionStart);
+          setActiveIndex(0);
+          setDismissed(false);
+        }}
+        onKeyDown={onKeyDown}
+        onKeyUp={syncCursor}
+        onClick={syncCursor}
+        onBlur={() => setCursor(null)}
+        rows={2}
+        spellCheck={false}
+        className={`w-full rounded-xl border bg-transparent px-3 py-2 font-mono text-xs ${error ? "border-rose-400/60" : "border-white/10"
+          }`}
+      />
+      {completion && (
+        <ul className="absolute left-0 right-0 z-10 mt-1 max-h-48 overflow-auto rounded-xl border border-white/10 bg-[#11141c] py-1 text-xs shadow-[0_10px_25px_rgba(0,0,0,0.5)]">
+          {completion.options.map((option, idx) => (
+            <li key={option}>
+              <button
+                // Keep focus in the textarea so the cursor position survives the click.
+                onMouseDown={(event) => {
+                  event.preventDefault();
+                  accept(option);
+                }}
+                className={`w-full px-3 py-1 text-left font-mono ${idx === Math.min(activeIndex, completion.options.length - 1) ? "bg-white/10 text-[#00FFAA]" : "text-white"
+                  }`}
+              >
+                {option}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && (
+        <div className="mt-1 space-y-1 text-xs">
+          {value && (
+            <pre className="overflow-x-auto whitespace-pre-wrap rounded-lg bg-black/30 px-2 py-1 font-mono text-white/70">
+              {value.slice(0, errorStart)}
+              <mark className="rounded bg-rose-500/30 text-rose-100 underline decoration-rose-400 decoration-wavy">
+                {value.slice(errorStart, errorEnd) || " "}
+              </mark>
+              {value.slice(errorEnd)}
+            </pre>
+          )}
+          <p className="text-rose-300">{error.message}</p>
+        </div>
+      )}
+      {!error &&
+        warnings.map((warning) => (
+          <p key={warning} className="mt-1 text-xs text-amber-200">
+            {warning}
+          </p>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { isDelimitedFile, readDelimitedHead } from "@/lib/csv";
+import { parseRule, referencedColumns } from "@/lib/ruleExpression";
+import { rowPasses } from "@/lib/ruleEvaluator";
+import { useState } from "react";
+
+interface RuleTestPanelProps {
+  file: File | null;
+  expression: string;
+}
+
+interface RuleTestResult {
+  expression: string;
+  tested: number;
+  failing: number;
+  columns: string[];
+  focus: string[];
+  samples: Array<{ line: number; row: Record<string, string> }>;
+}
+
+const PREVIEW_ROWS = 5000;
+// Enough bytes for PREVIEW_ROWS of a fairly wide file without reading multi-GB uploads whole.
+const PREVIEW_BYTES = 8 * 1024 * 1024;
+const SAMPLE_LIMIT = 10;
+
+export default function RuleTestPanel({ file, expression }: RuleTestPanelProps) {
+  const [result, setResult] = useState<RuleTestResult | null>(null);
+  const [error, setError] = useState("");
+  const [running, setRunning] = useState(false);
+
+  const canTest = !!file && isDelimitedFile(file.name);
+
+  const runTest = async () => {
+    if (!file) return;
+    setError("");
+    const { ast, error: syntaxError } = parseRule(expression);
+    if (!ast) {
+      setResult(null);
+      setError(syntaxError.message);
+      return;
+    }
+    setRunning(true);
+    try {
+      const table = await readDelimitedHead(file, PREVIEW_ROWS, PREVIEW_BYTES);
+      const samples: RuleTestResult["samples"] = [];
+      let failing = 0;
+      table.rows.forEach((row, idx) => {
+        if (rowPasses(ast, row)) return;
+        failing += 1;
+        if (samples.length < SAMPLE_LIMIT) samples.push({ line: table.lines[idx], row });
+      });
+      const focus = Array.from(new Set(referencedColumns(ast).map((column) => column.name)));
+      // Referenced columns first so the reason for a failure is visible without scrolling.
+      const columns = [...focus, ...table.columns.filter((column) => !focus.includes(column))];
+      setResult({ expression, tested: table.rows.length, failing, columns, focus, samples });
+    } catch (err) {
+      setResult(null);
+      setError((err as Error).message);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const stale = result && result.expression !== expression;
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={runTest}
+          disabled={!canTest || running}
+          title={canTest ? `Evaluate on the first ${PREVIEW_ROWS.toLocaleString()} rows` : "Upload a CSV or TSV file to test rules"}
+          className="rounded-full border border-white/20 px-3 py-1 text-[#00FFAA] transition hover:bg-white/5 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          {running ? "Testing..." : "Test rule"}
+        </button>
+        {result && (
+          <p className={stale ? "text-[#4f5661]" : "text-[#9BA0A8]"}>
+            <span className="text-emerald-200">{(result.tested - result.failing).toLocaleString()} pass</span> ·{" "}
+            <span className={result.failing ? "text-rose-200" : "text-emerald-200"}>
+              {result.failing.toLocaleString()} fail
+            </span>{" "}
+            of first {result.tested.toLocaleString()} rows{stale ? " (expression changed)" : ""}
+          </p>
+        )}
+      </div>
+      {error && <p className="text-rose-300">{error}</p>}
+      {result && result.samples.length > 0 && (
+        <div className="max-h-56 overflow-auto rounded-xl border border-white/10 bg-black/20">
+          <table className="min-w-full text-left">
+            <thead className="sticky top-0 bg-[#151923] uppercase text-[#9BA0A8]">
+              <tr>
+                <th className="px-2 py-1">Row</th>
+                {result.columns.map((column) => (
+                  <th key={column} className={`px-2 py-1 ${result.focus.includes(column) ? "text-[#00FFAA]" : ""}`}>
+                    {column}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {result.samples.map(({ line, row }) => (
+                <tr key={line} className="border-b border-white/5">
+                  <td className="px-2 py-1 font-mono text-[#9BA0A8]">{line}</td>
+                  {result.columns.map((column) => (
+                    <td
+                      key={column}
+                      className={`whitespace-nowrap px-2 py-1 ${result.focus.includes(column) ? "text-white" : "text-white/60"}`}
+                    >
+                      {row[column]}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
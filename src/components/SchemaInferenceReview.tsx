@@ -0,0 +1,206 @@
+import { AuditConfig, SchemaField } from "@/types/audit";
+import { isDelimitedFile, readDelimitedHead } from "@/lib/csv";
+import { SchemaProposal, inferSchema } from "@/lib/schemaInference";
+import { Dispatch, SetStateAction, useState } from "react";
+
+const dtypeOptions = ["string", "integer", "float", "boolean", "datetime", "category"] as const;
+const rowOptions = [500, 1000, 5000, 10000] as const;
+
+interface SchemaInferenceReviewProps {
+  file: File | null;
+  setConfig: Dispatch<SetStateAction<AuditConfig>>;
+}
+
+const describeConstraints = (field: SchemaField) => {
+  const parts: string[] = [];
+  if (field.min != null || field.max != null) parts.push(`${field.min ?? "…"} – ${field.max ?? "…"}`);
+  if (field.allowed_values?.length) parts.push(`{${field.allowed_values.join(", ")}}`);
+  return parts.join(" · ") || "-";
+};
+
+export default function SchemaInferenceReview({ file, setConfig }: SchemaInferenceReviewProps) {
+  const [rowLimit, setRowLimit] = useState<number>(1000);
+  const [proposal, setProposal] = useState<SchemaProposal | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [usePrimaryKey, setUsePrimaryKey] = useState(true);
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const canInfer = !!file && isDelimitedFile(file.name);
+
+  const runInference = async () => {
+    if (!file) return;
+    setLoading(true);
+    setError("");
+    try {
+      const table = await readDelimitedHead(file, rowLimit);
+      const next = inferSchema(table);
+      setProposal(next);
+      setSelected(new Set(next.fields.map((item) => item.field.name)));
+      setUsePrimaryKey(next.primaryKey.length > 0);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateProposedField = (name: string, patch: Partial<SchemaField>) => {
+    setProposal((prev) =>
+      prev && {
+        ...prev,
+        fields: prev.fields.map((item) =>
+          item.field.name === name ? { ...item, field: { ...item.field, ...patch } } : item,
+        ),
+      },
+    );
+  };
+
+  const toggle = (name: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  };
+
+  const accept = () => {
+    if (!proposal) return;
+    const accepted = proposal.fields.filter((item) => selected.has(item.field.name)).map((item) => item.field);
+    const acceptedNames = new Set(accepted.map((field) => field.name));
+    setConfig((prev) => ({
+      ...prev,
+      // Proposed fields replace same-named ones; hand-written fields for other columns are kept.
+      schema: [...prev.schema.filter((field) => !acceptedNames.has(field.name)), ...accepted],
+      primary_key:
+        usePrimaryKey && proposal.primaryKey.every((column) => acceptedNames.has(column))
+          ? proposal.primaryKey
+          : prev.primary_key,
+    }));
+    setProposal(null);
+  };
+
+  return (
+    <div className="my-4 rounded-2xl border border-white/10 bg-black/20 p-4 text-sm">
+      <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h3 className="font-semibold text-white">Infer schema from file</h3>
+          <p className="text-xs text-[#9BA0A8]">
+            {canInfer
+              ? "Profiles the first rows of the uploaded file and proposes dtypes, ranges, enumerations and a key."
+              : "Upload a CSV or TSV file to infer a draft schema."}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={rowLimit}
+            onChange={(event) => setRowLimit(Number(event.target.value))}
+            className="rounded-xl border border-white/10 bg-transparent px-3 py-2 text-xs"
+          >
+            {rowOptions.map((option) => (
+              <option key={option} value={option}>
+                First {option.toLocaleString()} rows
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={runInference}
+            disabled={!canInfer || loading}
+            className="rounded-full border border-white/20 px-3 py-1 text-xs text-[#00FFAA] transition hover:bg-white/5 disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            {loading ? "Profiling..." : "Infer schema"}
+          </button>
+        </div>
+      </div>
+      {error && <p className="mt-2 text-xs text-rose-300">{error}</p>}
+      {proposal && (
+        <div className="mt-4 space-y-3">
+          <div className="overflow-x-auto rounded-2xl border border-white/10">
+            <table className="min-w-full text-left text-xs">
+              <thead className="bg-white/5 uppercase text-[#9BA0A8]">
+                <tr>
+                  <th className="px-3 py-2">Use</th>
+                  <th className="px-3 py-2">Column</th>
+                  <th className="px-3 py-2">Dtype</th>
+                  <th className="px-3 py-2">Nullable</th>
+                  <th className="px-3 py-2">Distinct</th>
+                  <th className="px-3 py-2">Constraints</th>
+                </tr>
+              </thead>
+              <tbody>
+                {proposal.fields.map(({ field, nullCount, distinctCount }) => (
+                  <tr key={field.name} className="border-b border-white/5">
+                    <td className="px-3 py-2">
+                      <input type="checkbox" checked={selected.has(field.name)} onChange={() => toggle(field.name)} />
+                    </td>
+                    <td className="px-3 py-2 text-white">{field.name}</td>
+                    <td className="px-3 py-2">
+                      <select
+                        value={field.dtype}
+                        onChange={(event) =>
+                          updateProposedField(field.name, {
+                            dtype: event.target.value as SchemaField["dtype"],
+                            min: undefined,
+                            max: undefined,
+                            allowed_values: undefined,
+                          })
+                        }
+                        className="rounded-lg border border-white/10 bg-transparent px-2 py-1"
+                      >
+                        {dtypeOptions.map((option) => (
+                          <option key={option} value={option}>
+                            {option}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-3 py-2">
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={field.nullable}
+                          onChange={(event) => updateProposedField(field.name, { nullable: event.target.checked })}
+                        />
+                        <span className="text-[#9BA0A8]">{nullCount} null</span>
+                      </label>
+                    </td>
+                    <td className="px-3 py-2">{distinctCount}</td>
+                    <td className="max-w-xs truncate px-3 py-2 text-[#9BA0A8]" title={describeConstraints(field)}>
+                      {describeConstraints(field)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+            <label className="flex items-center gap-2 text-xs">
+              <input
+                type="checkbox"
+                checked={usePrimaryKey}
+                disabled={!proposal.primaryKey.length}
+                onChange={(event) => setUsePrimaryKey(event.target.checked)}
+              />
+              {proposal.primaryKey.length
+                ? `Use ${proposal.primaryKey.join(", ")} as primary key (unique and non-null in ${proposal.rowsProfiled.toLocaleString()} rows)`
+                : "No unique, non-null column found for a primary key"}
+            </label>
+            <div className="flex gap-3 text-xs">
+              <button onClick={() => setProposal(null)} className="text-[#9BA0A8] hover:text-white">
+                Discard
+              </button>
+              <button
+                onClick={accept}
+                disabled={!selected.size}
+                className="rounded-full bg-gradient-to-r from-[#00FFAA] to-[#53ffe0] px-4 py-1 font-semibold text-black disabled:opacity-40"
+              >
+                Accept {selected.size} column{selected.size === 1 ? "" : "s"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,273 @@
+import { AuditReport, StoredReportMetadata } from "@/types/audit";
+import { isAbortError } from "@/lib/api";
+import { fetchReports } from "@/lib/reportCache";
+import { TrendPoint, buildTrend, groupByDataset, sharpChanges } from "@/lib/trends";
+import { useEffect, useMemo, useState } from "react";
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+const panelClass =
+  "rounded-3xl border border-white/5 bg-[#11141c]/80 backdrop-blur-xl shadow-[0_20px_45px_rgba(0,0,0,0.45)] p-6 md:p-8";
+
+const SERIES_COLORS = ["#00FFAA", "#8A4DFF", "#53ffe0", "#f472b6", "#fbbf24", "#60a5fa", "#a3e635", "#fb923c"];
+// More lines than this turn a chart into noise; the busiest series are kept.
+const MAX_SERIES = SERIES_COLORS.length;
+
+interface TrendDashboardProps {
+  reports: StoredReportMetadata[];
+  loadReport: (id: string) => void;
+}
+
+interface TrendSeries {
+  label: string;
+  values: Array<number | null>;
+  flags: boolean[];
+}
+
+interface TrendChart {
+  title: string;
+  unit: string;
+  series: TrendSeries[];
+  hidden: number;
+}
+
+const shortDate = (value: string) =>
+  new Date(value).toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+
+function toSeries(
+  label: string,
+  values: Array<number | null>,
+  options?: { relative?: number; absolute?: number },
+): TrendSeries {
+  return { label, values, flags: sharpChanges(values, options) };
+}
+
+/** Keeps the series with the highest peaks when there are too many to draw. */
+function busiest(series: TrendSeries[]) {
+  const ranked = [...series].sort(
+    (a, b) => Math.max(...b.values.map((value) => value ?? 0)) - Math.max(...a.values.map((value) => value ?? 0)),
+  );
+  return { series: ranked.slice(0, MAX_SERIES), hidden: Math.max(ranked.length - MAX_SERIES, 0) };
+}
+
+function buildCharts(points: TrendPoint[], ruleNames: string[], missingColumns: string[]): TrendChart[] {
+  const rules = busiest(
+    ruleNames.map((name) => toSeries(name, points.map((point) => point.rules[name] ?? null), { absolute: 5 })),
+  );
+  const missing = busiest(
+    missingColumns.map((column) => toSeries(column, points.map((point) => point.missing[column] ?? null))),
+  );
+  return [
+    { title: "Total issues", unit: "", series: [toSeries("Issues", points.map((point) => point.issues))], hidden: 0 },
+    {
+      title: "Row count",
+      unit: "",
+      series: [toSeries("Rows", points.map((point) => point.rows), { relative: 0.2 })],
+      hidden: 0,
+    },
+    { title: "Rule failing rows", unit: "", ...rules },
+    { title: "Missing values", unit: "%", ...missing },
+  ];
+}
+
+export default function TrendDashboard({ reports, loadReport }: TrendDashboardProps) {
+  const groups = useMemo(() => groupByDataset(reports), [reports]);
+  const [dataset, setDataset] = useState("");
+  const [loaded, setLoaded] = useState<Record<string, AuditReport>>({});
+  const [failed, setFailed] = useState<Record<string, true>>({});
+
+  const active = groups.find((group) => group.dataset === dataset) ?? groups[0];
+  const idsKey = active ? active.reports.map((item) => item.id).join("\n") : "";
+
+  useEffect(() => {
+    if (!idsKey) return;
+    const controller = new AbortController();
+    fetchReports(
+      idsKey.split("\n"),
+      (report) => setLoaded((prev) => (prev[report.id] ? prev : { ...prev, [report.id]: report })),
+      { signal: controller.signal },
+    )
+      .then((failedIds) => {
+        if (failedIds.length) setFailed((prev) => ({ ...prev, ...Object.fromEntries(failedIds.map((id) => [id, true])) }));
+      })
+      .catch((error) => {
+        if (!isAbortError(error)) console.error("Failed to load trend reports", error);
+      });
+    return () => controller.abort();
+  }, [idsKey]);
+
+  const datasetReports = useMemo(
+    () => (active ? active.reports.map((item) => loaded[item.id]).filter((item): item is AuditReport => !!item) : []),
+    [active, loaded],
+  );
+  const trend = useMemo(() => buildTrend(datasetReports), [datasetReports]);
+  const charts = useMemo(() => buildCharts(trend.points, trend.ruleNames, trend.missingColumns), [trend]);
+
+  const changes = useMemo(
+    () =>
+      charts.flatMap((chart) =>
+        chart.series.flatMap((series) =>
+          series.flags.flatMap((flag, idx) => {
+            if (!flag) return [];
+            const previous = series.values.slice(0, idx).reverse().find((value) => value !== null) ?? null;
+            return [{ chart, series, point: trend.points[idx], previous, value: series.values[idx] }];
+          }),
+        ),
+      ),
+    [charts, trend],
+  );
+
+  const pending = active ? active.reports.filter((item) => !loaded[item.id] && !failed[item.id]).length : 0;
+  const failedCount = active ? active.reports.filter((item) => failed[item.id]).length : 0;
+
+  const openPoint = (index: number | string | undefined) => {
+    const point = trend.points[Number(index)];
+    if (point) loadReport(point.id);
+  };
+
+  const formatValue = (value: number | null, unit: string) =>
+    value === null ? "-" : `${Number(value.toFixed(2)).toLocaleString()}${unit}`;
+
+  const renderChart = (chart: TrendChart) => {
+    const data = trend.points.map((point, idx) => ({
+      label: shortDate(point.created_at),
+      ...Object.fromEntries(chart.series.map((series, seriesIdx) => [`s${seriesIdx}`, series.values[idx]])),
+    }));
+    return (
+      <div key={chart.title} className="rounded-2xl border border-white/10 bg-black/20 p-4">
+        <div className="mb-2 flex items-baseline justify-between">
+          <h3 className="text-sm font-semibold text-white">{chart.title}</h3>
+          {chart.hidden > 0 && <p className="text-xs text-[#4f5661]">{chart.hidden} quieter series hidden</p>}
+        </div>
+        {chart.series.length ? (
+          <div className="h-56 w-full cursor-pointer">
+            <ResponsiveContainer>
+              <LineChart data={data} onClick={(state) => openPoint(state.activeTooltipIndex ?? undefined)}>
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.06)" />
+                <XAxis
+                  dataKey="label"
+                  tick={{ fill: "#9BA0A8", fontSize: 10 }}
+                  interval="preserveStartEnd"
+                  axisLine={{ stroke: "rgba(255,255,255,0.08)" }}
+                  tickLine={{ stroke: "rgba(255,255,255,0.08)" }}
+                />
+                <YAxis
+                  tick={{ fill: "#9BA0A8", fontSize: 10 }}
+                  tickFormatter={(value: number) => `${value.toLocaleString()}${chart.unit}`}
+                  axisLine={{ stroke: "rgba(255,255,255,0.08)" }}
+                  tickLine={{ stroke: "rgba(255,255,255,0.08)" }}
+                />
+                <Tooltip
+                  contentStyle={{ background: "#11141c", border: "1px solid rgba(255,255,255,0.08)", borderRadius: 16 }}
+                  formatter={(value) => formatValue(typeof value === "number" ? value : null, chart.unit)}
+                />
+                {chart.series.length > 1 && <Legend wrapperStyle={{ fontSize: 11 }} />}
+                {chart.series.map((series, seriesIdx) => {
+                  const color = SERIES_COLORS[seriesIdx % SERIES_COLORS.length];
+                  return (
+                    <Line
+                      key={series.label}
+                      dataKey={`s${seriesIdx}`}
+                      name={series.label}
+                      stroke={color}
+                      strokeWidth={2}
+                      connectNulls
+                      isAnimationActive={false}
+                      dot={({ cx, cy, index }: { cx?: number; cy?: number; index?: number }) => {
+                        const flagged = index !== undefined && series.flags[index];
+                        if (cx === undefined || cy === undefined) return <g key={`${series.label}-${index}`} />;
+                        return (
+                          <circle
+                            key={`${series.label}-${index}`}
+                            cx={cx}
+                            cy={cy}
+                            r={flagged ? 6 : 3}
+                            fill={flagged ? "#fb7185" : color}
+                            stroke={flagged ? "#fff1f2" : "none"}
+                            strokeWidth={flagged ? 2 : 0}
+                          />
+                        );
+                      }}
+                    />
+                  );
+                })}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <p className="text-sm text-[#4f5661]">Nothing to chart.</p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <section className={panelClass}>
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <p className="text-sm uppercase tracking-[0.3em] text-[#8A4DFF]">Trends</p>
+          <h2 className="text-2xl font-semibold text-white">Quality over time</h2>
+          <p className="text-sm text-[#9BA0A8]">
+            Every stored report for a dataset, oldest to newest. Sharp moves are ringed; click a point to open its report.
+          </p>
+        </div>
+        {groups.length > 0 && (
+          <select
+            value={active?.dataset ?? ""}
+            onChange={(event) => setDataset(event.target.value)}
+            className="rounded-2xl border border-white/10 bg-transparent px-3 py-2 text-sm"
+          >
+            {groups.map((group) => (
+              <option key={group.dataset} value={group.dataset}>
+                {group.dataset} ({group.reports.length})
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {!active && <p className="mt-4 text-sm text-[#4f5661]">No historical audits stored yet.</p>}
+      {active && (
+        <div className="mt-4 space-y-4">
+          {(pending > 0 || failedCount > 0) && (
+            <p className="text-xs text-[#9BA0A8]">
+              {pending > 0 && `Loading ${pending} of ${active.reports.length} reports... `}
+              {failedCount > 0 && <span className="text-rose-300">{failedCount} report(s) could not be loaded.</span>}
+            </p>
+          )}
+          {trend.points.length < 2 && !pending && (
+            <p className="text-sm text-[#4f5661]">A trend needs at least two reports for this dataset.</p>
+          )}
+          {trend.points.length >= 2 && (
+            <>
+              <div className="grid gap-4 md:grid-cols-2">{charts.map(renderChart)}</div>
+              {changes.length > 0 && (
+                <div>
+                  <h3 className="mb-2 text-sm font-semibold text-white">Sharp changes</h3>
+                  <ul className="space-y-1 text-xs">
+                    {changes.map(({ chart, series, point, previous, value }) => (
+                      <li key={`${chart.title}-${series.label}-${point.id}`}>
+                        <button
+                          onClick={() => loadReport(point.id)}
+                          className="flex w-full flex-wrap gap-x-3 rounded-lg px-2 py-1 text-left hover:bg-white/5"
+                        >
+                          <span className="text-[#9BA0A8]">{shortDate(point.created_at)}</span>
+                          <span className="text-white">
+                            {chart.title}
+                            {chart.series.length > 1 ? ` · ${series.label}` : ""}
+                          </span>
+                          <span className="font-mono text-rose-200">
+                            {formatValue(previous, chart.unit)} → {formatValue(value, chart.unit)}
+                          </span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,263 @@
+import { AuditConfig } from "@/types/audit";
+import {
+  StoredValueDomain,
+  configDomainNames,
+  deleteValueDomain,
+  getReferenceData,
+  getServerReferenceData,
+  restoreValueDomainVersion,
+  saveValueDomain,
+  subscribeReferenceData,
+  toValueDomain,
+} from "@/lib/referenceData";
+import { DOMAIN_FILE_ACCEPT, formatAliases, parseAliases, parseDomainFile } from "@/lib/valueDomains";
+import { downloadBlob } from "@/lib/download";
+import { ChangeEvent, useMemo, useRef, useState, useSyncExternalStore } from "react";
+
+const panelClass =
+  "rounded-3xl border border-white/5 bg-[#11141c]/80 backdrop-blur-xl shadow-[0_20px_45px_rgba(0,0,0,0.45)] p-6 md:p-8";
+const textareaClass = "w-full rounded-xl border border-white/10 bg-transparent px-3 py-2 font-mono text-xs";
+
+interface DomainDraft {
+  id: string;
+  values: string;
+  aliases: string;
+  case_insensitive: boolean;
+}
+
+interface ValueDomainLibraryProps {
+  config: AuditConfig;
+}
+
+export default function ValueDomainLibrary({ config }: ValueDomainLibraryProps) {
+  const { domains } = useSyncExternalStore(subscribeReferenceData, getReferenceData, getServerReferenceData);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [newName, setNewName] = useState("");
+  const [draft, setDraft] = useState<DomainDraft | null>(null);
+  const [message, setMessage] = useState("");
+  const usedHere = useMemo(() => new Set(configDomainNames(config)), [config]);
+  const editing = draft && domains.find((domain) => domain.id === draft.id);
+
+  const edit = (domain: StoredValueDomain) => {
+    setDraft({
+      id: domain.id,
+      values: domain.values.join("\n"),
+      aliases: formatAliases(domain.aliases),
+      case_insensitive: domain.case_insensitive,
+    });
+  };
+
+  const create = () => {
+    const name = newName.trim();
+    if (!name) return;
+    if (domains.some((domain) => domain.name === name)) {
+      setMessage(`A value domain called ${name} already exists.`);
+      return;
+    }
+    edit(saveValueDomain(name, { values: [] }));
+    setNewName("");
+    setMessage("");
+  };
+
+  const saveDraft = (domain: StoredValueDomain, draft: DomainDraft) => {
+    const saved = saveValueDomain(domain.name, {
+      values: draft.values.split(/\r?\n/),
+      aliases: parseAliases(draft.aliases),
+      case_insensitive: draft.case_insensitive,
+    });
+    setDraft(null);
+    setMessage(
+      saved.version === domain.version ? `${domain.name} is unchanged.` : `Saved ${domain.name} v${saved.version}.`,
+    );
+  };
+
+  // A file named like an existing domain becomes that domain's next version.
+  const importDomain = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const saved = saveValueDomain(file.name.replace(/\.[^.]+$/, ""), parseDomainFile(await file.text(), file.name));
+      setMessage(`Imported ${saved.values.length.toLocaleString()} values into ${saved.name} v${saved.version}.`);
+    } catch (error) {
+      setMessage(`Unable to import ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  const exportDomain = (domain: StoredValueDomain) => {
+    downloadBlob(JSON.stringify(toValueDomain(domain), null, 2), `${domain.name}.json`, "application/json");
+  };
+
+  const removeDomain = (domain: StoredValueDomain) => {
+    const note = usedHere.has(domain.name) ? " The current config uses it." : "";
+    if (!window.confirm(`Delete value domain "${domain.name}"?${note}`)) return;
+    deleteValueDomain(domain.id);
+    if (draft?.id === domain.id) setDraft(null);
+  };
+
+  return (
+    <section className={panelClass}>
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div className="flex flex-col gap-2">
+          <p className="text-sm uppercase tracking-[0.3em] text-[#8A4DFF]">Lookups</p>
+          <h2 className="text-2xl font-semibold text-white">Value domains</h2>
+          <p className="text-sm text-[#9BA0A8]">
+            Named code lists that schema fields and foreign keys refer to by name, so an edit here applies to every
+            config. Import a text file with one value per line, or a CSV whose first column holds the values and other
+            columns their aliases.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <input
+            value={newName}
+            onChange={(event) => setNewName(event.target.value)}
+            onKeyDown={(event) => event.key === "Enter" && create()}
+            placeholder="Domain name"
+            className="rounded-xl border border-white/10 bg-transparent px-3 py-2 text-sm"
+          />
+          <button
+            onClick={create}
+            className="rounded-full border border-white/20 px-3 py-1 text-xs text-[#00FFAA] transition hover:bg-white/5"
+          >
+            New domain
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept={DOMAIN_FILE_ACCEPT}
+            className="hidden"
+            onChange={importDomain}
+          />
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="rounded-full border border-white/20 px-3 py-1 text-xs text-[#00FFAA] transition hover:bg-white/5"
+          >
+            Import file
+          </button>
+        </div>
+      </div>
+      {message && <p className="mt-3 text-xs text-[#9BA0A8]">{message}</p>}
+
+      <div className="mt-4 overflow-x-auto rounded-2xl border border-white/10 bg-black/20">
+        <table className="min-w-full text-left text-sm">
+          <thead className="bg-white/5 text-xs uppercase text-[#9BA0A8]">
+            <tr>
+              <th className="px-3 py-2">Domain</th>
+              <th className="px-3 py-2">Version</th>
+              <th className="px-3 py-2">Values</th>
+              <th className="px-3 py-2">Aliases</th>
+              <th className="px-3 py-2">Matching</th>
+              <th className="px-3 py-2">Updated</th>
+              <th className="px-3 py-2">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {domains.map((domain) => (
+              <tr key={domain.id} className={`border-b border-white/5 ${draft?.id === domain.id ? "bg-white/5" : ""}`}>
+                <td className="px-3 py-2">
+                  {domain.name}
+                  {usedHere.has(domain.name) && (
+                    <span className="ml-2 rounded-full bg-[#8A4DFF]/20 px-2 py-0.5 text-xs text-[#c9b0ff]">in use</span>
+                  )}
+                </td>
+                <td className="px-3 py-2">v{domain.version}</td>
+                <td className="px-3 py-2">{domain.values.length.toLocaleString()}</td>
+                <td className="px-3 py-2">{Object.keys(domain.aliases).length.toLocaleString()}</td>
+                <td className="px-3 py-2">{domain.case_insensitive ? "Ignores case" : "Exact"}</td>
+                <td className="px-3 py-2">{new Date(domain.updated_at).toLocaleString()}</td>
+                <td className="px-3 py-2 space-x-2">
+                  <button onClick={() => edit(domain)} className="text-xs text-blue-300 hover:text-blue-200">
+                    Edit
+                  </button>
+                  <button onClick={() => exportDomain(domain)} className="text-xs text-[#9BA0A8] hover:text-white">
+                    Export
+                  </button>
+                  <button onClick={() => removeDomain(domain)} className="text-xs text-rose-300 hover:text-rose-200">
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {!domains.length && (
+              <tr>
+                <td colSpan={7} className="px-3 py-4 text-center text-[#4f5661]">
+                  No value domains yet.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {editing && draft && (
+        <div className="mt-4 rounded-2xl border border-white/10 bg-[#0D0F12] p-4 text-sm shadow-inner shadow-black/40">
+          <div className="mb-3 flex items-center justify-between">
+            <h3 className="font-semibold text-white">
+              {editing.name} <span className="text-[#9BA0A8]">v{editing.version}</span>
+            </h3>
+            <label className="flex items-center gap-2 text-xs">
+              <input
+                type="checkbox"
+                checked={draft.case_insensitive}
+                onChange={(event) => setDraft((prev) => prev && { ...prev, case_insensitive: event.target.checked })}
+              />
+              Ignore case
+            </label>
+          </div>
+          <div className="grid gap-3 md:grid-cols-2">
+            <label className="flex flex-col gap-1 text-xs text-[#9BA0A8]">
+              Values, one per line
+              <textarea
+                rows={10}
+                value={draft.values}
+                onChange={(event) => setDraft((prev) => prev && { ...prev, values: event.target.value })}
+                className={textareaClass}
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-[#9BA0A8]">
+              Aliases, one <span className="font-mono">alias = value</span> per line
+              <textarea
+                rows={10}
+                value={draft.aliases}
+                onChange={(event) => setDraft((prev) => prev && { ...prev, aliases: event.target.value })}
+                placeholder="UK = GB"
+                className={textareaClass}
+              />
+            </label>
+          </div>
+          {editing.history.length > 0 && (
+            <div className="mt-3 space-y-1 text-xs text-[#9BA0A8]">
+              <p className="uppercase tracking-[0.2em]">Earlier versions</p>
+              {editing.history.map((previous) => (
+                <p key={previous.version}>
+                  v{previous.version} · {previous.values.length.toLocaleString()} values ·{" "}
+                  {new Date(previous.updated_at).toLocaleString()}{" "}
+                  <button
+                    onClick={() => {
+                      restoreValueDomainVersion(editing.id, previous.version);
+                      setDraft(null);
+                    }}
+                    className="text-[#00FFAA] hover:underline"
+                  >
+                    Restore
+                  </button>
+                </p>
+              ))}
+            </div>
+          )}
+          <div className="mt-3 flex justify-end gap-3 text-xs">
+            <button onClick={() => setDraft(null)} className="text-[#9BA0A8] hover:text-white">
+              Cancel
+            </button>
+            <button
+              onClick={() => saveDraft(editing, draft)}
+              className="rounded-full border border-white/20 px-3 py-1 text-[#00FFAA] transition hover:bg-white/5"
+            >
+              Save as v{editing.version + 1}
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,242 @@
+import {
+  AnomalyDetectionConfig,
+  AnomalyResult,
+  AuditReport,
+  BaselineComparison,
+  BaselineMetric,
+  Issue,
+} from "@/types/audit";
+import { percentile } from "@/lib/profiling";
+
+/** Fewer earlier reports than this say too little about what is normal; such metrics are not checked. */
+export const MIN_BASELINE_REPORTS = 3;
+
+export const DEFAULT_ANOMALY_DETECTION: AnomalyDetectionConfig = {
+  baseline_runs: 10,
+  method: "zscore",
+  threshold: 3,
+  severity: "warning",
+};
+
+/** The usual threshold per method: three standard deviations, or Tukey's fences at 1.5 IQRs. */
+export const defaultAnomalyThreshold = (method: AnomalyDetectionConfig["method"]) => (method === "iqr" ? 1.5 : 3);
+
+export const baselineMetricLabels: Record<BaselineMetric, string> = {
+  row_count: "Row count",
+  null_rate: "Null rate",
+  distinct_count: "Distinct values",
+  mean: "Mean",
+  p5: "5th percentile",
+  p25: "25th percentile",
+  p50: "Median",
+  p75: "75th percentile",
+  p95: "95th percentile",
+};
+
+const PERCENTILES = ["p5", "p25", "p50", "p75", "p95"] as const;
+
+// A perfectly stable baseline has no spread, so any change at all would be infinitely unusual. The spread is
+// floored at 1% of the expected value, or at these amounts for metrics that are often zero.
+const RELATIVE_SPREAD_FLOOR = 0.01;
+const ABSOLUTE_SPREAD_FLOOR: Record<BaselineMetric, number> = {
+  row_count: 1,
+  null_rate: 0.1,
+  distinct_count: 1,
+  mean: 1e-9,
+  p5: 1e-9,
+  p25: 1e-9,
+  p50: 1e-9,
+  p75: 1e-9,
+  p95: 1e-9,
+};
+
+export function formatMetricValue(metric: BaselineMetric, value: number) {
+  if (metric === "null_rate") return `${value.toFixed(1)}%`;
+  if (metric === "row_count" || metric === "distinct_count") return Math.round(value).toLocaleString();
+  return Number(value.toPrecision(6)).toLocaleString();
+}
+
+export const describeMetric = (anomaly: Pick<AnomalyResult, "metric" | "column">) =>
+  anomaly.column
+    ? `${baselineMetricLabels[anomaly.metric]} of ${anomaly.column}`
+    : baselineMetricLabels[anomaly.metric];
+
+type MetricValues = Map<string, { metric: BaselineMetric; column: string | null; value: number }>;
+
+/** Metrics read from column profiles rather than from the audit itself. */
+type ProfileMetric = Exclude<BaselineMetric, "row_count" | "null_rate">;
+
+const PROFILE_METRICS: ProfileMetric[] = ["distinct_count", "mean", ...PERCENTILES];
+
+/**
+ * The profile metrics of one report. The backend does not store column profiles, so the browser keeps these for
+ * the reports it profiled and compares later reports with them.
+ */
+export interface ProfileSnapshot {
+  report_id: string;
+  /** Whether the profiles covered only the first rows of the file. Only snapshots alike are compared. */
+  sampled: boolean;
+  columns: Record<string, Partial<Record<ProfileMetric, number>>>;
+}
+
+export function profileSnapshot(report: AuditReport): ProfileSnapshot | null {
+  if (!report.column_profiles?.length) return null;
+  return {
+    report_id: report.id,
+    sampled: report.column_profile_rows !== undefined,
+    columns: Object.fromEntries(
+      report.column_profiles.map((profile) => [
+        profile.column,
+        {
+          distinct_count: profile.distinct_count,
+          mean: profile.numeric?.mean,
+          ...profile.numeric?.percentiles,
+        },
+      ]),
+    ),
+  };
+}
+
+/**
+ * The metrics one report offers. The row count and null rates come from the audit itself, so they mean the same
+ * for every report; distinct counts and numeric statistics come only from a profile snapshot.
+ */
+function reportMetrics(report: AuditReport, snapshot: ProfileSnapshot | undefined, columns: string[]): MetricValues {
+  const metrics: MetricValues = new Map();
+  const add = (metric: BaselineMetric, column: string | null, value: number | undefined) => {
+    if (value === undefined || !Number.isFinite(value)) return;
+    metrics.set(`${metric}\n${column ?? ""}`, { metric, column, value });
+  };
+  add("row_count", null, report.summary.row_count);
+  columns.forEach((column) => {
+    // Engines may list only columns with missing values, so a column absent from a run had none.
+    add("null_rate", column, report.missing_values.find((item) => item.column === column)?.missing_pct ?? 0);
+    const profile = snapshot?.columns[column];
+    if (profile) PROFILE_METRICS.forEach((metric) => add(metric, column, profile[metric]));
+  });
+  return metrics;
+}
+
+function score(
+  metric: BaselineMetric,
+  observed: number,
+  baseline: number[],
+  settings: AnomalyDetectionConfig,
+): { expected: number; score: number } {
+  const sorted = Float64Array.from(baseline).sort();
+  if (settings.method === "iqr") {
+    const q1 = percentile(sorted, 0.25);
+    const q3 = percentile(sorted, 0.75);
+    const expected = percentile(sorted, 0.5);
+    const iqr = Math.max(q3 - q1, Math.abs(expected) * RELATIVE_SPREAD_FLOOR, ABSOLUTE_SPREAD_FLOOR[metric]);
+    const distance = observed > q3 ? observed - q3 : observed < q1 ? observed - q1 : 0;
+    return { expected, score: distance / iqr };
+  }
+  const expected = baseline.reduce((sum, value) => sum + value, 0) / baseline.length;
+  const variance = baseline.reduce((sum, value) => sum + (value - expected) ** 2, 0) / (baseline.length - 1);
+  const spread = Math.max(
+    Math.sqrt(variance),
+    Math.abs(expected) * RELATIVE_SPREAD_FLOOR,
+    ABSOLUTE_SPREAD_FLOOR[metric],
+  );
+  return { expected, score: (observed - expected) / spread };
+}
+
+/**
+ * Compares `report` with the most recent `baseline_runs` reports in `history` for the same dataset that were
+ * created before it. A metric is checked when at least `MIN_BASELINE_REPORTS` of them have it. Profile metrics are
+ * taken from `snapshots` on both sides, and only from snapshots profiled the same way as the current report's.
+ */
+export function compareWithBaseline(
+  report: AuditReport,
+  history: AuditReport[],
+  settings: AnomalyDetectionConfig = report.config.anomaly_detection ?? DEFAULT_ANOMALY_DETECTION,
+  snapshots: ProfileSnapshot[] = [],
+): BaselineComparison {
+  const createdAt = Date.parse(report.summary.created_at);
+  const baselineReports = history
+    .filter(
+      (item) =>
+        item.id !== report.id &&
+        item.summary.dataset_name === report.summary.dataset_name &&
+        Date.parse(item.summary.created_at) < createdAt,
+    )
+    .sort((a, b) => Date.parse(a.summary.created_at) - Date.parse(b.summary.created_at))
+    .slice(-settings.baseline_runs);
+
+  const currentSnapshot = profileSnapshot(report) ?? snapshots.find((item) => item.report_id === report.id);
+  const snapshotOf = (item: AuditReport) =>
+    currentSnapshot &&
+    snapshots.find((snapshot) => snapshot.report_id === item.id && snapshot.sampled === currentSnapshot.sampled);
+  // A column that had missing values before but has none now is still worth checking.
+  const columns = [
+    ...new Set([
+      ...Object.keys(currentSnapshot?.columns ?? {}),
+      ...[report, ...baselineReports].flatMap((item) => item.missing_values.map((stat) => stat.column)),
+    ]),
+  ];
+  const observed = reportMetrics(report, currentSnapshot, columns);
+  const baselineMetrics = baselineReports.map((item) => reportMetrics(item, snapshotOf(item), columns));
+
+  let checked = 0;
+  const compared = new Set<BaselineMetric>();
+  const anomalies: AnomalyResult[] = [];
+  observed.forEach((current, key) => {
+    const baseline = baselineMetrics.flatMap((metrics) => {
+      const value = metrics.get(key)?.value;
+      return value === undefined ? [] : [value];
+    });
+    if (baseline.length < MIN_BASELINE_REPORTS) return;
+    checked += 1;
+    compared.add(current.metric);
+    const result = score(current.metric, current.value, baseline, settings);
+    if (Math.abs(result.score) <= settings.threshold) return;
+    anomalies.push({
+      metric: current.metric,
+      column: current.column,
+      observed: current.value,
+      baseline,
+      ...result,
+      severity: settings.severity,
+    });
+  });
+  anomalies.sort((a, b) => Math.abs(b.score) - Math.abs(a.score));
+
+  return {
+    method: settings.method,
+    threshold: settings.threshold,
+    baseline_report_ids: baselineReports.map((item) => item.id),
+    metrics_checked: checked,
+    metrics_compared: (Object.keys(baselineMetricLabels) as BaselineMetric[]).filter((metric) => compared.has(metric)),
+    anomalies,
+  };
+}
+
+/**
+ * Which metrics a comparison covered, for showing beside it. Profile metrics are only compared when earlier
+ * reports were profiled in this browser, which is easy to miss, so their absence is called out.
+ */
+export function describeComparedMetrics(comparison: BaselineComparison) {
+  if (!comparison.metrics_compared.length) return "";
+  const labels = comparison.metrics_compared.map((metric) => baselineMetricLabels[metric].toLowerCase());
+  const profiled = PROFILE_METRICS.some((metric) => comparison.metrics_compared.includes(metric));
+  return `Compared ${labels.join(", ")}.${
+    profiled
+      ? ""
+      : " Distinct counts, means and percentiles were not: they need column profiles of earlier reports, which only the browser that profiled them keeps."
+  }`;
+}
+
+/** One issue per anomaly; they concern the whole file, so none points at a row. */
+export const anomalyIssues = (comparison: BaselineComparison): Issue[] =>
+  comparison.anomalies.map((anomaly) => {
+    const format = (value: number) => formatMetricValue(anomaly.metric, value);
+    return {
+      row_id: null,
+      category: "anomaly",
+      columns: anomaly.column ? [anomaly.column] : [],
+      value: `${format(anomaly.observed)} (baseline ${format(anomaly.expected)})`,
+      rule: baselineMetricLabels[anomaly.metric],
+      severity: anomaly.severity,
+    };
+  });
@@ -1,14 +1,317 @@
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL ?? "http://127.0.0.1:8000";
+import { AuditConfig, AuditJob, AuditReport, AuditStageEvent, StoredReportMetadata } from "@/types/audit";
+import { nativeUploadField, uploadNativeForm } from "@/lib/nativeFiles";
+import { AuditReferences } from "@/lib/referenceData";
+import { readServerSentEvents } from "@/lib/sse";
+import {
+  Validator,
+  arrayOf,
+  auditConfigValidator,
+  auditJobValidator,
+  auditReportValidator,
+  auditStageEventValidator,
+  formatIssues,
+  isString,
+  storedReportMetadataValidator,
+  validate,
+} from "@/lib/validation";
+
+let apiBaseUrl = process.env.NEXT_PUBLIC_API_BASE_URL ?? "http://127.0.0.1:8000";
+const DEFAULT_TIMEOUT_MS = 30_000;
 
 export function apiUrl(path: string) {
-  return `${API_BASE_URL}${path}`;
+  return `${apiBaseUrl}${path}`;
+}
+
+/** Points the client at another backend; the UI reads it from the environment, the CLI from a flag. */
+export function setApiBaseUrl(url: string) {
+  apiBaseUrl = url.replace(/\/+$/, "");
+}
+
+/** Non-2xx response. `detail` is FastAPI's error body when the server sent one. */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly detail?: unknown,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export class ApiTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`Request timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = "ApiTimeoutError";
+  }
+}
+
+/** The server answered, but not in a shape this build of the UI understands. */
+export class ApiResponseShapeError extends Error {
+  constructor(path: string, details: string) {
+    super(
+      `Unexpected response from ${path} (${details}). The backend may be running a different version of the auditor.`,
+    );
+    this.name = "ApiResponseShapeError";
+  }
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  /** Pass 0 to disable the timeout. */
+  timeoutMs?: number;
+}
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === "AbortError";
+
+/** `fetch` rejects with a bare TypeError when the server cannot be reached at all. */
+export const isNetworkError = (error: unknown) => error instanceof TypeError;
+
+const formatDetail = (detail: unknown): string | undefined => {
+  if (typeof detail === "string") return detail;
+  // FastAPI validation errors: [{ loc: ["body", "config"], msg: "...", type: "..." }]
+  if (Array.isArray(detail)) {
+    return detail
+      .map((item) => {
+        const entry = item as { loc?: unknown[]; msg?: string };
+        const loc = Array.isArray(entry.loc) ? entry.loc.join(".") : "";
+        return loc ? `${loc}: ${entry.msg ?? "invalid"}` : (entry.msg ?? JSON.stringify(item));
+      })
+      .join("; ");
+  }
+  return undefined;
+};
+
+const parseErrorBody = (text: string, status: number, statusText: string): ApiError => {
+  let detail: unknown;
+  try {
+    detail = (JSON.parse(text) as { detail?: unknown }).detail;
+  } catch {
+    detail = undefined;
+  }
+  const message = formatDetail(detail) ?? (text || statusText || "Request failed");
+  return new ApiError(message, status, detail);
+};
+
+const toApiError = async (response: Response): Promise<ApiError> =>
+  parseErrorBody(await response.text(), response.status, response.statusText);
+
+const abortError = () => new DOMException("The operation was aborted.", "AbortError");
+
+async function request(path: string, init: RequestInit = {}, options: RequestOptions = {}): Promise<Response> {
+  const { signal, timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer =
+    timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : undefined;
+  const forwardAbort = () => controller.abort();
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener("abort", forwardAbort);
+
+  try {
+    const response = await fetch(apiUrl(path), { ...init, signal: controller.signal });
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+    return response;
+  } catch (error) {
+    if (timedOut && isAbortError(error)) throw new ApiTimeoutError(timeoutMs);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", forwardAbort);
+  }
+}
+
+export interface UploadOptions extends RequestOptions {
+  /** Fraction of the request body sent so far, 0–1. */
+  onUploadProgress?: (fraction: number) => void;
+}
+
+/** `fetch` cannot report upload progress, so multipart posts that need it go through XHR. Errors match `request`. */
+async function upload(path: string, body: FormData, options: UploadOptions = {}): Promise<string> {
+  const { signal, timeoutMs = DEFAULT_TIMEOUT_MS, onUploadProgress } = options;
+  // Datasets opened on the desktop stay on disk and are streamed up by the Rust side, without a timeout.
+  if (nativeUploadField(body)) {
+    const response = await uploadNativeForm(apiUrl(path), body, { signal, onUploadProgress });
+    if (response.status >= 200 && response.status < 300) return response.body;
+    throw parseErrorBody(response.body, response.status, "");
+  }
+  // Outside a browser (the CLI) there is no XHR; upload in one go without progress.
+  if (typeof XMLHttpRequest === "undefined") {
+    const response = await request(path, { method: "POST", body }, { signal, timeoutMs });
+    onUploadProgress?.(1);
+    return response.text();
+  }
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const xhr = new XMLHttpRequest();
+    const forwardAbort = () => xhr.abort();
+    const settle = (settleWith: () => void) => {
+      signal?.removeEventListener("abort", forwardAbort);
+      settleWith();
+    };
+    xhr.open("POST", apiUrl(path));
+    xhr.timeout = timeoutMs;
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable && event.total > 0) onUploadProgress?.(event.loaded / event.total);
+    };
+    xhr.onload = () =>
+      settle(() => {
+        if (xhr.status >= 200 && xhr.status < 300) resolve(xhr.responseText);
+        else reject(parseErrorBody(xhr.responseText, xhr.status, xhr.statusText));
+      });
+    // Same as `fetch`, so `isNetworkError` still recognises an unreachable server.
+    xhr.onerror = () => settle(() => reject(new TypeError("Failed to fetch")));
+    xhr.ontimeout = () => settle(() => reject(new ApiTimeoutError(timeoutMs)));
+    xhr.onabort = () => settle(() => reject(abortError()));
+    signal?.addEventListener("abort", forwardAbort);
+    xhr.send(body);
+  });
 }
 
-export async function fetchJSON<T>(path: string, init?: RequestInit): Promise<T> {
-  const response = await fetch(apiUrl(path), init);
-  if (!response.ok) {
-    const message = await response.text();
-    throw new Error(message || "Request failed");
+function parsePayload<T>(path: string, text: string, validator: Validator): T {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    throw new ApiResponseShapeError(path, "body is not valid JSON");
+  }
+  const issues = validate(payload, validator);
+  if (issues.length) {
+    throw new ApiResponseShapeError(path, formatIssues(issues));
+  }
+  return payload as T;
+}
+
+async function requestJSON<T>(
+  path: string,
+  validator: Validator,
+  init?: RequestInit,
+  options?: RequestOptions,
+): Promise<T> {
+  const response = await request(path, init, options);
+  return parsePayload<T>(path, await response.text(), validator);
+}
+
+export function getConfigTemplate(options?: RequestOptions) {
+  return requestJSON<AuditConfig>("/config/template", auditConfigValidator, undefined, options);
+}
+
+export function listReports(options?: RequestOptions) {
+  return requestJSON<StoredReportMetadata[]>("/reports", arrayOf(storedReportMetadataValidator), undefined, options);
+}
+
+export function getReport(reportId: string, options?: RequestOptions) {
+  return requestJSON<AuditReport>(
+    `/reports/${encodeURIComponent(reportId)}`,
+    auditReportValidator,
+    undefined,
+    options,
+  );
+}
+
+export async function deleteReport(reportId: string, options?: RequestOptions): Promise<void> {
+  await request(`/reports/${encodeURIComponent(reportId)}`, { method: "DELETE" }, options);
+}
+
+export function reportDownloadUrl(reportId: string) {
+  return apiUrl(`/reports/${encodeURIComponent(reportId)}/download`);
+}
+
+export async function fetchSchemaColumns(file: File, options?: RequestOptions) {
+  const formData = new FormData();
+  formData.append("file", file);
+  const text = await upload("/audit/schema", formData, options);
+  return parsePayload<string[]>("/audit/schema", text, arrayOf(isString));
+}
+
+export interface AuditRunOptions extends UploadOptions {
+  /** Reference files for the config's foreign keys, and the value domains it names. */
+  references?: AuditReferences;
+}
+
+/** Reference files go up as repeated `reference_files` parts; value domains as a JSON `value_domains` part. */
+const auditFormData = (file: File, config: AuditConfig, references?: AuditReferences) => {
+  const formData = new FormData();
+  formData.append("file", file);
+  formData.append("config", JSON.stringify(config));
+  references?.files.forEach((reference) => formData.append("reference_files", reference));
+  if (references && Object.keys(references.domains).length) {
+    formData.append("value_domains", JSON.stringify(references.domains));
+  }
+  return formData;
+};
+
+/** Audits on large files can run for minutes, so no timeout applies unless one is passed. */
+export async function runAudit(file: File, config: AuditConfig, options: AuditRunOptions = {}) {
+  const body = auditFormData(file, config, options.references);
+  const text = await upload("/audit/run", body, { timeoutMs: 0, ...options });
+  return parsePayload<AuditReport>("/audit/run", text, auditReportValidator);
+}
+
+export async function cancelAuditJob(jobId: string, options?: RequestOptions): Promise<void> {
+  await request(`/audit/jobs/${encodeURIComponent(jobId)}`, { method: "DELETE" }, options);
+}
+
+export interface AuditJobOptions extends AuditRunOptions {
+  onStage?: (event: AuditStageEvent) => void;
+}
+
+/**
+ * Follows a submitted job's event stream: `stage` events until `complete` carries the report, or `error`
+ * carries a FastAPI-style `{ detail }`. Aborting the signal also cancels the job on the server.
+ */
+async function followAuditJob(jobId: string, { signal, onStage }: AuditJobOptions): Promise<AuditReport> {
+  const path = `/audit/jobs/${encodeURIComponent(jobId)}/events`;
+  try {
+    const response = await request(path, { headers: { Accept: "text/event-stream" } }, { signal, timeoutMs: 0 });
+    if (!response.body) throw new ApiResponseShapeError(path, "no event stream");
+    for await (const message of readServerSentEvents(response.body)) {
+      if (message.event === "stage") {
+        onStage?.(parsePayload<AuditStageEvent>(path, message.data, auditStageEventValidator));
+      } else if (message.event === "complete") {
+        return parsePayload<AuditReport>(path, message.data, auditReportValidator);
+      } else if (message.event === "error") {
+        throw parseErrorBody(message.data, 500, "Audit failed");
+      } else if (message.event === "cancelled") {
+        throw abortError();
+      }
+    }
+    throw new ApiResponseShapeError(path, "event stream ended before the report was sent");
+  } catch (error) {
+    if (signal?.aborted) {
+      cancelAuditJob(jobId).catch((cancelError) => console.error("Failed to cancel audit job", cancelError));
+    }
+    throw error;
+  }
+}
+
+// Backends that predate audit jobs only offer the blocking `/audit/run`; remembered after the first attempt.
+let auditJobsSupported: boolean | null = null;
+
+/** Runs an audit as a server-side job with progress events, falling back to `runAudit` on older backends. */
+export async function runAuditJob(file: File, config: AuditConfig, options: AuditJobOptions = {}) {
+  if (auditJobsSupported !== false) {
+    let job: AuditJob | null = null;
+    try {
+      const body = auditFormData(file, config, options.references);
+      const text = await upload("/audit/jobs", body, { timeoutMs: 0, ...options });
+      job = parsePayload<AuditJob>("/audit/jobs", text, auditJobValidator);
+      auditJobsSupported = true;
+    } catch (error) {
+      if (!(error instanceof ApiError && (error.status === 404 || error.status === 405))) throw error;
+      auditJobsSupported = false;
+    }
+    if (job) return followAuditJob(job.job_id, options);
   }
-  return (await response.json()) as T;
+  return runAudit(file, config, options);
 }
@@ -0,0 +1,176 @@
+import { AuditReport } from "@/types/audit";
+import { SkippedRule } from "@/lib/localAudit";
+import { describeComparedMetrics, describeMetric, formatMetricValue } from "@/lib/anomalies";
+import { issueCategoryLabels } from "@/lib/issues";
+import { QualityScore, computeQualityScore, formatScore, qualityDimensions } from "@/lib/qualityScore";
+
+export interface GateOptions {
+  /** Overrides the config's pass threshold. */
+  minScore?: number;
+  /** Rules the local engine could not evaluate; error-severity ones fail the gate rather than pass silently. */
+  skippedRules?: SkippedRule[];
+}
+
+export interface GateResult {
+  passed: boolean;
+  /** One line per reason the gate failed; empty when it passed. */
+  failures: string[];
+  score: QualityScore;
+}
+
+// Skipped checks carry only a name, which may be a rule's, a cross-field constraint's or a foreign key's.
+const ruleSeverity = (report: AuditReport, name: string) => {
+  const { config } = report;
+  const checks = [...config.rules, ...(config.cross_field_constraints ?? []), ...(config.foreign_keys ?? [])];
+  return checks.find((check) => check.name === name)?.severity ?? "error";
+};
+
+/**
+ * The CI verdict: fails on any failing error-severity rule, cross-field constraint or foreign key, any
+ * error-severity baseline anomaly, or a quality score below the threshold.
+ */
+export function evaluateGate(report: AuditReport, options: GateOptions = {}): GateResult {
+  const computed = computeQualityScore(report);
+  const threshold = options.minScore ?? computed.threshold;
+  const score = {
+    ...computed,
+    threshold,
+    passed: computed.overall === null ? null : computed.overall >= threshold,
+  };
+
+  const failures = report.rule_results
+    .filter((rule) => rule.severity === "error" && !rule.passed)
+    .map((rule) => `Rule "${rule.name}" failed on ${rule.failing_rows.toLocaleString()} rows`);
+  (report.cross_field_results ?? [])
+    .filter((result) => result.severity === "error" && !result.passed)
+    .forEach((result) =>
+      failures.push(`Constraint "${result.name}" failed on ${result.failing_rows.toLocaleString()} rows`),
+    );
+  (report.foreign_key_results ?? [])
+    .filter((result) => result.severity === "error" && result.orphan_count > 0)
+    .forEach((result) =>
+      failures.push(`Foreign key "${result.name}" has ${result.orphan_count.toLocaleString()} orphan rows`),
+    );
+  (report.baseline_comparison?.anomalies ?? [])
+    .filter((anomaly) => anomaly.severity === "error")
+    .forEach((anomaly) =>
+      failures.push(
+        `Anomaly: ${describeMetric(anomaly)} is ${formatMetricValue(anomaly.metric, anomaly.observed)}, against a baseline of ${formatMetricValue(anomaly.metric, anomaly.expected)}`,
+      ),
+    );
+  (options.skippedRules ?? [])
+    .filter((rule) => ruleSeverity(report, rule.name) === "error")
+    .forEach((rule) => failures.push(`Rule "${rule.name}" could not be evaluated: ${rule.reason}`));
+  if (score.passed === false) {
+    failures.push(`Quality score ${formatScore(score.overall)} is below the threshold of ${threshold}`);
+  }
+  return { passed: !failures.length, failures, score };
+}
+
+/** Plain-text summary for CI logs. */
+export function formatSummary(report: AuditReport, gate: GateResult, skippedRules: SkippedRule[] = []): string {
+  const { summary } = report;
+  const lines = [
+    `Data quality audit: ${summary.dataset_name}`,
+    `Source ${report.source_file} · ${summary.row_count.toLocaleString()} rows × ${summary.column_count} columns · engine ${summary.engine_used}`,
+    `Issues found: ${summary.issues_found.toLocaleString()}`,
+    "",
+    `Quality score: ${formatScore(gate.score.overall)} (threshold ${gate.score.threshold})`,
+    ...qualityDimensions.map(
+      ({ key, label }) => `  ${label.padEnd(14)} ${formatScore(gate.score.dimensions[key]).padStart(5)}`,
+    ),
+  ];
+
+  const schemaProblems = report.schema_results.filter((item) => item.status !== "ok");
+  if (schemaProblems.length) {
+    lines.push("", "Schema:");
+    schemaProblems.forEach((item) =>
+      lines.push(
+        item.status === "missing"
+          ? `  ${item.field}: missing`
+          : `  ${item.field}: expected ${item.expected_dtype}, found ${item.actual_dtype ?? "n/a"}`,
+      ),
+    );
+  }
+
+  const missing = report.missing_values.filter((item) => item.missing_count > 0);
+  if (missing.length) {
+    lines.push("", "Missing values:");
+    missing.forEach((item) =>
+      lines.push(`  ${item.column}: ${item.missing_count.toLocaleString()} (${item.missing_pct.toFixed(1)}%)`),
+    );
+  }
+
+  if (report.rule_results.length || skippedRules.length) {
+    lines.push("", "Rules:");
+    report.rule_results.forEach((rule) =>
+      lines.push(
+        `  [${rule.passed ? "PASS" : "FAIL"}] ${rule.name} (${rule.severity})${rule.passed ? "" : `: ${rule.failing_rows.toLocaleString()} rows`}`,
+      ),
+    );
+    skippedRules.forEach((rule) =>
+      lines.push(`  [SKIP] ${rule.name} (${ruleSeverity(report, rule.name)}): ${rule.reason}`),
+    );
+  }
+
+  const constraints = (report.constraint_results ?? []).filter((result) => !result.passed);
+  if (constraints.length) {
+    lines.push("", "Column constraints:");
+    constraints.forEach((result) =>
+      lines.push(
+        `  ${result.column}: ${issueCategoryLabels[result.constraint]}, ${result.failing_rows.toLocaleString()} rows`,
+      ),
+    );
+  }
+
+  const crossField = (report.cross_field_results ?? []).filter((result) => !result.passed);
+  if (crossField.length) {
+    lines.push("", "Cross-field constraints:");
+    crossField.forEach((result) =>
+      lines.push(
+        `  ${result.name} (${result.severity}): ${result.details ?? result.type}, ${result.failing_rows.toLocaleString()} rows`,
+      ),
+    );
+  }
+
+  const foreignKeys = report.foreign_key_results ?? [];
+  if (foreignKeys.length) {
+    lines.push("", "Foreign keys:");
+    foreignKeys.forEach((result) => {
+      lines.push(
+        `  [${result.orphan_count ? "FAIL" : "PASS"}] ${result.column} → ${result.reference}: ${result.orphan_count.toLocaleString()} of ${result.checked_rows.toLocaleString()} rows orphaned`,
+      );
+      if (result.top_missing_keys.length) {
+        lines.push(`    missing: ${result.top_missing_keys.map((key) => `${key.value} (${key.count})`).join(", ")}`);
+      }
+    });
+  }
+
+  const comparison = report.baseline_comparison;
+  if (comparison) {
+    const runs = comparison.baseline_report_ids.length;
+    lines.push("", `Baseline anomalies (${comparison.method}, ${runs} earlier report${runs === 1 ? "" : "s"}):`);
+    if (!comparison.metrics_checked) lines.push("  not enough history to compare with");
+    else lines.push(`  ${describeComparedMetrics(comparison)}`);
+    comparison.anomalies.forEach((anomaly) =>
+      lines.push(
+        `  ${describeMetric(anomaly)} (${anomaly.severity}): ${formatMetricValue(anomaly.metric, anomaly.observed)}, baseline ${formatMetricValue(anomaly.metric, anomaly.expected)}, score ${anomaly.score.toFixed(1)}`,
+      ),
+    );
+    if (comparison.metrics_checked && !comparison.anomalies.length) {
+      lines.push(`  none among ${comparison.metrics_checked} metrics`);
+    }
+  }
+
+  const pk = report.primary_key_result;
+  if (pk && (pk.duplicate_count || pk.null_count)) {
+    lines.push(
+      "",
+      `Primary key (${pk.columns.join(", ")}): ${pk.duplicate_count.toLocaleString()} duplicate, ${pk.null_count.toLocaleString()} null`,
+    );
+  }
+
+  lines.push("", gate.passed ? "Result: PASSED" : "Result: FAILED");
+  gate.failures.forEach((failure) => lines.push(`  - ${failure}`));
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,153 @@
+import { AuditConfig, AuditProgressState, AuditReport } from "@/types/audit";
+import { isAbortError, isNetworkError, runAuditJob } from "@/lib/api";
+import { runLocalAudit } from "@/lib/localAudit";
+import { resolveReferences } from "@/lib/referenceData";
+
+export type QueueStatus = "queued" | "running" | "done" | "failed";
+
+/** The config an audit runs with: a config library profile, or the form's config (`id` null) when queued. */
+export interface QueueProfile {
+  id: string | null;
+  name: string;
+  config: AuditConfig;
+}
+
+export interface QueuedAudit {
+  id: string;
+  file: File;
+  profile: QueueProfile;
+  status: QueueStatus;
+  progress: AuditProgressState | null;
+  report: AuditReport | null;
+  /** Audited in the browser because the backend was unreachable; the report is not in history. */
+  offline: boolean;
+  error: string | null;
+}
+
+export interface QueueState {
+  jobs: QueuedAudit[];
+  /** How many audits run at the same time. */
+  concurrency: number;
+  /** Paused queues finish what is running but start nothing new. */
+  paused: boolean;
+}
+
+export const MAX_QUEUE_CONCURRENCY = 4;
+
+const listeners = new Set<() => void>();
+const controllers = new Map<string, AbortController>();
+let state: QueueState = { jobs: [], concurrency: 2, paused: true };
+
+/** Snapshot for `useSyncExternalStore`; replaced on every change. */
+export const getQueue = () => state;
+
+export function subscribeQueue(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function setState(next: Partial<QueueState>) {
+  state = { ...state, ...next };
+  listeners.forEach((listener) => listener());
+}
+
+function updateJob(id: string, patch: Partial<QueuedAudit>) {
+  setState({ jobs: state.jobs.map((job) => (job.id === id ? { ...job, ...patch } : job)) });
+}
+
+async function run(job: QueuedAudit) {
+  const controller = new AbortController();
+  controllers.set(job.id, controller);
+  const stages = () => state.jobs.find((item) => item.id === job.id)?.progress?.stages ?? [];
+  updateJob(job.id, { status: "running", progress: { upload: 0, stages: [] }, report: null, error: null });
+  try {
+    let report: AuditReport;
+    let offline = false;
+    // Reference files are looked up when the audit starts, so files attached after queueing are still used.
+    const references = resolveReferences(job.profile.config);
+    try {
+      report = await runAuditJob(job.file, job.profile.config, {
+        references,
+        signal: controller.signal,
+        onUploadProgress: (upload) => updateJob(job.id, { progress: { upload, stages: stages() } }),
+        onStage: (stage) => updateJob(job.id, { progress: { upload: 1, stages: [...stages(), stage] } }),
+      });
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      report = (await runLocalAudit(job.file, job.profile.config, references, controller.signal)).report;
+      offline = true;
+    }
+    updateJob(job.id, { status: "done", progress: null, report, offline });
+  } catch (error) {
+    updateJob(job.id, {
+      status: "failed",
+      progress: null,
+      error: isAbortError(error) ? "Cancelled" : (error as Error).message,
+    });
+  } finally {
+    controllers.delete(job.id);
+    pump();
+  }
+}
+
+/** Starts queued audits, oldest first, until the concurrency limit is reached. */
+function pump() {
+  if (state.paused) return;
+  const running = state.jobs.filter((job) => job.status === "running").length;
+  state.jobs
+    .filter((job) => job.status === "queued")
+    .slice(0, Math.max(state.concurrency - running, 0))
+    .forEach((job) => void run(job));
+}
+
+const snapshot = (profile: QueueProfile): QueueProfile => ({ ...profile, config: structuredClone(profile.config) });
+
+export function enqueueAudits(files: File[], profile: QueueProfile) {
+  const added = files.map<QueuedAudit>((file) => ({
+    id: crypto.randomUUID(),
+    file,
+    profile: snapshot(profile),
+    status: "queued",
+    progress: null,
+    report: null,
+    offline: false,
+    error: null,
+  }));
+  setState({ jobs: [...state.jobs, ...added] });
+  pump();
+}
+
+/** Changes the config of an audit that has not started (or has failed and will be retried). */
+export function setJobProfile(id: string, profile: QueueProfile) {
+  const job = state.jobs.find((item) => item.id === id);
+  if (!job || job.status === "running" || job.status === "done") return;
+  updateJob(id, { profile: snapshot(profile) });
+}
+
+export function retryJob(id: string) {
+  updateJob(id, { status: "queued", error: null });
+  pump();
+}
+
+export const cancelJob = (id: string) => controllers.get(id)?.abort();
+
+export function removeJob(id: string) {
+  cancelJob(id);
+  setState({ jobs: state.jobs.filter((job) => job.id !== id) });
+}
+
+export function clearFinished() {
+  setState({ jobs: state.jobs.filter((job) => job.status !== "done") });
+}
+
+export function setQueueConcurrency(concurrency: number) {
+  setState({ concurrency: Math.min(Math.max(Math.round(concurrency), 1), MAX_QUEUE_CONCURRENCY) });
+  pump();
+}
+
+export function setQueuePaused(paused: boolean) {
+  setState({ paused });
+  pump();
+}
@@ -0,0 +1,60 @@
+import { AuditConfig } from "@/types/audit";
+import { ValidationIssue, strictAuditConfigValidator, validate } from "@/lib/validation";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+
+export type ConfigFileFormat = "json" | "yaml";
+
+export const CONFIG_FILE_ACCEPT = ".json,.yaml,.yml";
+
+export const configFileFormat = (fileName: string): ConfigFileFormat =>
+  /\.ya?ml$/i.test(fileName) ? "yaml" : "json";
+
+/** Drops UI-only and empty optional keys so exported files diff cleanly in git. */
+export function toPortableConfig(config: AuditConfig): AuditConfig {
+  return {
+    dataset_name: config.dataset_name,
+    primary_key: config.primary_key ?? [],
+    schema: config.schema.map(
+      (field) =>
+        Object.fromEntries(
+          Object.entries(field).filter(
+            ([key, value]) =>
+              key !== "isCustom" && value !== undefined && value !== "" && !(Array.isArray(value) && !value.length),
+          ),
+        ) as AuditConfig["schema"][number],
+    ),
+    rules: config.rules.map(({ description, ...rule }) => (description ? { ...rule, description } : rule)),
+    ...(config.cross_field_constraints?.length
+      ? {
+          cross_field_constraints: config.cross_field_constraints.map(({ description, ...constraint }) =>
+            description ? { ...constraint, description } : constraint,
+          ),
+        }
+      : {}),
+    ...(config.foreign_keys?.length ? { foreign_keys: config.foreign_keys } : {}),
+    ...(config.scoring ? { scoring: config.scoring } : {}),
+    ...(config.anomaly_detection ? { anomaly_detection: config.anomaly_detection } : {}),
+  };
+}
+
+export function serializeConfig(config: AuditConfig, format: ConfigFileFormat): string {
+  const portable = toPortableConfig(config);
+  if (format === "yaml") return stringifyYaml(portable);
+  return `${JSON.stringify(portable, null, 2)}\n`;
+}
+
+export type ParsedConfigFile = { config: AuditConfig; errors: [] } | { config: null; errors: ValidationIssue[] };
+
+export function parseConfigFile(text: string, fileName: string): ParsedConfigFile {
+  const format = configFileFormat(fileName);
+  let data: unknown;
+  try {
+    data = format === "yaml" ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    const message = `invalid ${format.toUpperCase()}: ${(error as Error).message}`;
+    return { config: null, errors: [{ path: "(file)", message }] };
+  }
+  const errors = validate(data, strictAuditConfigValidator);
+  if (errors.length) return { config: null, errors };
+  return { config: data as AuditConfig, errors: [] };
+}
@@ -0,0 +1,163 @@
+import { AuditConfig } from "@/types/audit";
+import { toPortableConfig } from "@/lib/configFile";
+import { auditConfigValidator, isString, shape, validate } from "@/lib/validation";
+
+export interface ConfigProfile {
+  id: string;
+  name: string;
+  config: AuditConfig;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProfileSuggestion {
+  profile: ConfigProfile;
+  reason: string;
+}
+
+const STORAGE_KEY = "dqa.configProfiles.v1";
+// A profile is suggested when this share of its schema columns is present in the file.
+const COLUMN_MATCH_THRESHOLD = 0.8;
+
+const profileValidator = shape({
+  id: isString,
+  name: isString,
+  config: auditConfigValidator,
+  created_at: isString,
+  updated_at: isString,
+});
+
+const EMPTY: ConfigProfile[] = [];
+const listeners = new Set<() => void>();
+let cache: ConfigProfile[] | null = null;
+
+function readStorage(): ConfigProfile[] {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const data: unknown = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(data)) return [];
+    // Entries written by an older build that no longer validate are dropped rather than crashing the form.
+    return data.filter((item) => !validate(item, profileValidator).length) as ConfigProfile[];
+  } catch {
+    return [];
+  }
+}
+
+/** Snapshot for `useSyncExternalStore`; stable between writes so React can bail out of re-renders. */
+export function getProfiles(): ConfigProfile[] {
+  if (typeof window === "undefined") return EMPTY;
+  cache ??= readStorage();
+  return cache;
+}
+
+export const getServerProfiles = () => EMPTY;
+
+export function subscribeProfiles(listener: () => void) {
+  listeners.add(listener);
+  // Keeps several open windows in step when one of them edits the library.
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY) return;
+    cache = null;
+    listener();
+  };
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+function persist(profiles: ConfigProfile[]) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  cache = profiles;
+  listeners.forEach((listener) => listener());
+}
+
+const uniqueName = (profiles: ConfigProfile[], name: string) => {
+  const taken = new Set(profiles.map((profile) => profile.name));
+  if (!taken.has(name)) return name;
+  let suffix = 2;
+  while (taken.has(`${name} (${suffix})`)) suffix += 1;
+  return `${name} (${suffix})`;
+};
+
+export function saveProfile(name: string, config: AuditConfig): ConfigProfile {
+  const profiles = getProfiles();
+  const now = new Date().toISOString();
+  const profile: ConfigProfile = {
+    id: crypto.randomUUID(),
+    name: uniqueName(profiles, name.trim() || config.dataset_name),
+    config: toPortableConfig(config),
+    created_at: now,
+    updated_at: now,
+  };
+  persist([...profiles, profile]);
+  return profile;
+}
+
+export function updateProfileConfig(id: string, config: AuditConfig) {
+  const now = new Date().toISOString();
+  persist(
+    getProfiles().map((profile) =>
+      profile.id === id ? { ...profile, config: toPortableConfig(config), updated_at: now } : profile,
+    ),
+  );
+}
+
+export function renameProfile(id: string, name: string) {
+  const profiles = getProfiles();
+  const others = profiles.filter((profile) => profile.id !== id);
+  const now = new Date().toISOString();
+  persist(
+    profiles.map((profile) =>
+      profile.id === id ? { ...profile, name: uniqueName(others, name.trim() || profile.name), updated_at: now } : profile,
+    ),
+  );
+}
+
+export function duplicateProfile(id: string) {
+  const source = getProfiles().find((profile) => profile.id === id);
+  if (source) saveProfile(`${source.name} copy`, source.config);
+}
+
+export function deleteProfile(id: string) {
+  persist(getProfiles().filter((profile) => profile.id !== id));
+}
+
+const normalizeName = (value: string) =>
+  value
+    .replace(/\.[^.]+$/, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+
+/**
+ * Picks the saved profile that best fits an uploaded file: an exact dataset name match wins,
+ * otherwise the profile whose schema columns are best covered by the file's columns.
+ */
+export function suggestProfile(
+  profiles: ConfigProfile[],
+  fileName: string,
+  columns: string[],
+): ProfileSuggestion | null {
+  const stem = normalizeName(fileName);
+  const byName = profiles.find((profile) => stem && normalizeName(profile.config.dataset_name) === stem);
+  if (byName) {
+    return { profile: byName, reason: `dataset name matches "${fileName}"` };
+  }
+
+  const available = new Set(columns);
+  let best: { profile: ConfigProfile; matched: number; total: number; score: number } | null = null;
+  for (const profile of profiles) {
+    const total = profile.config.schema.length;
+    if (!total) continue;
+    const matched = profile.config.schema.filter((field) => available.has(field.name)).length;
+    const score = matched / total;
+    if (score >= COLUMN_MATCH_THRESHOLD && (!best || score > best.score)) {
+      best = { profile, matched, total, score };
+    }
+  }
+  if (!best) return null;
+  const { profile, matched, total } = best;
+  return { profile, reason: `${matched} of ${total} schema columns found in the file` };
+}
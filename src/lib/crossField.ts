@@ -0,0 +1,132 @@
+import { ComparisonOperator, CrossFieldConstraint, CrossFieldType, DataType, SchemaField } from "@/types/audit";
+import { isNullValue, parseDateValue, parseNumberValue, toComparable } from "@/lib/values";
+
+export const crossFieldTypeLabels: Record<CrossFieldType, string> = {
+  required_if: "Required when",
+  compare: "Compare columns",
+  sum_equals: "Sum equals total",
+  mutually_exclusive: "Mutually exclusive",
+};
+
+export const comparisonOperators: ComparisonOperator[] = ["<", "<=", "=", "!=", ">=", ">"];
+
+/** Every column the constraint reads, without duplicates. */
+export function crossFieldColumns(constraint: CrossFieldConstraint): string[] {
+  switch (constraint.type) {
+    case "required_if":
+      return Array.from(new Set([constraint.column, constraint.when_column]));
+    case "compare":
+      return Array.from(new Set([constraint.left, constraint.right]));
+    case "sum_equals":
+      return Array.from(new Set([...constraint.columns, constraint.total]));
+    case "mutually_exclusive":
+      return Array.from(new Set(constraint.columns));
+  }
+}
+
+/** One-line statement of what the constraint requires, e.g. `start_date <= end_date`. */
+export function describeCrossField(constraint: CrossFieldConstraint): string {
+  switch (constraint.type) {
+    case "required_if":
+      return constraint.when_values.length
+        ? `${constraint.column} required when ${constraint.when_column} is ${constraint.when_values.join(" or ")}`
+        : `${constraint.column} required when ${constraint.when_column} is filled in`;
+    case "compare":
+      return `${constraint.left} ${constraint.operator} ${constraint.right}`;
+    case "sum_equals":
+      return `${constraint.columns.join(" + ")} = ${constraint.total}${constraint.tolerance ? ` (±${constraint.tolerance})` : ""}`;
+    case "mutually_exclusive":
+      return `at most one of ${constraint.columns.join(", ")}`;
+  }
+}
+
+/** A fresh constraint of `type`, prefilled with the first columns so the builder starts from something valid. */
+export function newCrossFieldConstraint(type: CrossFieldType, columns: string[], name: string): CrossFieldConstraint {
+  const [first = "", second = "", third = ""] = columns;
+  const base = { name, severity: "error" as const };
+  switch (type) {
+    case "required_if":
+      return { ...base, type, column: first, when_column: second, when_values: [] };
+    case "compare":
+      return { ...base, type, left: first, operator: "<=", right: second };
+    case "sum_equals":
+      return { ...base, type, columns: [first, second].filter(Boolean), total: third };
+    case "mutually_exclusive":
+      return { ...base, type, columns: [first, second].filter(Boolean) };
+  }
+}
+
+const compareNumbers = (left: number, operator: ComparisonOperator, right: number) => {
+  switch (operator) {
+    case "<":
+      return left < right;
+    case "<=":
+      return left <= right;
+    case "=":
+      return left === right;
+    case "!=":
+      return left !== right;
+    case ">=":
+      return left >= right;
+    case ">":
+      return left > right;
+  }
+};
+
+// Columns declared numeric or datetime compare that way; otherwise numbers, then dates, are tried per value.
+const comparable = (value: string, dtype: DataType | undefined) =>
+  dtype === "integer" || dtype === "float" || dtype === "datetime"
+    ? toComparable(value, dtype)
+    : (parseNumberValue(value) ?? parseDateValue(value));
+
+type Row = Record<string, string>;
+
+/**
+ * Row predicate that is true when the row violates the constraint. Values that cannot be read as numbers
+ * or dates are left to the schema check rather than counted twice.
+ */
+export function crossFieldViolation(constraint: CrossFieldConstraint, schema: SchemaField[]): (row: Row) => boolean {
+  const dtypeOf = (column: string) => schema.find((field) => field.name === column)?.dtype;
+  switch (constraint.type) {
+    case "required_if": {
+      const values = new Set(constraint.when_values.map((value) => value.trim()));
+      return (row) => {
+        const trigger = row[constraint.when_column];
+        if (isNullValue(trigger)) return false;
+        return (!values.size || values.has(trigger.trim())) && isNullValue(row[constraint.column]);
+      };
+    }
+    case "compare": {
+      const dtype = dtypeOf(constraint.left) ?? dtypeOf(constraint.right);
+      return (row) => {
+        const left = row[constraint.left];
+        const right = row[constraint.right];
+        if (isNullValue(left) || isNullValue(right)) return false;
+        const a = comparable(left, dtype);
+        const b = comparable(right, dtype);
+        if (a !== null && b !== null) return !compareNumbers(a, constraint.operator, b);
+        // Text can only be checked for equality.
+        if (constraint.operator === "=") return left.trim() !== right.trim();
+        if (constraint.operator === "!=") return left.trim() === right.trim();
+        return false;
+      };
+    }
+    case "sum_equals": {
+      const tolerance = constraint.tolerance ?? 0;
+      return (row) => {
+        if (isNullValue(row[constraint.total])) return false;
+        const total = parseNumberValue(row[constraint.total]);
+        const addends = constraint.columns.map((column) =>
+          isNullValue(row[column]) ? 0 : parseNumberValue(row[column]),
+        );
+        if (total === null || addends.some((value) => value === null)) return false;
+        const sum = addends.reduce<number>((acc, value) => acc + (value ?? 0), 0);
+        // Absorbs binary floating-point error, e.g. 0.1 + 0.2 against 0.3.
+        const epsilon = 1e-9 * Math.max(1, Math.abs(total));
+        return Math.abs(sum - total) > tolerance + epsilon;
+      };
+    }
+    case "mutually_exclusive":
+      return (row) => constraint.columns.filter((column) => !isNullValue(row[column])).length > 1;
+  }
+}
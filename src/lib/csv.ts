@@ -0,0 +1,167 @@
+import { dataFileSize, readFileContents } from "@/lib/nativeFiles";
+
+export interface ParsedTable {
+  columns: string[];
+  rows: Record<string, string>[];
+  /** Line in the source file each row started on (1-based, header is line 1). */
+  lines: number[];
+  delimiter: string;
+}
+
+export interface ParseOptions {
+  delimiter?: string;
+  /** Stop after this many data rows. */
+  maxRows?: number;
+}
+
+const CANDIDATE_DELIMITERS = [",", "\t", ";", "|"];
+
+export function detectDelimiter(text: string, fileName?: string): string {
+  if (fileName && /\.tsv$/i.test(fileName)) return "\t";
+  const newline = text.indexOf("\n");
+  const firstLine = newline === -1 ? text : text.slice(0, newline);
+  let best = ",";
+  let bestCount = 0;
+  CANDIDATE_DELIMITERS.forEach((candidate) => {
+    const count = firstLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+/** RFC 4180 parser: quoted fields may contain delimiters, doubled quotes and newlines. */
+export function parseDelimited(text: string, options: ParseOptions = {}): ParsedTable {
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const delimiter = options.delimiter ?? detectDelimiter(source);
+  const maxRows = options.maxRows ?? Infinity;
+
+  const records: string[][] = [];
+  const recordLines: number[] = [];
+  let field = "";
+  let record: string[] = [];
+  let inQuotes = false;
+  let line = 1;
+  let recordStart = 1;
+
+  const endRecord = () => {
+    record.push(field);
+    field = "";
+    // Skip blank lines rather than treating them as a row of one empty cell.
+    if (record.length > 1 || record[0] !== "") {
+      records.push(record);
+      recordLines.push(recordStart);
+    }
+    record = [];
+  };
+
+  for (let i = 0; i < source.length && records.length <= maxRows; i += 1) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (source[i + 1] === '"') {
+          field += '"';
+          i += 1;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === "\n") line += 1;
+        field += char;
+      }
+      continue;
+    }
+    if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i += 1;
+      endRecord();
+      line += 1;
+      recordStart = line;
+    } else {
+      field += char;
+    }
+  }
+  if ((field !== "" || record.length) && records.length <= maxRows) endRecord();
+
+  const [header = [], ...body] = records;
+  const columns = header.map((name, idx) => name.trim() || `column_${idx + 1}`);
+  const data = body.slice(0, maxRows);
+  const rows = data.map((values) => {
+    const row: Record<string, string> = {};
+    columns.forEach((column, idx) => {
+      row[column] = values[idx] ?? "";
+    });
+    return row;
+  });
+  return { columns, rows, lines: recordLines.slice(1, data.length + 1), delimiter };
+}
+
+const needsQuoting = (value: string, delimiter: string) =>
+  value.includes(delimiter) || value.includes('"') || value.includes("\n") || value.includes("\r");
+
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Guards a cell bound for a spreadsheet against CSV injection: text starting like a formula gets a leading `'`,
+ * which Excel and LibreOffice read as "this is text" and do not show.
+ */
+export const escapeFormula = (cell: string | number) =>
+  typeof cell === "string" && FORMULA_PREFIX.test(cell) ? `'${cell}` : cell;
+
+/** Writes rows back out as RFC 4180 text, quoting only the fields that need it. */
+export function formatDelimited(rows: Array<Array<string | number>>, delimiter = ","): string {
+  return rows
+    .map((cells) =>
+      cells
+        .map((cell) => {
+          const text = String(cell);
+          return needsQuoting(text, delimiter) ? `"${text.replace(/"/g, '""')}"` : text;
+        })
+        .join(delimiter),
+    )
+    .join("\r\n");
+}
+
+export const isDelimitedFile = (fileName: string) => /\.(csv|tsv|txt)$/i.test(fileName);
+
+export async function readDelimitedFile(file: File, options: Omit<ParseOptions, "delimiter"> = {}): Promise<ParsedTable> {
+  if (!isDelimitedFile(file.name)) {
+    throw new Error(`${file.name}: only CSV and TSV files can be read in the browser.`);
+  }
+  const text = await (await readFileContents(file)).text();
+  return parseDelimited(text, { ...options, delimiter: detectDelimiter(text, file.name) });
+}
+
+const HEAD_BYTES = 256 * 1024;
+
+/**
+ * Parses the first bytes of a file. When they are not the whole file (`truncated`), the last row was almost
+ * certainly cut in half and is dropped.
+ */
+export function parseDelimitedHead(head: string, fileName: string, truncated: boolean, maxRows: number) {
+  const table = parseDelimited(head, { delimiter: detectDelimiter(head, fileName), maxRows });
+  if (truncated && table.rows.length && table.rows.length < maxRows) {
+    table.rows.pop();
+    table.lines.pop();
+  }
+  return table;
+}
+
+/** Parses the start of the file only, for column lists and previews without loading everything. */
+export async function readDelimitedHead(file: File, maxRows: number, bytes = HEAD_BYTES): Promise<ParsedTable> {
+  if (!isDelimitedFile(file.name)) {
+    throw new Error(`${file.name}: only CSV and TSV files can be read in the browser.`);
+  }
+  const head = await readFileContents(file, bytes);
+  return parseDelimitedHead(await head.text(), file.name, dataFileSize(file) > head.size, maxRows);
+}
+
+export async function readDelimitedColumns(file: File): Promise<string[]> {
+  return (await readDelimitedHead(file, 0)).columns;
+}
@@ -0,0 +1,22 @@
+import { isDesktop, saveNativeFile } from "@/lib/nativeFiles";
+
+// Long enough for the browser to start reading the blob; FileSaver.js waits as long.
+const REVOKE_DELAY_MS = 40_000;
+
+/** Saves content as a file: through the native save dialog in the desktop app, otherwise as a browser download. */
+export function downloadBlob(content: string | Uint8Array<ArrayBuffer>, fileName: string, type: string) {
+  if (isDesktop()) {
+    saveNativeFile(content, fileName).catch((error) => {
+      console.error(`Failed to save ${fileName}`, error);
+      window.alert(`Could not save ${fileName}: ${error instanceof Error ? error.message : String(error)}`);
+    });
+    return;
+  }
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking straight after the click can cancel the download in Safari and older Firefox.
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
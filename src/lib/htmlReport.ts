@@ -0,0 +1,295 @@
+import { AuditReport, MissingValueStat } from "@/types/audit";
+import { describeComparedMetrics, describeMetric, formatMetricValue } from "@/lib/anomalies";
+import { downloadBlob } from "@/lib/download";
+import { issueCategoryLabels, issueIndicators, issueTarget, issueValue, reportIssues } from "@/lib/issues";
+import { computeQualityScore, formatScore, qualityDimensions } from "@/lib/qualityScore";
+
+// Enough failing rows to show the pattern without turning the document into a data dump.
+const MAX_SAMPLE_ISSUES = 100;
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 32px; font: 14px/1.5 -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #1f2430; background: #f6f7fb; }
+  main { max-width: 960px; margin: 0 auto; background: #fff; border-radius: 16px; padding: 32px; box-shadow: 0 10px 30px rgba(15, 20, 40, 0.08); }
+  h1 { margin: 0 0 4px; font-size: 26px; }
+  h2 { margin: 32px 0 12px; font-size: 18px; border-bottom: 2px solid #8A4DFF; padding-bottom: 4px; }
+  .meta { color: #5b6270; font-size: 12px; }
+  .eyebrow { text-transform: uppercase; letter-spacing: 0.3em; font-size: 11px; color: #8A4DFF; margin: 0 0 8px; }
+  .cards { display: grid; grid-template-columns: repeat(4, 1fr); gap: 12px; }
+  .card { border: 1px solid #e4e6ef; border-radius: 12px; padding: 12px; text-align: center; }
+  .card .label { text-transform: uppercase; letter-spacing: 0.2em; font-size: 10px; color: #5b6270; }
+  .card .value { font-size: 24px; font-weight: 700; }
+  .score { display: grid; grid-template-columns: 180px 1fr; gap: 16px; align-items: center; margin-top: 12px; border: 1px solid #e4e6ef; border-radius: 12px; padding: 16px; }
+  .score .overall { text-align: center; font-size: 44px; font-weight: 700; }
+  .dimension { display: grid; grid-template-columns: 120px 1fr 48px; gap: 8px; align-items: center; font-size: 12px; margin: 4px 0; }
+  .bar { height: 8px; border-radius: 4px; background: #eceef5; overflow: hidden; }
+  .bar span { display: block; height: 100%; background: linear-gradient(90deg, #00c98a, #8A4DFF); }
+  .pass { color: #047857; } .fail { color: #be123c; } .warn { color: #b45309; }
+  .badge { display: inline-block; border-radius: 4px; padding: 1px 6px; font-size: 11px; }
+  .badge.error { background: #ffe4e6; color: #be123c; } .badge.warning { background: #fef3c7; color: #b45309; }
+  .badge.info { background: #dbeafe; color: #1d4ed8; } .badge.ok { background: #d1fae5; color: #047857; }
+  .indicators { display: grid; grid-template-columns: repeat(2, 1fr); gap: 8px; }
+  .indicator { border-left: 4px solid; border-radius: 8px; padding: 6px 10px; background: #fafbfe; }
+  .indicator.error { border-color: #e11d48; } .indicator.warning { border-color: #d97706; } .indicator.info { border-color: #2563eb; }
+  .indicator .label { text-transform: uppercase; letter-spacing: 0.15em; font-size: 10px; color: #5b6270; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th { text-align: left; text-transform: uppercase; font-size: 10px; letter-spacing: 0.05em; color: #5b6270; background: #f3f4f9; }
+  th, td { padding: 6px 8px; border-bottom: 1px solid #eceef5; vertical-align: top; }
+  td.mono, .mono { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }
+  .record { color: #5b6270; word-break: break-all; }
+  .record b { color: #be123c; font-weight: 600; }
+  .empty { color: #8a90a0; font-style: italic; }
+  footer { margin-top: 32px; font-size: 11px; color: #8a90a0; text-align: center; }
+  @page { margin: 14mm; }
+  @media print {
+    body { background: #fff; padding: 0; }
+    main { box-shadow: none; padding: 0; max-width: none; }
+    h2 { break-after: avoid; }
+    tr, .card, .indicator, .score, svg { break-inside: avoid; }
+    thead { display: table-header-group; }
+    * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  }
+`;
+
+function missingChartSvg(items: MissingValueStat[]) {
+  if (!items.length) return `<p class="empty">No missing value issues detected.</p>`;
+  const labelWidth = 160;
+  const chartWidth = 440;
+  const rowHeight = 26;
+  const height = items.length * rowHeight + 24;
+  const max = Math.max(...items.map((item) => item.missing_pct), 5);
+  const bars = items
+    .map((item, idx) => {
+      const y = idx * rowHeight + 4;
+      const width = Math.max((item.missing_pct / max) * chartWidth, 1);
+      return `
+        <text x="${labelWidth - 8}" y="${y + 13}" text-anchor="end" font-size="11" fill="#1f2430">${escapeHtml(item.column)}</text>
+        <rect x="${labelWidth}" y="${y}" width="${width.toFixed(1)}" height="18" rx="9" fill="url(#missingBar)" />
+        <text x="${labelWidth + width + 6}" y="${y + 13}" font-size="11" fill="#5b6270">${item.missing_pct.toFixed(1)}% (${item.missing_count.toLocaleString()})</text>`;
+    })
+    .join("");
+  const axisY = items.length * rowHeight + 8;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="100%" viewBox="0 0 ${labelWidth + chartWidth + 120} ${height}" role="img" aria-label="Missing values by column">
+    <defs>
+      <linearGradient id="missingBar" x1="0" x2="1" y1="0" y2="0">
+        <stop offset="0%" stop-color="#00c98a" />
+        <stop offset="100%" stop-color="#8A4DFF" />
+      </linearGradient>
+    </defs>
+    ${bars}
+    <line x1="${labelWidth}" x2="${labelWidth + chartWidth}" y1="${axisY}" y2="${axisY}" stroke="#d5d8e3" />
+    <text x="${labelWidth}" y="${axisY + 14}" font-size="10" fill="#8a90a0">0%</text>
+    <text x="${labelWidth + chartWidth}" y="${axisY + 14}" font-size="10" text-anchor="end" fill="#8a90a0">${max.toFixed(1)}%</text>
+  </svg>`;
+}
+
+const table = (headers: string[], rows: string[][], empty: string) =>
+  rows.length
+    ? `<table><thead><tr>${headers.map((header) => `<th>${escapeHtml(header)}</th>`).join("")}</tr></thead>
+      <tbody>${rows.map((cells) => `<tr>${cells.map((cell) => `<td>${cell}</td>`).join("")}</tr>`).join("")}</tbody></table>`
+    : `<p class="empty">${escapeHtml(empty)}</p>`;
+
+const statusBadge = (passed: boolean, failedLabel: string) =>
+  `<span class="badge ${passed ? "ok" : "error"}">${escapeHtml(passed ? "Passed" : failedLabel)}</span>`;
+
+/** Renders a standalone HTML document: inline styles and SVG only, so it opens anywhere and prints cleanly. */
+export function renderReportHtml(report: AuditReport): string {
+  const { summary } = report;
+  const score = computeQualityScore(report);
+  const indicators = issueIndicators(report);
+  const issues = reportIssues(report);
+  const scoreClass = score.passed === null ? "" : score.passed ? "pass" : "fail";
+
+  const dimensions = qualityDimensions
+    .map(({ key, label }) => {
+      const value = score.dimensions[key];
+      return `<div class="dimension"><span>${label}</span><div class="bar"><span style="width:${value ?? 0}%"></span></div>
+        <span class="mono">${value === null ? "n/a" : formatScore(value)}</span></div>`;
+    })
+    .join("");
+
+  const indicatorHtml = indicators.length
+    ? `<div class="indicators">${indicators
+        .map(
+          (item) =>
+            `<div class="indicator ${item.severity}"><div class="label">${escapeHtml(item.label)}</div>${escapeHtml(item.detail)}</div>`,
+        )
+        .join("")}</div>`
+    : `<p class="empty">No active issues.</p>`;
+
+  const schemaRows = report.schema_results.map((item) => [
+    escapeHtml(item.field),
+    escapeHtml(item.expected_dtype),
+    escapeHtml(item.actual_dtype ?? "-"),
+    `<span class="badge ${item.status === "ok" ? "ok" : "error"}">${escapeHtml(item.status)}</span>`,
+  ]);
+  const ruleRows = report.rule_results.map((rule) => [
+    escapeHtml(rule.name),
+    `<span class="badge ${rule.severity}">${escapeHtml(rule.severity)}</span>`,
+    statusBadge(rule.passed, "Failed"),
+    rule.failing_rows.toLocaleString(),
+  ]);
+  const constraintRows = (report.constraint_results ?? []).map((result) => [
+    escapeHtml(result.column),
+    escapeHtml(result.details ?? result.constraint),
+    statusBadge(result.passed, issueCategoryLabels[result.constraint]),
+    result.failing_rows.toLocaleString(),
+  ]);
+  const crossFieldRows = (report.cross_field_results ?? []).map((result) => [
+    escapeHtml(result.name),
+    escapeHtml(result.details ?? result.type),
+    `<span class="badge ${result.severity}">${escapeHtml(result.severity)}</span>`,
+    statusBadge(result.passed, "Failed"),
+    result.failing_rows.toLocaleString(),
+  ]);
+  const foreignKeyHtml = (report.foreign_key_results ?? [])
+    .map((result) => {
+      const missingRows = result.top_missing_keys.map((key) => [
+        `<span class="mono">${escapeHtml(key.value)}</span>`,
+        key.count.toLocaleString(),
+      ]);
+      return `<p><b>${escapeHtml(result.name)}</b>: <span class="mono">${escapeHtml(result.column)}</span> →
+    <span class="mono">${escapeHtml(result.reference)}</span>,
+    <span class="${result.orphan_count ? "fail" : "pass"}">${result.orphan_count.toLocaleString()} orphan</span> of
+    ${result.checked_rows.toLocaleString()} rows checked.</p>
+  ${missingRows.length ? table(["Missing key", "Rows"], missingRows, "") : ""}`;
+    })
+    .join("");
+  const comparison = report.baseline_comparison;
+  const anomalyRows = (comparison?.anomalies ?? []).map((anomaly) => [
+    escapeHtml(describeMetric(anomaly)),
+    formatMetricValue(anomaly.metric, anomaly.observed),
+    formatMetricValue(anomaly.metric, anomaly.expected),
+    `<span class="mono">${anomaly.baseline.map((value) => formatMetricValue(anomaly.metric, value)).join(", ")}</span>`,
+    anomaly.score.toFixed(1),
+    `<span class="badge ${anomaly.severity}">${escapeHtml(anomaly.severity)}</span>`,
+  ]);
+  const pk = report.primary_key_result;
+
+  const issueRows = issues.slice(0, MAX_SAMPLE_ISSUES).map((issue) => [
+    `<span class="mono">${issue.row_id ?? "n/a"}</span>`,
+    escapeHtml(issueCategoryLabels[issue.category]),
+    escapeHtml(issueTarget(issue)),
+    `<span class="badge ${issue.severity}">${escapeHtml(issue.severity)}</span>`,
+    `<div>${escapeHtml(issueValue(issue))}</div>${
+      issue.record
+        ? `<div class="record mono">${Object.entries(issue.record)
+            .map(([column, value]) =>
+              issue.columns.includes(column)
+                ? `<b>${escapeHtml(column)}=${escapeHtml(value)}</b>`
+                : `${escapeHtml(column)}=${escapeHtml(value)}`,
+            )
+            .join(", ")}</div>`
+        : ""
+    }`,
+  ]);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(summary.dataset_name)} · Data quality report</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+  <p class="eyebrow">Data quality report</p>
+  <h1>${escapeHtml(summary.dataset_name)}</h1>
+  <p class="meta">
+    ${escapeHtml(new Date(summary.created_at).toLocaleString())} · Source ${escapeHtml(report.source_file)} ·
+    Engine ${escapeHtml(summary.engine_used)} · Report ${escapeHtml(report.id)}
+  </p>
+
+  <h2>Scorecard</h2>
+  <div class="cards">
+    <div class="card"><div class="label">Rows</div><div class="value">${summary.row_count.toLocaleString()}</div></div>
+    <div class="card"><div class="label">Columns</div><div class="value">${summary.column_count.toLocaleString()}</div></div>
+    <div class="card"><div class="label">Issues</div><div class="value">${summary.issues_found.toLocaleString()}</div></div>
+    <div class="card"><div class="label">Checks failed</div><div class="value">${indicators.length}</div></div>
+  </div>
+  <div class="score">
+    <div>
+      <div class="overall ${scoreClass}">${formatScore(score.overall)}</div>
+      <div class="meta" style="text-align:center">Quality score · threshold ${score.threshold}</div>
+    </div>
+    <div>${dimensions}</div>
+  </div>
+
+  <h2>Issue indicators</h2>
+  ${indicatorHtml}
+
+  <h2>Missing value analysis</h2>
+  ${missingChartSvg(report.missing_values)}
+
+  <h2>Schema validation</h2>
+  ${table(["Field", "Expected", "Actual", "Status"], schemaRows, "No schema fields configured.")}
+
+  <h2>Rule checks</h2>
+  ${table(["Rule", "Severity", "Status", "Failing rows"], ruleRows, "No rules configured.")}
+
+  ${crossFieldRows.length ? `<h2>Cross-field constraints</h2>${table(["Constraint", "Requires", "Severity", "Status", "Failing rows"], crossFieldRows, "")}` : ""}
+
+  ${constraintRows.length ? `<h2>Column constraints</h2>${table(["Column", "Constraint", "Status", "Failing rows"], constraintRows, "")}` : ""}
+
+  ${
+    pk
+      ? `<h2>Primary key</h2><p>Columns <span class="mono">${escapeHtml(pk.columns.join(", "))}</span>:
+    <span class="${pk.duplicate_count ? "fail" : "pass"}">${pk.duplicate_count.toLocaleString()} duplicate</span> and
+    <span class="${pk.null_count ? "fail" : "pass"}">${pk.null_count.toLocaleString()} null</span> key rows.</p>`
+      : ""
+  }
+
+  ${foreignKeyHtml ? `<h2>Referential integrity</h2>${foreignKeyHtml}` : ""}
+
+  ${
+    comparison
+      ? `<h2>Baseline anomalies</h2><p class="meta">Compared ${comparison.metrics_checked.toLocaleString()} metrics with
+    ${comparison.baseline_report_ids.length.toLocaleString()} earlier reports (${escapeHtml(comparison.method)}, threshold ${comparison.threshold}).
+    ${escapeHtml(describeComparedMetrics(comparison))}</p>
+  ${table(["Metric", "Observed", "Expected", "Baseline", "Score", "Severity"], anomalyRows, "No metric moved beyond the threshold.")}`
+      : ""
+  }
+
+  <h2>Sample failing rows</h2>
+  ${table(["Row", "Error type", "Rule / Column", "Severity", "Value"], issueRows, "No failing rows were sampled.")}
+  ${issues.length > MAX_SAMPLE_ISSUES ? `<p class="meta">Showing the first ${MAX_SAMPLE_ISSUES} of ${issues.length} sampled rows.</p>` : ""}
+
+  <footer>Generated by Data Quality Auditor on ${escapeHtml(new Date().toLocaleString())}</footer>
+</main>
+</body>
+</html>
+`;
+}
+
+const reportFileName = (report: AuditReport) =>
+  `${report.summary.dataset_name.replace(/[^\w.-]+/g, "_")}-${report.summary.created_at.slice(0, 10)}.html`;
+
+export function downloadReportHtml(report: AuditReport) {
+  downloadBlob(renderReportHtml(report), reportFileName(report), "text/html");
+}
+
+/** Prints the HTML report from a hidden frame, so "Save as PDF" in the print dialog yields the document. */
+export function printReportHtml(report: AuditReport) {
+  const frame = document.createElement("iframe");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    // Printing blocks until the dialog closes in most browsers; remove the frame afterwards.
+    setTimeout(() => frame.remove(), 1000);
+  };
+  frame.srcdoc = renderReportHtml(report);
+  document.body.appendChild(frame);
+}
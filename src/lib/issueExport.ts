@@ -0,0 +1,86 @@
+import { Issue } from "@/types/audit";
+import { escapeFormula, formatDelimited } from "@/lib/csv";
+import { downloadBlob } from "@/lib/download";
+import { issueCategoryLabels, issueValue } from "@/lib/issues";
+import { buildWorkbook } from "@/lib/xlsx";
+import { createZip } from "@/lib/zip";
+
+export interface IssueGroup {
+  /** Rule name for rule failures, otherwise the error type. */
+  name: string;
+  issues: Issue[];
+}
+
+const ISSUE_COLUMNS = ["Row", "Severity", "Rule", "Error type", "Failing columns", "Value"];
+
+// Excel opens UTF-8 CSV as the legacy code page unless the file starts with a byte order mark.
+const UTF8_BOM = "\uFEFF";
+
+/** Splits issues into one group per rule or error type, in order of first appearance. */
+export function groupIssues(issues: Issue[]): IssueGroup[] {
+  const groups = new Map<string, Issue[]>();
+  issues.forEach((issue) => {
+    const name = issue.rule ?? issueCategoryLabels[issue.category];
+    const group = groups.get(name) ?? [];
+    group.push(issue);
+    groups.set(name, group);
+  });
+  return Array.from(groups, ([name, items]) => ({ name, issues: items }));
+}
+
+/**
+ * Header plus one row per issue. The sampled record is spread into its own columns after the issue
+ * columns, using every record column seen in the group, so the sheet can go straight to the data owner.
+ */
+export function issueRows(issues: Issue[]): Array<Array<string | number>> {
+  const recordColumns = Array.from(new Set(issues.flatMap((issue) => Object.keys(issue.record ?? {}))));
+  return [
+    [...ISSUE_COLUMNS, ...recordColumns],
+    ...issues.map((issue) => [
+      issue.row_id ?? "",
+      issue.severity,
+      issue.rule ?? "",
+      issueCategoryLabels[issue.category],
+      issue.columns.join(", "),
+      issueValue(issue),
+      ...recordColumns.map((column) => issue.record?.[column] ?? ""),
+    ]),
+  ];
+}
+
+const safeFileName = (name: string) => name.replace(/[^\w.-]+/g, "_").replace(/^_+|_+$/g, "") || "issues";
+
+// The values are raw data, and the files are meant to be opened in a spreadsheet.
+const toCsv = (issues: Issue[]) =>
+  UTF8_BOM + formatDelimited(issueRows(issues).map((cells) => cells.map(escapeFormula)));
+
+/** One CSV per rule or error type: a single file when there is one group, otherwise a zip of them. */
+export function exportIssuesCsv(issues: Issue[], baseName: string) {
+  const groups = groupIssues(issues);
+  if (groups.length === 1) {
+    downloadBlob(toCsv(groups[0].issues), `${safeFileName(`${baseName}-${groups[0].name}`)}.csv`, "text/csv");
+    return;
+  }
+  // The numeric prefix keeps names distinct after sanitising and lists files in report order.
+  const archive = createZip(
+    groups.map((group, idx) => ({
+      name: `${String(idx + 1).padStart(2, "0")}-${safeFileName(group.name).slice(0, 60)}.csv`,
+      data: toCsv(group.issues),
+    })),
+  );
+  downloadBlob(archive, `${safeFileName(baseName)}-issues.zip`, "application/zip");
+}
+
+/** A workbook with every issue on the first sheet, then one sheet per rule or error type. */
+export function exportIssuesXlsx(issues: Issue[], baseName: string) {
+  const groups = groupIssues(issues);
+  const workbook = buildWorkbook([
+    { name: "All issues", rows: issueRows(issues) },
+    ...groups.map((group) => ({ name: group.name, rows: issueRows(group.issues) })),
+  ]);
+  downloadBlob(
+    workbook,
+    `${safeFileName(baseName)}-issues.xlsx`,
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  );
+}
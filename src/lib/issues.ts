@@ -0,0 +1,261 @@
+import { AuditReport, Issue, IssueCategory, Severity } from "@/types/audit";
+import { isNullValue } from "@/lib/values";
+import { parseRule, referencedColumns } from "@/lib/ruleExpression";
+import { anomalyIssues, describeMetric, formatMetricValue } from "@/lib/anomalies";
+
+export const issueCategoryLabels: Record<IssueCategory, string> = {
+  rule_failed: "Rule Failed",
+  missing_value: "Missing Value",
+  not_null: "Null violation",
+  range: "Range violation",
+  allowed_values: "Allowed value violation",
+  value_domain: "Value domain violation",
+  pattern: "Pattern violation",
+  cross_field: "Cross-field violation",
+  orphan_key: "Orphan key",
+  anomaly: "Baseline anomaly",
+  pk_duplicate: "PK Duplicate",
+  pk_null: "PK Null",
+};
+
+/** Missing data above 10% of the rows is treated as an error, below as a warning. */
+export const missingSeverity = (pct: number): Severity => (pct > 10 ? "error" : "warning");
+
+/** What the issue is about: the rule or constraint name when there is one, otherwise the affected columns. */
+export const issueTarget = (issue: Issue) => issue.rule ?? issue.columns.join(", ");
+
+/** The offending value as shown in the issue log. */
+export function issueValue(issue: Issue) {
+  if (issue.value !== null) return issue.value;
+  if (issue.category === "missing_value" || issue.category === "not_null") return "NULL / Empty";
+  return "-";
+}
+
+export interface IssueIndicator {
+  label: string;
+  detail: string;
+  severity: Severity;
+}
+
+/** One alert per failing check, as shown on the scorecard. */
+export function issueIndicators(report: AuditReport): IssueIndicator[] {
+  const indicators: IssueIndicator[] = [];
+
+  report.schema_results.forEach((item) => {
+    if (item.status === "missing") {
+      indicators.push({
+        label: `Missing column`,
+        detail: item.field,
+        severity: "error",
+      });
+    } else if (item.status === "type_mismatch") {
+      indicators.push({
+        label: `Type mismatch`,
+        detail: `${item.field}: expected ${item.expected_dtype}, found ${item.actual_dtype ?? "n/a"}`,
+        severity: "warning",
+      });
+    }
+  });
+
+  report.missing_values.forEach((item) => {
+    if (item.missing_count > 0) {
+      indicators.push({
+        label: `Missing data`,
+        detail: `${item.column}: ${item.missing_pct.toFixed(1)}%`,
+        severity: missingSeverity(item.missing_pct),
+      });
+    }
+  });
+
+  report.rule_results.forEach((rule) => {
+    if (!rule.passed) {
+      indicators.push({
+        label: `Rule failed`,
+        detail: `${rule.name} (${rule.failing_rows} rows)`,
+        severity: rule.severity,
+      });
+    }
+  });
+
+  report.constraint_results?.forEach((result) => {
+    if (!result.passed) {
+      indicators.push({
+        label: issueCategoryLabels[result.constraint],
+        detail: `${result.column} (${result.failing_rows} rows)`,
+        severity: "error",
+      });
+    }
+  });
+
+  report.cross_field_results?.forEach((result) => {
+    if (!result.passed) {
+      indicators.push({
+        label: issueCategoryLabels.cross_field,
+        detail: `${result.name} (${result.failing_rows} rows)`,
+        severity: result.severity,
+      });
+    }
+  });
+
+  report.foreign_key_results?.forEach((result) => {
+    if (result.orphan_count > 0) {
+      indicators.push({
+        label: "Orphan keys",
+        detail: `${result.column} → ${result.reference} (${result.orphan_count} rows)`,
+        severity: result.severity,
+      });
+    }
+  });
+
+  report.baseline_comparison?.anomalies.forEach((anomaly) => {
+    indicators.push({
+      label: issueCategoryLabels.anomaly,
+      detail: `${describeMetric(anomaly)}: ${formatMetricValue(anomaly.metric, anomaly.observed)} vs ${formatMetricValue(anomaly.metric, anomaly.expected)}`,
+      severity: anomaly.severity,
+    });
+  });
+
+  if (report.primary_key_result) {
+    if (report.primary_key_result.duplicate_count > 0) {
+      indicators.push({
+        label: "PK duplicate",
+        detail: `${report.primary_key_result.duplicate_count} rows`,
+        severity: "error",
+      });
+    }
+    if (report.primary_key_result.null_count > 0) {
+      indicators.push({
+        label: "PK null",
+        detail: `${report.primary_key_result.null_count} rows`,
+        severity: "error",
+      });
+    }
+  }
+
+  return indicators;
+}
+
+const cellText = (value: unknown) => (value === null || value === undefined ? "" : String(value));
+
+/** Builds an issue from an engine sample row, which carries its file line in `__line__`. */
+export function issueFromSample(
+  sample: Record<string, unknown>,
+  issue: Pick<Issue, "category" | "columns" | "rule" | "severity"> & { value?: string | null },
+): Issue {
+  const { __line__: line, ...rest } = sample;
+  const record = Object.fromEntries(Object.entries(rest).map(([key, value]) => [key, cellText(value)]));
+  const rowId = Number(line);
+  const value =
+    issue.value !== undefined
+      ? issue.value
+      : issue.columns.map((column) => `${column}=${record[column] || "NULL"}`).join(", ") || null;
+  return { ...issue, value, row_id: line === undefined || !Number.isFinite(rowId) ? null : rowId, record };
+}
+
+const ruleColumns = (report: AuditReport, name: string) => {
+  const definition = report.config.rules.find((rule) => rule.name === name);
+  const ast = definition ? parseRule(definition.expression).ast : null;
+  return ast ? Array.from(new Set(referencedColumns(ast).map((column) => column.name))) : [];
+};
+
+/**
+ * Issues for rule, missing-value, constraint and foreign-key samples, whose category is unambiguous, and for
+ * baseline anomalies.
+ */
+export function checkIssues(report: AuditReport): Issue[] {
+  const issues: Issue[] = [];
+  report.rule_results.forEach((rule) => {
+    if (rule.passed) return;
+    const columns = ruleColumns(report, rule.name);
+    rule.sample_rows.forEach((sample) =>
+      issues.push(issueFromSample(sample, { category: "rule_failed", columns, rule: rule.name, severity: rule.severity })),
+    );
+  });
+  report.missing_values.forEach((item) => {
+    if (!item.missing_count) return;
+    item.sample_rows.forEach((sample) =>
+      issues.push(
+        issueFromSample(sample, {
+          category: "missing_value",
+          columns: [item.column],
+          rule: null,
+          severity: missingSeverity(item.missing_pct),
+          value: null,
+        }),
+      ),
+    );
+  });
+  report.constraint_results?.forEach((result) => {
+    if (result.passed) return;
+    result.sample_rows.forEach((sample) =>
+      issues.push(
+        issueFromSample(sample, {
+          category: result.constraint,
+          columns: [result.column],
+          rule: null,
+          severity: "error",
+          value: isNullValue(cellText(sample[result.column])) ? null : cellText(sample[result.column]),
+        }),
+      ),
+    );
+  });
+  report.cross_field_results?.forEach((result) => {
+    if (result.passed) return;
+    result.sample_rows.forEach((sample) =>
+      issues.push(
+        issueFromSample(sample, {
+          category: "cross_field",
+          columns: result.columns,
+          rule: result.name,
+          severity: result.severity,
+        }),
+      ),
+    );
+  });
+  report.foreign_key_results?.forEach((result) => {
+    result.sample_rows.forEach((sample) =>
+      issues.push(
+        issueFromSample(sample, {
+          category: "orphan_key",
+          columns: [result.column],
+          rule: result.name,
+          severity: result.severity,
+          value: cellText(sample[result.column]),
+        }),
+      ),
+    );
+  });
+  if (report.baseline_comparison) issues.push(...anomalyIssues(report.baseline_comparison));
+  return issues;
+}
+
+/**
+ * Derives issues for reports written before engines emitted `issues`. Primary-key samples mix duplicate
+ * and null rows without saying which is which, so a sample with an empty key column is taken to be a null.
+ */
+export function legacyIssues(report: AuditReport): Issue[] {
+  const issues = checkIssues(report);
+  const pk = report.primary_key_result;
+  pk?.sample_rows.forEach((sample) => {
+    const isNull = pk.columns.some((column) => isNullValue(cellText(sample[column])));
+    issues.push(
+      issueFromSample(sample, {
+        category: isNull ? "pk_null" : "pk_duplicate",
+        columns: pk.columns,
+        rule: null,
+        severity: "error",
+      }),
+    );
+  });
+  return issues;
+}
+
+/** Orders issues by file line; issues without one go last. */
+export const sortIssues = (issues: Issue[]) =>
+  [...issues].sort((a, b) => {
+    if (a.row_id === null || b.row_id === null) return a.row_id === b.row_id ? 0 : a.row_id === null ? 1 : -1;
+    return a.row_id - b.row_id;
+  });
+
+/** The report's issues, falling back to the legacy derivation for older reports. */
+export const reportIssues = (report: AuditReport) => sortIssues(report.issues ?? legacyIssues(report));
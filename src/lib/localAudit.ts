@@ -0,0 +1,488 @@
+import {
+  AuditConfig,
+  AuditReport,
+  ColumnProfile,
+  ConstraintResult,
+  CrossFieldResult,
+  ForeignKey,
+  ForeignKeyResult,
+  Issue,
+  MissingValueStat,
+  PrimaryKeyResult,
+  RuleResult,
+  SchemaField,
+  SchemaResult,
+  ValueDomain,
+} from "@/types/audit";
+import { ParsedTable, isDelimitedFile, readDelimitedFile } from "@/lib/csv";
+import { crossFieldColumns, crossFieldViolation, describeCrossField } from "@/lib/crossField";
+import { checkIssues, issueFromSample } from "@/lib/issues";
+import { dataFileSize, readFileContents } from "@/lib/nativeFiles";
+import { profileTable } from "@/lib/profiling";
+import { AuditReferences, referenceLabel } from "@/lib/referenceData";
+import { parseRule } from "@/lib/ruleExpression";
+import { rowPasses } from "@/lib/ruleEvaluator";
+import { distinctKeys, domainMatcher } from "@/lib/valueDomains";
+import { compileFieldPattern, conformsTo, inferPandasDtype, isNullValue, toComparable } from "@/lib/values";
+
+const SAMPLE_LIMIT = 5;
+const TOP_MISSING_KEYS = 10;
+// The whole file is held in memory as strings; past this the tab is likely to run out of memory.
+export const LOCAL_AUDIT_MAX_BYTES = 250 * 1024 * 1024;
+
+type SampleRow = Record<string, string>;
+
+const withLine = (table: ParsedTable, index: number): SampleRow => ({
+  ...table.rows[index],
+  __line__: String(table.lines[index]),
+});
+
+const collectSamples = (table: ParsedTable, predicate: (row: SampleRow) => boolean) => {
+  let count = 0;
+  const samples: SampleRow[] = [];
+  table.rows.forEach((row, index) => {
+    if (!predicate(row)) return;
+    count += 1;
+    if (samples.length < SAMPLE_LIMIT) samples.push(withLine(table, index));
+  });
+  return { count, samples };
+};
+
+function checkSchema(table: ParsedTable, field: SchemaField): SchemaResult {
+  if (!table.columns.includes(field.name)) {
+    return { field: field.name, expected_dtype: field.dtype, actual_dtype: null, status: "missing", details: null };
+  }
+  const values = table.rows.map((row) => row[field.name]);
+  const actual = inferPandasDtype(values);
+  const invalid = values.filter((value) => !isNullValue(value) && !conformsTo(value, field.dtype)).length;
+  if (invalid) {
+    return {
+      field: field.name,
+      expected_dtype: field.dtype,
+      actual_dtype: actual,
+      status: "type_mismatch",
+      details: `${invalid} value(s) could not be parsed as ${field.dtype}`,
+    };
+  }
+  return { field: field.name, expected_dtype: field.dtype, actual_dtype: actual, status: "ok", details: null };
+}
+
+function checkMissing(table: ParsedTable): MissingValueStat[] {
+  const total = table.rows.length;
+  return table.columns
+    .map((column) => {
+      const { count, samples } = collectSamples(table, (row) => isNullValue(row[column]));
+      return {
+        column,
+        missing_count: count,
+        missing_pct: total ? (count / total) * 100 : 0,
+        sample_rows: samples,
+      };
+    })
+    .filter((item) => item.missing_count > 0);
+}
+
+const toConstraintResult = (
+  table: ParsedTable,
+  column: string,
+  constraint: ConstraintResult["constraint"],
+  details: string,
+  predicate: (row: SampleRow) => boolean,
+): ConstraintResult => {
+  const { count, samples } = collectSamples(table, predicate);
+  return { column, constraint, passed: count === 0, failing_rows: count, sample_rows: samples, details };
+};
+
+// Backends send null for unset optional fields, so null is no bound, like undefined or an emptied input.
+const hasBound = (bound: SchemaField["min"]): bound is number | string =>
+  bound !== undefined && bound !== null && bound !== "";
+
+function checkConstraints(table: ParsedTable, field: SchemaField): ConstraintResult[] {
+  if (!table.columns.includes(field.name)) return [];
+  const results: ConstraintResult[] = [];
+  const column = field.name;
+
+  if (!field.nullable) {
+    results.push(
+      toConstraintResult(table, column, "not_null", "must not be empty", (row) => isNullValue(row[column])),
+    );
+  }
+
+  if (hasBound(field.min) || hasBound(field.max)) {
+    const min = hasBound(field.min) ? toComparable(field.min, field.dtype) : null;
+    const max = hasBound(field.max) ? toComparable(field.max, field.dtype) : null;
+    if ((hasBound(field.min) && min === null) || (hasBound(field.max) && max === null)) {
+      throw new Error(`Invalid range for ${column}: bounds must be valid ${field.dtype} values`);
+    }
+    results.push(
+      toConstraintResult(table, column, "range", `within [${field.min ?? "-∞"}, ${field.max ?? "∞"}]`, (row) => {
+        if (isNullValue(row[column])) return false;
+        const value = toComparable(row[column], field.dtype);
+        if (value === null) return false;
+        return (min !== null && value < min) || (max !== null && value > max);
+      }),
+    );
+  }
+
+  if (field.allowed_values?.length) {
+    const allowed = new Set(field.allowed_values);
+    results.push(
+      toConstraintResult(
+        table,
+        column,
+        "allowed_values",
+        `in {${field.allowed_values.join(", ")}}`,
+        (row) => !isNullValue(row[column]) && !allowed.has(row[column].trim()),
+      ),
+    );
+  }
+
+  if (field.regex) {
+    let pattern: RegExp;
+    try {
+      pattern = compileFieldPattern(field.regex);
+    } catch (error) {
+      throw new Error(`Invalid regex for ${column}: ${(error as Error).message}`);
+    }
+    results.push(
+      toConstraintResult(
+        table,
+        column,
+        "pattern",
+        `matches /${field.regex}/`,
+        (row) => !isNullValue(row[column]) && !pattern.test(row[column]),
+      ),
+    );
+  }
+
+  return results;
+}
+
+export interface SkippedRule {
+  name: string;
+  reason: string;
+}
+
+function checkRules(table: ParsedTable, config: AuditConfig) {
+  const results: RuleResult[] = [];
+  const skipped: SkippedRule[] = [];
+  config.rules.forEach((rule) => {
+    const { ast, error } = parseRule(rule.expression);
+    if (!ast) {
+      skipped.push({ name: rule.name, reason: error.message });
+      return;
+    }
+    try {
+      const { count, samples } = collectSamples(table, (row) => !rowPasses(ast, row));
+      results.push({
+        name: rule.name,
+        severity: rule.severity,
+        passed: count === 0,
+        failing_rows: count,
+        sample_rows: samples,
+        description: rule.description || null,
+      });
+    } catch (evaluationError) {
+      skipped.push({ name: rule.name, reason: (evaluationError as Error).message });
+    }
+  });
+  return { results, skipped };
+}
+
+function checkCrossField(table: ParsedTable, config: AuditConfig) {
+  const results: CrossFieldResult[] = [];
+  const skipped: SkippedRule[] = [];
+  (config.cross_field_constraints ?? []).forEach((constraint) => {
+    const columns = crossFieldColumns(constraint);
+    const absent = columns.filter((column) => !table.columns.includes(column));
+    if (absent.length) {
+      skipped.push({ name: constraint.name, reason: `column ${absent.map((column) => `"${column}"`).join(", ")} not in file` });
+      return;
+    }
+    const { count, samples } = collectSamples(table, crossFieldViolation(constraint, config.schema));
+    results.push({
+      name: constraint.name,
+      type: constraint.type,
+      columns,
+      severity: constraint.severity,
+      passed: count === 0,
+      failing_rows: count,
+      sample_rows: samples,
+      details: describeCrossField(constraint),
+    });
+  });
+  return { results, skipped };
+}
+
+/** Kept apart from `checkConstraints` because a domain that is not available skips the check instead of failing the audit. */
+function checkValueDomains(table: ParsedTable, config: AuditConfig, domains: Record<string, ValueDomain>) {
+  const results: ConstraintResult[] = [];
+  const skipped: SkippedRule[] = [];
+  config.schema.forEach((field) => {
+    const column = field.name;
+    if (!field.value_domain || !table.columns.includes(column)) return;
+    const domain = domains[field.value_domain];
+    if (!domain) {
+      skipped.push({ name: `${column} value domain`, reason: `value domain "${field.value_domain}" not found` });
+      return;
+    }
+    const match = domainMatcher(domain);
+    let normalised = 0;
+    const result = toConstraintResult(table, column, "value_domain", "", (row) => {
+      if (isNullValue(row[column])) return false;
+      const value = match(row[column]);
+      if (value === undefined) return true;
+      if (value !== row[column].trim()) normalised += 1;
+      return false;
+    });
+    const matching = domain.case_insensitive ? ", ignoring case" : "";
+    const aliased = normalised ? `; ${normalised} value(s) matched through case or an alias` : "";
+    results.push({ ...result, details: `in domain ${domain.name} v${domain.version}${matching}${aliased}` });
+  });
+  return { results, skipped };
+}
+
+/** Valid keys for each foreign key, by name, or the reason they could not be loaded. */
+export type ReferenceKeys = Record<string, { keys: Pick<Set<string>, "has"> } | { error: string }>;
+
+/** Reads each foreign key's reference once; several keys may share a file. */
+export async function loadReferenceKeys(config: AuditConfig, references: AuditReferences): Promise<ReferenceKeys> {
+  const tables = new Map<string, Promise<ParsedTable>>();
+  const entries = await Promise.all(
+    (config.foreign_keys ?? []).map(async (key): Promise<[string, ReferenceKeys[string]]> => {
+      const source = key.reference;
+      if (source.type === "lookup") {
+        const domain = references.domains[source.lookup];
+        if (!domain) return [key.name, { error: `value domain "${source.lookup}" not found` }];
+        const match = domainMatcher(domain);
+        return [key.name, { keys: { has: (value: string) => match(value) !== undefined } }];
+      }
+      const file = references.files.find((item) => item.name === source.file_name);
+      if (!file) return [key.name, { error: `reference file ${source.file_name} not attached` }];
+      if (!tables.has(file.name)) tables.set(file.name, readDelimitedFile(file));
+      try {
+        const table = await tables.get(file.name)!;
+        if (!table.columns.includes(source.column)) {
+          return [key.name, { error: `column "${source.column}" not in ${file.name}` }];
+        }
+        return [key.name, { keys: new Set(distinctKeys(table.rows.map((row) => row[source.column]))) }];
+      } catch (error) {
+        return [key.name, { error: `${file.name}: ${(error as Error).message}` }];
+      }
+    }),
+  );
+  return Object.fromEntries(entries);
+}
+
+function checkForeignKey(table: ParsedTable, key: ForeignKey, keys: Pick<Set<string>, "has">): ForeignKeyResult {
+  let checked = 0;
+  const missing = new Map<string, number>();
+  const { count, samples } = collectSamples(table, (row) => {
+    if (isNullValue(row[key.column])) return false;
+    checked += 1;
+    const value = row[key.column].trim();
+    if (keys.has(value)) return false;
+    missing.set(value, (missing.get(value) ?? 0) + 1);
+    return true;
+  });
+  return {
+    name: key.name,
+    column: key.column,
+    reference: referenceLabel(key.reference),
+    severity: key.severity,
+    checked_rows: checked,
+    orphan_count: count,
+    sample_rows: samples,
+    top_missing_keys: Array.from(missing, ([value, frequency]) => ({ value, count: frequency }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, TOP_MISSING_KEYS),
+  };
+}
+
+function checkForeignKeys(table: ParsedTable, config: AuditConfig, referenceKeys: ReferenceKeys) {
+  const results: ForeignKeyResult[] = [];
+  const skipped: SkippedRule[] = [];
+  (config.foreign_keys ?? []).forEach((key) => {
+    const reference = referenceKeys[key.name] ?? { error: "reference not loaded" };
+    if (!table.columns.includes(key.column)) {
+      skipped.push({ name: key.name, reason: `column "${key.column}" not in file` });
+    } else if ("error" in reference) {
+      skipped.push({ name: key.name, reason: reference.error });
+    } else {
+      results.push(checkForeignKey(table, key, reference.keys));
+    }
+  });
+  return { results, skipped };
+}
+
+/** Unlike the result's mixed samples, the returned issues record whether each sampled row is a duplicate or a null key. */
+function checkPrimaryKey(table: ParsedTable, columns: string[]): { result: PrimaryKeyResult | null; issues: Issue[] } {
+  if (!columns.length) return { result: null, issues: [] };
+  const seen = new Set<string>();
+  let duplicateCount = 0;
+  let nullCount = 0;
+  const samples: SampleRow[] = [];
+  const issues: Issue[] = [];
+  const sample = (index: number, category: "pk_duplicate" | "pk_null") => {
+    if (samples.length >= SAMPLE_LIMIT) return;
+    const row = withLine(table, index);
+    samples.push(row);
+    issues.push(issueFromSample(row, { category, columns, rule: null, severity: "error" }));
+  };
+  table.rows.forEach((row, index) => {
+    const values = columns.map((column) => row[column]);
+    if (values.some((value) => isNullValue(value))) {
+      nullCount += 1;
+      sample(index, "pk_null");
+      return;
+    }
+    const key = JSON.stringify(values);
+    if (seen.has(key)) {
+      duplicateCount += 1;
+      sample(index, "pk_duplicate");
+    } else {
+      seen.add(key);
+    }
+  });
+  return {
+    result: { columns, duplicate_count: duplicateCount, null_count: nullCount, sample_rows: samples },
+    issues,
+  };
+}
+
+/**
+ * Audits an already-parsed table against `config` without the backend. Rules, cross-field constraints, foreign keys
+ * and value domains that cannot be evaluated here are left out of the report and listed in `skippedRules` so
+ * callers can tell the user.
+ */
+export function auditTable(
+  table: ParsedTable,
+  config: AuditConfig,
+  sourceFile: string,
+  referenceKeys: ReferenceKeys = {},
+  domains: Record<string, ValueDomain> = {},
+): { report: AuditReport; skippedRules: SkippedRule[] } {
+  const schemaResults = config.schema.map((field) => checkSchema(table, field));
+  const missingValues = checkMissing(table);
+  const valueDomains = checkValueDomains(table, config, domains);
+  const constraintResults = [
+    ...config.schema.flatMap((field) => checkConstraints(table, field)),
+    ...valueDomains.results,
+  ];
+  const rules = checkRules(table, config);
+  const crossField = checkCrossField(table, config);
+  const foreignKeys = checkForeignKeys(table, config, referenceKeys);
+  const { result: primaryKey, issues: primaryKeyIssues } = checkPrimaryKey(
+    table,
+    (config.primary_key ?? []).filter((column) => table.columns.includes(column)),
+  );
+
+  const issuesFound =
+    schemaResults.filter((item) => item.status !== "ok").length +
+    missingValues.length +
+    constraintResults.filter((item) => !item.passed).length +
+    rules.results.filter((item) => !item.passed).length +
+    crossField.results.filter((item) => !item.passed).length +
+    foreignKeys.results.filter((item) => item.orphan_count > 0).length +
+    (primaryKey && primaryKey.duplicate_count > 0 ? 1 : 0) +
+    (primaryKey && primaryKey.null_count > 0 ? 1 : 0);
+
+  const report: AuditReport = {
+    id: `local-${crypto.randomUUID()}`,
+    summary: {
+      dataset_name: config.dataset_name,
+      row_count: table.rows.length,
+      column_count: table.columns.length,
+      created_at: new Date().toISOString(),
+      engine_used: "browser",
+      issues_found: issuesFound,
+    },
+    schema_results: schemaResults,
+    missing_values: missingValues,
+    rule_results: rules.results,
+    constraint_results: constraintResults,
+    cross_field_results: crossField.results,
+    foreign_key_results: foreignKeys.results,
+    column_profiles: profileTable(table),
+    sample_rows: table.rows.slice(0, SAMPLE_LIMIT).map((_, index) => withLine(table, index)),
+    primary_key_result: primaryKey,
+    config,
+    source_file: sourceFile,
+  };
+  report.issues = [...checkIssues(report), ...primaryKeyIssues];
+  return {
+    report,
+    skippedRules: [...valueDomains.skipped, ...rules.skipped, ...crossField.skipped, ...foreignKeys.skipped],
+  };
+}
+
+/**
+ * Audits a file in the browser. The checks themselves run in one go, so `signal` is honoured before and after them:
+ * a cancelled audit rejects with an abort error instead of producing a report.
+ */
+export async function runLocalAudit(
+  file: File,
+  config: AuditConfig,
+  references: AuditReferences = { files: [], domains: {} },
+  signal?: AbortSignal,
+) {
+  signal?.throwIfAborted();
+  if (dataFileSize(file) > LOCAL_AUDIT_MAX_BYTES) {
+    throw new Error(
+      `${file.name} is too large to audit in the browser (limit ${LOCAL_AUDIT_MAX_BYTES / 1024 / 1024} MB).`,
+    );
+  }
+  const [table, referenceKeys] = await Promise.all([readDelimitedFile(file), loadReferenceKeys(config, references)]);
+  signal?.throwIfAborted();
+  const result = auditTable(table, config, file.name, referenceKeys, references.domains);
+  signal?.throwIfAborted();
+  return result;
+}
+
+// Profiling a bounded sample keeps memory and time in check for extracts far larger than the browser could audit.
+const PROFILE_SAMPLE_ROWS = 100_000;
+const PROFILE_SAMPLE_BYTES = 32 * 1024 * 1024;
+
+/** The first bytes of a file, read on the main thread: desktop files can only be read from there. */
+export interface ProfileRequest {
+  head: Blob;
+  fileName: string;
+  truncated: boolean;
+  maxRows: number;
+}
+
+export type ProfileResponse = { profiles: ColumnProfile[]; sampledRows: number | null } | { error: string };
+
+/**
+ * Profiles the columns of a server-audited file in a Web Worker, from at most its first rows. Profiling is
+ * best-effort: files the browser cannot parse resolve to null, and the report is shown without profiles.
+ */
+export async function profileColumnsInBackground(
+  file: File,
+): Promise<Pick<AuditReport, "column_profiles" | "column_profile_rows"> | null> {
+  if (!isDelimitedFile(file.name) || typeof Worker === "undefined") return null;
+  let request: ProfileRequest;
+  try {
+    const head = await readFileContents(file, PROFILE_SAMPLE_BYTES);
+    request = { head, fileName: file.name, truncated: dataFileSize(file) > head.size, maxRows: PROFILE_SAMPLE_ROWS };
+  } catch (error) {
+    console.error("Failed to profile columns", error);
+    return null;
+  }
+  return new Promise((resolve) => {
+    const worker = new Worker(new URL("./profiling.worker.ts", import.meta.url));
+    const fail = (reason: string) => {
+      console.error("Failed to profile columns", reason);
+      worker.terminate();
+      resolve(null);
+    };
+    worker.onmessage = (event: MessageEvent<ProfileResponse>) => {
+      if ("error" in event.data) return fail(event.data.error);
+      worker.terminate();
+      const { profiles, sampledRows } = event.data;
+      resolve({ column_profiles: profiles, ...(sampledRows === null ? {} : { column_profile_rows: sampledRows }) });
+    };
+    worker.onerror = (event) => fail(event.message);
+    worker.postMessage(request);
+  });
+}
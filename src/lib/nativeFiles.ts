@@ -0,0 +1,143 @@
+import { Channel, invoke, isTauri } from "@tauri-apps/api/core";
+
+/** A dataset opened through the native dialog; mirrors `RecentFile` in `src-tauri/src/files.rs`. */
+export interface RecentFile {
+  path: string;
+  name: string;
+  size: number;
+  /** Milliseconds since the Unix epoch. */
+  opened_at: number;
+  /** Whether the file is still on disk; only set by `listRecentFiles`. */
+  exists?: boolean;
+}
+
+export interface PickedFile {
+  file: File;
+  /** Location on disk when picked through the desktop dialog; browsers never reveal it. */
+  path: string | null;
+}
+
+const DATA_FILE_ACCEPT = ".csv,.tsv,.txt,.xlsx,.xls";
+
+/** True inside the Tauri desktop shell, false in a plain browser and during prerendering. */
+export const isDesktop = () => typeof window !== "undefined" && isTauri();
+
+const noSubscription = () => () => {};
+
+/** `useSyncExternalStore` arguments for `isDesktop`, so the first client render matches the prerendered HTML. */
+export const desktopStore = [noSubscription, isDesktop, () => false] as const;
+
+function pickWithInput(accept: string): Promise<File | null> {
+  return new Promise((resolve) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = accept;
+    input.onchange = () => resolve(input.files?.[0] ?? null);
+    input.oncancel = () => resolve(null);
+    input.click();
+  });
+}
+
+interface NativeSource {
+  path: string;
+  size: number;
+}
+
+// Datasets opened on the desktop can be many gigabytes, so they are not read into the webview. Each is an empty
+// `File` standing in for the file on disk: previews read a bounded prefix, and uploads stream it from Rust.
+const nativeSources = new WeakMap<File, NativeSource>();
+
+const standIn = (entry: RecentFile) => {
+  const file = new File([], entry.name);
+  nativeSources.set(file, { path: entry.path, size: entry.size });
+  return file;
+};
+
+/** Size of a data file, including desktop stand-ins whose contents stay on disk. */
+export const dataFileSize = (file: File) => nativeSources.get(file)?.size ?? file.size;
+
+/** The whole file, or only its first `maxBytes`, as a Blob. Desktop stand-ins are read from disk. */
+export async function readFileContents(file: File, maxBytes?: number): Promise<Blob> {
+  const source = nativeSources.get(file);
+  if (!source) return maxBytes === undefined ? file : file.slice(0, maxBytes);
+  const buffer = await invoke<ArrayBuffer>("read_data_file", { path: source.path, maxBytes: maxBytes ?? null });
+  return new Blob([buffer]);
+}
+
+/** Re-opens a recent file, refreshing its size and moving it to the top of the list. */
+export async function openRecentFile(entry: RecentFile): Promise<File> {
+  return standIn(await invoke<RecentFile>("open_recent_file", { path: entry.path }));
+}
+
+/** Native open dialog on the desktop (the file joins the recent list), a file input in the browser. */
+export async function pickDataFile(): Promise<PickedFile | null> {
+  if (!isDesktop()) {
+    const file = await pickWithInput(DATA_FILE_ACCEPT);
+    return file ? { file, path: null } : null;
+  }
+  const entry = await invoke<RecentFile | null>("pick_data_file");
+  return entry ? { file: standIn(entry), path: entry.path } : null;
+}
+
+export const listRecentFiles = () =>
+  isDesktop() ? invoke<RecentFile[]>("list_recent_files") : Promise.resolve<RecentFile[]>([]);
+
+export const forgetRecentFile = (path: string) => invoke<void>("forget_recent_file", { path });
+
+/** The dataset a form carries, when it is a desktop stand-in that has to be uploaded from disk. */
+export const nativeUploadField = (body: FormData) =>
+  Array.from(body.entries()).find(
+    (entry): entry is [string, File] => entry[1] instanceof File && nativeSources.has(entry[1]),
+  )?.[0] ?? null;
+
+export interface NativeUploadOptions {
+  signal?: AbortSignal;
+  onUploadProgress?: (fraction: number) => void;
+}
+
+/**
+ * Posts `body` to `url` from the Rust side, streaming its dataset from disk; the other parts are small and go
+ * as text. Resolves to the response status and text. Like `fetch`, it rejects with a TypeError when the server
+ * cannot be reached.
+ */
+export async function uploadNativeForm(
+  url: string,
+  body: FormData,
+  { signal, onUploadProgress }: NativeUploadOptions = {},
+): Promise<{ status: number; body: string }> {
+  const field = nativeUploadField(body);
+  const source = field && nativeSources.get(body.get(field) as File);
+  if (!field || !source) throw new Error("The form has no file opened from disk.");
+  const parts = await Promise.all(
+    Array.from(body.entries())
+      .filter(([name]) => name !== field)
+      .map(async ([name, value]) =>
+        typeof value === "string"
+          ? { name, value, file_name: null }
+          : { name, value: await value.text(), file_name: value.name },
+      ),
+  );
+  signal?.throwIfAborted();
+  const id = crypto.randomUUID();
+  const onProgress = new Channel<number>();
+  onProgress.onmessage = (sent) => onUploadProgress?.(source.size ? sent / source.size : 1);
+  const cancel = () => invoke<void>("cancel_upload", { id });
+  signal?.addEventListener("abort", cancel, { once: true });
+  try {
+    return await invoke("upload_data_file", { id, url, field, path: source.path, parts, onProgress });
+  } catch (error) {
+    if (signal?.aborted) throw new DOMException("The operation was aborted.", "AbortError");
+    const failure = error as { network?: boolean; message?: string };
+    const message = failure.message ?? String(error);
+    throw failure.network ? new TypeError(message) : new Error(message);
+  } finally {
+    signal?.removeEventListener("abort", cancel);
+  }
+}
+
+/** Native save dialog, pre-filled with `fileName`. Resolves to the saved path, or null when cancelled. */
+export function saveNativeFile(content: string | Uint8Array, fileName: string): Promise<string | null> {
+  // A raw body crosses the bridge as bytes; headers carry ASCII only, hence the encoded name.
+  const bytes = typeof content === "string" ? new TextEncoder().encode(content) : content;
+  return invoke<string | null>("save_file", bytes, { headers: { "x-file-name": encodeURIComponent(fileName) } });
+}
@@ -0,0 +1,40 @@
+import { ProfileSnapshot } from "@/lib/anomalies";
+import { isBoolean, isNumber, isString, record, shape, validate } from "@/lib/validation";
+
+const STORAGE_KEY = "dqa.profileSnapshots.v1";
+// Enough for the baselines of a few dozen datasets; the oldest snapshots are dropped first.
+const MAX_SNAPSHOTS = 500;
+
+const snapshotValidator = shape({
+  report_id: isString,
+  sampled: isBoolean,
+  columns: record(record(isNumber)),
+});
+
+function readStorage(): ProfileSnapshot[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const data: unknown = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "[]");
+    if (!Array.isArray(data)) return [];
+    return data.filter((item) => !validate(item, snapshotValidator).length);
+  } catch {
+    return [];
+  }
+}
+
+/** The stored snapshots of the given reports, for comparing profile metrics with a baseline. */
+export function getProfileSnapshots(reportIds: string[]): ProfileSnapshot[] {
+  const ids = new Set(reportIds);
+  return readStorage().filter((item) => ids.has(item.report_id));
+}
+
+/** Keeps the profile metrics of a report, replacing any earlier snapshot of it. */
+export function saveProfileSnapshot(snapshot: ProfileSnapshot) {
+  if (typeof window === "undefined") return;
+  const snapshots = [...readStorage().filter((item) => item.report_id !== snapshot.report_id), snapshot];
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(snapshots.slice(-MAX_SNAPSHOTS)));
+  } catch (error) {
+    console.error("Failed to keep column profiles for baseline comparisons", error);
+  }
+}
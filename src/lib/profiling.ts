@@ -0,0 +1,146 @@
+import { ColumnProfile, HistogramBin } from "@/types/audit";
+import { ParsedTable } from "@/lib/csv";
+import { isBooleanValue, isFloatValue, isNullValue, parseDateValue, parseNumberValue } from "@/lib/values";
+
+const TOP_K = 10;
+const HISTOGRAM_BINS = 12;
+
+export const percentile = (sorted: Float64Array, p: number) => {
+  if (!sorted.length) return NaN;
+  // Linear interpolation between closest ranks, matching numpy's default.
+  const rank = (sorted.length - 1) * p;
+  const low = Math.floor(rank);
+  const high = Math.ceil(rank);
+  return sorted[low] + (sorted[high] - sorted[low]) * (rank - low);
+};
+
+function binValues(sorted: Float64Array, format: (value: number) => string, integerBins = false): HistogramBin[] {
+  if (!sorted.length) return [];
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  if (min === max) return [{ label: format(min), count: sorted.length }];
+  // Integer data gets whole-number bins so labels read "3–5" rather than "2.75–4.5".
+  const width = integerBins ? Math.ceil((max - min + 1) / HISTOGRAM_BINS) : (max - min) / HISTOGRAM_BINS;
+  const binCount = integerBins ? Math.ceil((max - min + 1) / width) : HISTOGRAM_BINS;
+  const counts = new Array<number>(binCount).fill(0);
+  sorted.forEach((value) => {
+    counts[Math.min(Math.floor((value - min) / width), binCount - 1)] += 1;
+  });
+  return counts.map((count, idx) => {
+    const start = min + width * idx;
+    if (integerBins) {
+      const end = Math.min(start + width - 1, max);
+      return { label: end === start ? format(start) : `${format(start)}–${format(end)}`, count };
+    }
+    const end = idx === binCount - 1 ? max : start + width;
+    return { label: `${format(start)}–${format(end)}`, count };
+  });
+}
+
+const formatNumber = (value: number) =>
+  Math.abs(value) >= 1000 || Number.isInteger(value) ? Math.round(value).toLocaleString() : value.toPrecision(3);
+
+const formatDate = (value: number) => new Date(value).toISOString().slice(0, 10);
+
+function topValues(values: string[]) {
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  const top = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, TOP_K)
+    .map(([value, count]) => ({ value, count }));
+  return { distinct: counts.size, top };
+}
+
+function numericStats(sorted: Float64Array) {
+  let sum = 0;
+  sorted.forEach((value) => {
+    sum += value;
+  });
+  const mean = sum / sorted.length;
+  let squares = 0;
+  sorted.forEach((value) => {
+    squares += (value - mean) ** 2;
+  });
+  return {
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean,
+    // Sample standard deviation, as pandas reports it.
+    stddev: sorted.length > 1 ? Math.sqrt(squares / (sorted.length - 1)) : 0,
+    percentiles: {
+      p5: percentile(sorted, 0.05),
+      p25: percentile(sorted, 0.25),
+      p50: percentile(sorted, 0.5),
+      p75: percentile(sorted, 0.75),
+      p95: percentile(sorted, 0.95),
+    },
+  };
+}
+
+export function profileColumn(column: string, values: string[]): ColumnProfile {
+  const present = values.filter((value) => !isNullValue(value));
+  const { distinct, top } = topValues(present);
+  const base = {
+    column,
+    non_null_count: present.length,
+    null_count: values.length - present.length,
+    distinct_count: distinct,
+    top_values: top,
+  };
+
+  if (present.length && present.every(isFloatValue)) {
+    const sorted = Float64Array.from(present.map((value) => parseNumberValue(value) ?? NaN).filter(Number.isFinite));
+    sorted.sort();
+    const integers = sorted.every(Number.isInteger);
+    return {
+      ...base,
+      kind: "numeric",
+      numeric: sorted.length ? numericStats(sorted) : null,
+      histogram: binValues(sorted, formatNumber, integers),
+    };
+  }
+
+  const times = present.map(parseDateValue);
+  if (present.length && times.every((time) => time !== null)) {
+    const sorted = Float64Array.from(times as number[]);
+    sorted.sort();
+    return {
+      ...base,
+      kind: "datetime",
+      datetime: {
+        min: new Date(sorted[0]).toISOString(),
+        max: new Date(sorted[sorted.length - 1]).toISOString(),
+      },
+      histogram: binValues(sorted, formatDate),
+    };
+  }
+
+  if (present.length && present.every(isBooleanValue)) {
+    return { ...base, kind: "boolean", histogram: top.map((item) => ({ label: item.value, count: item.count })) };
+  }
+
+  const lengths = Float64Array.from(present.map((value) => value.length));
+  lengths.sort();
+  return {
+    ...base,
+    kind: "string",
+    string_length: lengths.length
+      ? {
+          min: lengths[0],
+          max: lengths[lengths.length - 1],
+          mean: lengths.reduce((sum, value) => sum + value, 0) / lengths.length,
+        }
+      : null,
+    histogram: binValues(lengths, formatNumber, true),
+  };
+}
+
+export function profileTable(table: ParsedTable): ColumnProfile[] {
+  return table.columns.map((column) =>
+    profileColumn(
+      column,
+      table.rows.map((row) => row[column]),
+    ),
+  );
+}
@@ -0,0 +1,17 @@
+import { parseDelimitedHead } from "@/lib/csv";
+import type { ProfileRequest, ProfileResponse } from "@/lib/localAudit";
+import { profileTable } from "@/lib/profiling";
+
+// Runs off the main thread, so profiling a large file never holds up the page.
+addEventListener("message", async (event: MessageEvent<ProfileRequest>) => {
+  const { head, fileName, truncated, maxRows } = event.data;
+  let response: ProfileResponse;
+  try {
+    const table = parseDelimitedHead(await head.text(), fileName, truncated, maxRows);
+    const sampled = truncated || table.rows.length >= maxRows;
+    response = { profiles: profileTable(table), sampledRows: sampled ? table.rows.length : null };
+  } catch (error) {
+    response = { error: (error as Error).message };
+  }
+  postMessage(response);
+});
@@ -0,0 +1,95 @@
+import { AuditReport, ScoringConfig, Severity } from "@/types/audit";
+import { missingSeverity } from "@/lib/issues";
+
+export type QualityDimension = "completeness" | "validity" | "uniqueness" | "consistency";
+
+export interface QualityScore {
+  /** Mean of the applicable dimensions, 0–100; null when nothing could be scored. */
+  overall: number | null;
+  /** Null marks a dimension with nothing to measure, e.g. uniqueness without a primary key. */
+  dimensions: Record<QualityDimension, number | null>;
+  threshold: number;
+  passed: boolean | null;
+}
+
+export const DEFAULT_SEVERITY_WEIGHTS: Record<Severity, number> = { info: 0.1, warning: 0.5, error: 1 };
+export const DEFAULT_PASS_THRESHOLD = 80;
+
+export const qualityDimensions: Array<{ key: QualityDimension; label: string; description: string }> = [
+  { key: "completeness", label: "Completeness", description: "Share of cells that are not missing" },
+  { key: "validity", label: "Validity", description: "Columns present with the expected types, rows passing rules" },
+  { key: "uniqueness", label: "Uniqueness", description: "Rows with a unique, non-null primary key" },
+  {
+    key: "consistency",
+    label: "Consistency",
+    description: "Values within declared ranges, domains and formats, agreeing across fields and with reference data",
+  },
+];
+
+export const severityWeights = (scoring?: ScoringConfig): Record<Severity, number> => ({
+  ...DEFAULT_SEVERITY_WEIGHTS,
+  ...Object.fromEntries(
+    Object.entries(scoring?.severity_weights ?? {}).filter(([, weight]) => typeof weight === "number"),
+  ),
+});
+
+const clampFraction = (value: number) => Math.min(Math.max(value, 0), 1);
+
+/** Each check loses `weight × failing fraction`; the dimension is the mean over its checks. */
+function scoreChecks(checks: Array<{ failing: number; weight: number }>): number | null {
+  if (!checks.length) return null;
+  const penalty = checks.reduce((sum, check) => sum + check.weight * clampFraction(check.failing), 0);
+  return 100 * (1 - penalty / checks.length);
+}
+
+export function computeQualityScore(report: AuditReport): QualityScore {
+  const weights = severityWeights(report.config.scoring);
+  const threshold = report.config.scoring?.pass_threshold ?? DEFAULT_PASS_THRESHOLD;
+  const rows = report.summary.row_count;
+  const rowFraction = (count: number) => (rows ? count / rows : 0);
+
+  const cells = rows * report.summary.column_count;
+  const missingPenalty = report.missing_values.reduce(
+    (sum, item) => sum + item.missing_count * weights[missingSeverity(item.missing_pct)],
+    0,
+  );
+  const completeness = cells ? 100 * (1 - clampFraction(missingPenalty / cells)) : null;
+
+  const validity = scoreChecks([
+    // A missing or mistyped column fails every row; severities match the scorecard's issue indicators.
+    ...report.schema_results.map((item) => ({
+      failing: item.status === "ok" ? 0 : 1,
+      weight: item.status === "missing" ? weights.error : weights.warning,
+    })),
+    ...report.rule_results.map((rule) => ({ failing: rowFraction(rule.failing_rows), weight: weights[rule.severity] })),
+  ]);
+
+  const pk = report.primary_key_result;
+  const uniqueness = pk ? scoreChecks([{ failing: rowFraction(pk.duplicate_count + pk.null_count), weight: weights.error }]) : null;
+
+  const consistency = scoreChecks([
+    ...(report.constraint_results ?? []).map((result) => ({ failing: rowFraction(result.failing_rows), weight: weights.error })),
+    ...(report.cross_field_results ?? []).map((result) => ({
+      failing: rowFraction(result.failing_rows),
+      weight: weights[result.severity],
+    })),
+    ...(report.foreign_key_results ?? []).map((result) => ({
+      failing: rowFraction(result.orphan_count),
+      weight: weights[result.severity],
+    })),
+  ]);
+
+  const dimensions = { completeness, validity, uniqueness, consistency };
+  const applicable = Object.values(dimensions).filter((value): value is number => value !== null);
+  const overall = applicable.length ? applicable.reduce((sum, value) => sum + value, 0) / applicable.length : null;
+  return { overall, dimensions, threshold, passed: overall === null ? null : overall >= threshold };
+}
+
+export const formatScore = (score: number | null) => (score === null ? "-" : score.toFixed(1));
+
+/** Text colour for a score: green at or above the threshold, amber within 10 points below, red otherwise. */
+export function scoreTone(score: number | null, threshold: number) {
+  if (score === null) return "text-[#9BA0A8]";
+  if (score >= threshold) return "text-emerald-200";
+  return score >= threshold - 10 ? "text-amber-200" : "text-rose-200";
+}
@@ -0,0 +1,201 @@
+import { AuditConfig, ReferenceSource, ValueDomain } from "@/types/audit";
+import { arrayOf, isBoolean, isNumber, isString, record, shape, validate } from "@/lib/validation";
+import { ValueDomainContent, normaliseDomainContent } from "@/lib/valueDomains";
+
+/** One earlier version of a stored domain. */
+export interface ValueDomainVersion extends ValueDomainContent {
+  version: number;
+  updated_at: string;
+}
+
+/** A value domain kept in the browser, so schema fields and foreign keys of any config can name it. */
+export interface StoredValueDomain extends ValueDomain {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  /** The versions this one replaced, newest first. */
+  history: ValueDomainVersion[];
+}
+
+export interface ReferenceData {
+  /** Reference files attached in this session. They are only ever held in memory. */
+  files: File[];
+  domains: StoredValueDomain[];
+}
+
+/** What one audit needs: the attached files and value domains its config names. */
+export interface AuditReferences {
+  files: File[];
+  domains: Record<string, ValueDomain>;
+}
+
+const STORAGE_KEY = "dqa.valueDomains.v1";
+// Lookup lists were plain named key lists; they carry over as version 1 of a case-sensitive domain.
+const LEGACY_LOOKUP_KEY = "dqa.lookupLists.v1";
+const MAX_HISTORY = 10;
+
+const contentFields = {
+  values: arrayOf(isString),
+  case_insensitive: isBoolean,
+  aliases: record(isString),
+};
+
+const storedDomainValidator = shape({
+  id: isString,
+  name: isString,
+  version: isNumber,
+  ...contentFields,
+  created_at: isString,
+  updated_at: isString,
+  history: arrayOf(shape({ version: isNumber, updated_at: isString, ...contentFields })),
+});
+
+const EMPTY: ReferenceData = { files: [], domains: [] };
+const listeners = new Set<() => void>();
+let files: File[] = [];
+let snapshot: ReferenceData | null = null;
+
+function readStorage(): StoredValueDomain[] {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const legacy = raw === null ? window.localStorage.getItem(LEGACY_LOOKUP_KEY) : null;
+    const data: unknown = raw ? JSON.parse(raw) : legacy ? JSON.parse(legacy) : [];
+    if (!Array.isArray(data)) return [];
+    return data
+      .map((item) => (legacy ? { version: 1, case_insensitive: false, aliases: {}, history: [], ...item } : item))
+      .filter((item) => !validate(item, storedDomainValidator).length);
+  } catch {
+    return [];
+  }
+}
+
+/** Snapshot for `useSyncExternalStore`; stable between changes. */
+export function getReferenceData(): ReferenceData {
+  if (typeof window === "undefined") return EMPTY;
+  snapshot ??= { files, domains: readStorage() };
+  return snapshot;
+}
+
+export const getServerReferenceData = () => EMPTY;
+
+export function subscribeReferenceData(listener: () => void) {
+  listeners.add(listener);
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY) return;
+    snapshot = null;
+    listener();
+  };
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+function publish(next: Partial<ReferenceData>) {
+  snapshot = { ...getReferenceData(), ...next };
+  files = snapshot.files;
+  listeners.forEach((listener) => listener());
+}
+
+function writeDomains(domains: StoredValueDomain[]) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(domains));
+  publish({ domains });
+}
+
+/** Attaches a reference file, replacing any earlier one with the same name. */
+export function attachReferenceFile(file: File) {
+  publish({ files: [...getReferenceData().files.filter((item) => item.name !== file.name), file] });
+}
+
+export function detachReferenceFile(name: string) {
+  publish({ files: getReferenceData().files.filter((item) => item.name !== name) });
+}
+
+const sameContent = (a: ValueDomainContent, b: ValueDomainContent) =>
+  a.case_insensitive === b.case_insensitive &&
+  JSON.stringify(a.values) === JSON.stringify(b.values) &&
+  JSON.stringify(a.aliases) === JSON.stringify(b.aliases);
+
+/**
+ * Saves `content` as the next version of the domain called `name`, creating it if needed. Fields left out keep
+ * their current value; saving unchanged content does not add a version.
+ */
+export function saveValueDomain(name: string, content: Partial<ValueDomainContent>): StoredValueDomain {
+  const domains = getReferenceData().domains;
+  const now = new Date().toISOString();
+  const existing = domains.find((item) => item.name === name);
+  const next = normaliseDomainContent({
+    values: content.values ?? existing?.values ?? [],
+    case_insensitive: content.case_insensitive ?? existing?.case_insensitive ?? false,
+    aliases: content.aliases ?? existing?.aliases ?? {},
+  });
+  if (existing && sameContent(existing, next)) return existing;
+  const domain: StoredValueDomain = existing
+    ? {
+        ...existing,
+        ...next,
+        version: existing.version + 1,
+        updated_at: now,
+        history: [
+          {
+            version: existing.version,
+            values: existing.values,
+            case_insensitive: existing.case_insensitive,
+            aliases: existing.aliases,
+            updated_at: existing.updated_at,
+          },
+          ...existing.history,
+        ].slice(0, MAX_HISTORY),
+      }
+    : { id: crypto.randomUUID(), name, version: 1, ...next, created_at: now, updated_at: now, history: [] };
+  writeDomains(existing ? domains.map((item) => (item.id === domain.id ? domain : item)) : [...domains, domain]);
+  return domain;
+}
+
+/** Brings back an earlier version's content as a new version, so the history itself is never rewritten. */
+export function restoreValueDomainVersion(id: string, version: number) {
+  const domain = getReferenceData().domains.find((item) => item.id === id);
+  const previous = domain?.history.find((item) => item.version === version);
+  if (!domain || !previous) return;
+  saveValueDomain(domain.name, previous);
+}
+
+export function deleteValueDomain(id: string) {
+  writeDomains(getReferenceData().domains.filter((item) => item.id !== id));
+}
+
+/** The domain as audits and exports see it, without the browser's bookkeeping. */
+export function toValueDomain(domain: StoredValueDomain): ValueDomain {
+  const { name, version, values, case_insensitive, aliases } = domain;
+  return { name, version, values, case_insensitive, aliases };
+}
+
+export const referenceLabel = (source: ReferenceSource) =>
+  source.type === "file" ? `${source.file_name} › ${source.column}` : `domain ${source.lookup}`;
+
+/** Names of the value domains `config` uses, from its schema and its foreign keys. */
+export const configDomainNames = (config: AuditConfig) =>
+  Array.from(
+    new Set([
+      ...config.schema.flatMap((field) => (field.value_domain ? [field.value_domain] : [])),
+      ...(config.foreign_keys ?? []).flatMap((key) => (key.reference.type === "lookup" ? [key.reference.lookup] : [])),
+    ]),
+  );
+
+/**
+ * Picks what `config` references out of the store. Files or domains that are missing are left out, for the engine
+ * to report.
+ */
+export function resolveReferences(config: AuditConfig, data: ReferenceData = getReferenceData()): AuditReferences {
+  const fileNames = new Set(
+    (config.foreign_keys ?? []).flatMap((key) => (key.reference.type === "file" ? [key.reference.file_name] : [])),
+  );
+  const domainNames = new Set(configDomainNames(config));
+  return {
+    files: data.files.filter((file) => fileNames.has(file.name)),
+    domains: Object.fromEntries(
+      data.domains.filter((item) => domainNames.has(item.name)).map((item) => [item.name, toValueDomain(item)]),
+    ),
+  };
+}
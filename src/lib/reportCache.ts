@@ -0,0 +1,115 @@
+import { AuditReport } from "@/types/audit";
+import { anomalyIssues, compareWithBaseline } from "@/lib/anomalies";
+import { RequestOptions, getReport, isAbortError, isNetworkError, listReports } from "@/lib/api";
+import { getProfileSnapshots } from "@/lib/profileSnapshots";
+
+// Stored reports never change once written, so a fetched report can be reused until it is deleted.
+const reports = new Map<string, AuditReport>();
+
+const FETCH_CONCURRENCY = 4;
+
+interface PendingReport {
+  promise: Promise<AuditReport>;
+  controller: AbortController;
+  waiting: number;
+}
+
+// Views that open at the same time ask for the same reports; they share one request, which is only aborted once
+// every one of them has given up on it.
+const pending = new Map<string, PendingReport>();
+
+function startFetch(reportId: string, options?: RequestOptions): PendingReport {
+  const controller = new AbortController();
+  const promise = getReport(reportId, { ...options, signal: controller.signal })
+    .then((report) => {
+      reports.set(reportId, report);
+      return report;
+    })
+    .finally(() => pending.delete(reportId));
+  const entry = { promise, controller, waiting: 0 };
+  pending.set(reportId, entry);
+  return entry;
+}
+
+export async function fetchReport(reportId: string, options?: RequestOptions): Promise<AuditReport> {
+  const cached = reports.get(reportId);
+  if (cached) return cached;
+  const entry = pending.get(reportId) ?? startFetch(reportId, options);
+  const signal = options?.signal;
+  signal?.throwIfAborted();
+  entry.waiting += 1;
+  let onAbort = () => {};
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal?.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+  try {
+    return await Promise.race([entry.promise, aborted]);
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+    entry.waiting -= 1;
+    if (!entry.waiting && pending.get(reportId) === entry) entry.controller.abort();
+  }
+}
+
+export const forgetReport = (reportId: string) => reports.delete(reportId);
+
+/**
+ * Fetches several reports a few at a time, handing each to `onReport` as it arrives.
+ * Failures are logged and skipped; their ids are returned. Aborting rejects the whole batch.
+ */
+export async function fetchReports(
+  reportIds: string[],
+  onReport: (report: AuditReport) => void,
+  options?: RequestOptions,
+): Promise<string[]> {
+  const queue = [...reportIds];
+  const failed: string[] = [];
+  const worker = async () => {
+    for (let id = queue.shift(); id !== undefined; id = queue.shift()) {
+      try {
+        onReport(await fetchReport(id, options));
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.error(`Failed to fetch report ${id}`, error);
+        failed.push(id);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(FETCH_CONCURRENCY, queue.length) }, worker));
+  return failed;
+}
+
+/**
+ * Adds a baseline comparison to a report whose config asks for one, from the stored reports of the same dataset.
+ * Like column profiling this is best-effort: when the history cannot be loaded, say because the audit ran offline,
+ * the report is returned unchanged.
+ */
+export async function withBaselineComparison(report: AuditReport, options?: RequestOptions): Promise<AuditReport> {
+  const settings = report.config.anomaly_detection;
+  if (!settings || report.baseline_comparison) return report;
+  try {
+    const createdAt = Date.parse(report.summary.created_at);
+    const ids = (await listReports(options))
+      .filter(
+        (item) =>
+          item.id !== report.id &&
+          item.dataset_name === report.summary.dataset_name &&
+          Date.parse(item.created_at) < createdAt,
+      )
+      .sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at))
+      .slice(-settings.baseline_runs)
+      .map((item) => item.id);
+    const history: AuditReport[] = [];
+    await fetchReports(ids, (item) => history.push(item), options);
+    const comparison = compareWithBaseline(report, history, settings, getProfileSnapshots([report.id, ...ids]));
+    return {
+      ...report,
+      baseline_comparison: comparison,
+      issues: report.issues && [...report.issues, ...anomalyIssues(comparison)],
+    };
+  } catch (error) {
+    if (!isNetworkError(error)) console.error("Failed to compare with earlier reports", error);
+    return report;
+  }
+}
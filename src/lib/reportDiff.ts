@@ -0,0 +1,171 @@
+import { AuditReport, RuleResult, SchemaResult } from "@/types/audit";
+
+export type ChangeKind = "regression" | "improvement" | "unchanged";
+
+export interface CountDiff {
+  label: string;
+  before: number;
+  after: number;
+  delta: number;
+  kind: ChangeKind;
+}
+
+export interface SchemaDiff {
+  field: string;
+  before?: SchemaResult["status"];
+  after?: SchemaResult["status"];
+  kind: ChangeKind;
+}
+
+export interface MissingDiff {
+  column: string;
+  before: number;
+  after: number;
+  delta: number;
+  kind: ChangeKind;
+}
+
+export interface RuleDiff {
+  name: string;
+  severity: "info" | "warning" | "error";
+  passedBefore?: boolean;
+  passedAfter?: boolean;
+  failingBefore: number;
+  failingAfter: number;
+  delta: number;
+  kind: ChangeKind;
+}
+
+export interface ReportDiff {
+  counts: CountDiff[];
+  schema: SchemaDiff[];
+  missing: MissingDiff[];
+  rules: RuleDiff[];
+  primaryKey: CountDiff[];
+  totals: Record<ChangeKind, number>;
+}
+
+// Percentages are rounded by the backend, so tiny moves are noise rather than drift.
+const MISSING_PCT_TOLERANCE = 0.01;
+
+const kindFromDelta = (delta: number, tolerance = 0): ChangeKind => {
+  if (delta > tolerance) return "regression";
+  if (delta < -tolerance) return "improvement";
+  return "unchanged";
+};
+
+const countDiff = (label: string, before: number, after: number, kind?: ChangeKind): CountDiff => ({
+  label,
+  before,
+  after,
+  delta: after - before,
+  kind: kind ?? kindFromDelta(after - before),
+});
+
+const unionKeys = (a: string[], b: string[]) => Array.from(new Set([...a, ...b]));
+
+const diffSchema = (a: AuditReport, b: AuditReport): SchemaDiff[] => {
+  const before = new Map(a.schema_results.map((item) => [item.field, item.status]));
+  const after = new Map(b.schema_results.map((item) => [item.field, item.status]));
+  return unionKeys([...before.keys()], [...after.keys()]).map((field) => {
+    const prev = before.get(field);
+    const next = after.get(field);
+    let kind: ChangeKind = "unchanged";
+    if (prev !== next && next !== undefined) {
+      if (next !== "ok") kind = "regression";
+      else if (prev !== undefined) kind = "improvement";
+    }
+    return { field, before: prev, after: next, kind };
+  });
+};
+
+const diffMissing = (a: AuditReport, b: AuditReport): MissingDiff[] => {
+  const before = new Map(a.missing_values.map((item) => [item.column, item.missing_pct]));
+  const after = new Map(b.missing_values.map((item) => [item.column, item.missing_pct]));
+  return unionKeys([...before.keys()], [...after.keys()]).map((column) => {
+    const prev = before.get(column) ?? 0;
+    const next = after.get(column) ?? 0;
+    const delta = next - prev;
+    return { column, before: prev, after: next, delta, kind: kindFromDelta(delta, MISSING_PCT_TOLERANCE) };
+  });
+};
+
+// Constraints and foreign keys are compared alongside rules; they pass or fail the same way.
+const checksOf = (report: AuditReport): Pick<RuleResult, "name" | "severity" | "passed" | "failing_rows">[] => [
+  ...report.rule_results,
+  ...(report.constraint_results ?? []).map((item) => ({
+    name: `${item.column} ${item.constraint.replaceAll("_", " ")}`,
+    severity: "error" as const,
+    passed: item.passed,
+    failing_rows: item.failing_rows,
+  })),
+  ...(report.cross_field_results ?? []),
+  ...(report.foreign_key_results ?? []).map((item) => ({
+    name: `${item.column} → ${item.reference}`,
+    severity: item.severity,
+    passed: item.orphan_count === 0,
+    failing_rows: item.orphan_count,
+  })),
+];
+
+const diffRules = (a: AuditReport, b: AuditReport): RuleDiff[] => {
+  const before = new Map(checksOf(a).map((item) => [item.name, item]));
+  const after = new Map(checksOf(b).map((item) => [item.name, item]));
+  return unionKeys([...before.keys()], [...after.keys()]).map((name) => {
+    const prev = before.get(name);
+    const next = after.get(name);
+    const failingBefore = prev?.failing_rows ?? 0;
+    const failingAfter = next?.failing_rows ?? 0;
+    const delta = failingAfter - failingBefore;
+    let kind = kindFromDelta(delta);
+    if (prev && next && prev.passed !== next.passed) {
+      kind = next.passed ? "improvement" : "regression";
+    }
+    return {
+      name,
+      severity: (next ?? prev)!.severity,
+      passedBefore: prev?.passed,
+      passedAfter: next?.passed,
+      failingBefore,
+      failingAfter,
+      delta,
+      kind,
+    };
+  });
+};
+
+/**
+ * Field-by-field comparison of two audits, treating `a` as the baseline and `b` as the candidate.
+ */
+export function diffReports(a: AuditReport, b: AuditReport): ReportDiff {
+  const rowDelta = b.summary.row_count - a.summary.row_count;
+  const columnDelta = b.summary.column_count - a.summary.column_count;
+  const counts = [
+    countDiff("Issues", a.summary.issues_found, b.summary.issues_found),
+    // Losing rows usually means a truncated load; growth is expected for append-only feeds.
+    countDiff("Rows", a.summary.row_count, b.summary.row_count, kindFromDelta(-rowDelta)),
+    // Any change in column count is schema drift.
+    countDiff("Columns", a.summary.column_count, b.summary.column_count, columnDelta ? "regression" : "unchanged"),
+  ];
+
+  const pkA = a.primary_key_result;
+  const pkB = b.primary_key_result;
+  const primaryKey =
+    pkA || pkB
+      ? [
+          countDiff("PK duplicates", pkA?.duplicate_count ?? 0, pkB?.duplicate_count ?? 0),
+          countDiff("PK nulls", pkA?.null_count ?? 0, pkB?.null_count ?? 0),
+        ]
+      : [];
+
+  const schema = diffSchema(a, b);
+  const missing = diffMissing(a, b);
+  const rules = diffRules(a, b);
+
+  const totals: Record<ChangeKind, number> = { regression: 0, improvement: 0, unchanged: 0 };
+  [...counts, ...primaryKey, ...schema, ...missing, ...rules].forEach((item) => {
+    totals[item.kind] += 1;
+  });
+
+  return { counts, schema, missing, rules, primaryKey, totals };
+}
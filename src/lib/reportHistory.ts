@@ -0,0 +1,59 @@
+import { StoredReportMetadata } from "@/types/audit";
+
+export type HistorySortKey = "dataset_name" | "created_at" | "issues_found" | "quality_score";
+
+/** Filter values as typed into the inputs; empty strings mean "no filter". */
+export interface HistoryFilters {
+  search: string;
+  /** Inclusive `YYYY-MM-DD` bounds, in local time. */
+  from: string;
+  to: string;
+  minIssues: string;
+  maxIssues: string;
+}
+
+export const emptyHistoryFilters: HistoryFilters = { search: "", from: "", to: "", minIssues: "", maxIssues: "" };
+
+export const HISTORY_PAGE_SIZE = 20;
+
+const parseBound = (value: string) => (value.trim() === "" ? null : Number(value));
+
+export function filterReports(reports: StoredReportMetadata[], filters: HistoryFilters) {
+  const needle = filters.search.trim().toLowerCase();
+  const from = filters.from ? new Date(`${filters.from}T00:00:00`).getTime() : null;
+  const to = filters.to ? new Date(`${filters.to}T23:59:59.999`).getTime() : null;
+  const minIssues = parseBound(filters.minIssues);
+  const maxIssues = parseBound(filters.maxIssues);
+  return reports.filter((item) => {
+    if (needle && !item.dataset_name.toLowerCase().includes(needle)) return false;
+    const created = Date.parse(item.created_at);
+    if (from !== null && created < from) return false;
+    if (to !== null && created > to) return false;
+    if (minIssues !== null && item.issues_found < minIssues) return false;
+    if (maxIssues !== null && item.issues_found > maxIssues) return false;
+    return true;
+  });
+}
+
+/** Sorts by `key`; reports without a score yet sort after every scored one, in either direction. */
+export function sortReports(
+  reports: StoredReportMetadata[],
+  key: HistorySortKey,
+  direction: 1 | -1,
+  scoreOf: (item: StoredReportMetadata) => number | null,
+) {
+  const value = (item: StoredReportMetadata) => {
+    if (key === "quality_score") return scoreOf(item);
+    if (key === "created_at") return Date.parse(item.created_at);
+    return item[key];
+  };
+  return [...reports].sort((a, b) => {
+    const left = value(a);
+    const right = value(b);
+    if (left === null || right === null) return left === right ? 0 : left === null ? 1 : -1;
+    const order = typeof left === "string" ? left.localeCompare(String(right)) : left - Number(right);
+    return order * direction;
+  });
+}
+
+export const pageCount = (total: number) => Math.max(Math.ceil(total / HISTORY_PAGE_SIZE), 1);
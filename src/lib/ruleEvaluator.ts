@@ -0,0 +1,226 @@
+import { Expr } from "@/lib/ruleExpression";
+import { isNullValue, parseNumberValue } from "@/lib/values";
+
+type Value = string | number | boolean | null;
+type Row = Record<string, string>;
+
+const TRUE_WORDS = new Set(["true", "t", "yes", "y"]);
+const FALSE_WORDS = new Set(["false", "f", "no", "n"]);
+
+export class RuleEvaluationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RuleEvaluationError";
+  }
+}
+
+const toNumber = (value: Value): number | null => {
+  if (value === null) return null;
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  return parseNumberValue(value);
+};
+
+const toBoolean = (value: Value): boolean | null => {
+  if (value === null) return null;
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value !== 0;
+  const token = value.trim().toLowerCase();
+  if (TRUE_WORDS.has(token)) return true;
+  if (FALSE_WORDS.has(token)) return false;
+  const number = parseNumberValue(token);
+  return number === null ? null : number !== 0;
+};
+
+const toText = (value: Value): string | null => (value === null ? null : String(value));
+
+/**
+ * Orders two values, numerically when both sides read as numbers (CSV cells are always strings). Text that does not
+ * read as a number has no order against a number, so such comparisons are unknown rather than ordered as text.
+ */
+function compare(left: Value, right: Value): number | null {
+  if (left === null || right === null) return null;
+  if (typeof left === "boolean" || typeof right === "boolean") {
+    const a = toBoolean(left);
+    const b = toBoolean(right);
+    return a === null || b === null ? null : Number(a) - Number(b);
+  }
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (a !== null && b !== null) return a - b;
+  if (typeof left === "number" || typeof right === "number") return null;
+  const textA = String(left);
+  const textB = String(right);
+  return textA < textB ? -1 : textA > textB ? 1 : 0;
+}
+
+const likeToRegExp = (pattern: string) =>
+  new RegExp(
+    `^${pattern
+      .split("")
+      .map((char) => (char === "%" ? ".*" : char === "_" ? "." : char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")))
+      .join("")}$`,
+    "s",
+  );
+
+function callFunction(name: string, args: Value[]): Value {
+  if (name === "COALESCE") return args.find((arg) => arg !== null) ?? null;
+  if (name === "CONCAT") return args.map((arg) => toText(arg) ?? "").join("");
+  if (args.some((arg) => arg === null)) return null;
+  const text = toText(args[0])!;
+  switch (name) {
+    case "LOWER":
+      return text.toLowerCase();
+    case "UPPER":
+      return text.toUpperCase();
+    case "LENGTH":
+      return text.length;
+    case "TRIM":
+      return text.trim();
+    case "LTRIM":
+      return text.trimStart();
+    case "RTRIM":
+      return text.trimEnd();
+    case "SUBSTR": {
+      // SQL positions are 1-based.
+      const start = Math.max((toNumber(args[1]) ?? 1) - 1, 0);
+      const length = args[2] === undefined ? undefined : (toNumber(args[2]) ?? 0);
+      return length === undefined ? text.slice(start) : text.slice(start, start + length);
+    }
+    case "REPLACE":
+      return text.split(toText(args[1])!).join(toText(args[2])!);
+    case "ABS": {
+      const number = toNumber(args[0]);
+      return number === null ? null : Math.abs(number);
+    }
+    case "ROUND": {
+      const number = toNumber(args[0]);
+      const digits = args[1] === undefined ? 0 : (toNumber(args[1]) ?? 0);
+      if (number === null) return null;
+      const factor = 10 ** digits;
+      return Math.round(number * factor) / factor;
+    }
+    case "STARTS_WITH":
+      return text.startsWith(toText(args[1])!);
+    case "ENDS_WITH":
+      return text.endsWith(toText(args[1])!);
+    case "CONTAINS":
+      return text.includes(toText(args[1])!);
+    default:
+      throw new RuleEvaluationError(`Function ${name} is not supported`);
+  }
+}
+
+function arithmetic(op: string, left: Value, right: Value): Value {
+  if (op === "||") {
+    return left === null || right === null ? null : `${left}${right}`;
+  }
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (a === null || b === null) return null;
+  switch (op) {
+    case "+":
+      return a + b;
+    case "-":
+      return a - b;
+    case "*":
+      return a * b;
+    case "/":
+      return b === 0 ? null : a / b;
+    case "%":
+      return b === 0 ? null : a % b;
+    default:
+      throw new RuleEvaluationError(`Operator ${op} is not supported`);
+  }
+}
+
+/** Evaluates an expression with SQL three-valued logic: unknown inputs yield `null`. */
+export function evaluate(expr: Expr, row: Row): Value {
+  switch (expr.kind) {
+    case "literal":
+      return expr.value;
+    case "column": {
+      if (!(expr.name in row)) throw new RuleEvaluationError(`Unknown column "${expr.name}"`);
+      const value = row[expr.name];
+      return isNullValue(value) ? null : value;
+    }
+    case "unary": {
+      const operand = evaluate(expr.operand, row);
+      if (expr.op === "-") {
+        const number = toNumber(operand);
+        return number === null ? null : -number;
+      }
+      const bool = toBoolean(operand);
+      return bool === null ? null : !bool;
+    }
+    case "binary": {
+      if (expr.op === "AND" || expr.op === "OR") {
+        const left = toBoolean(evaluate(expr.left, row));
+        if (expr.op === "AND" && left === false) return false;
+        if (expr.op === "OR" && left === true) return true;
+        const right = toBoolean(evaluate(expr.right, row));
+        if (expr.op === "AND") return right === false ? false : left === null || right === null ? null : true;
+        return right === true ? true : left === null || right === null ? null : false;
+      }
+      const left = evaluate(expr.left, row);
+      const right = evaluate(expr.right, row);
+      if (["=", "!=", "<", "<=", ">", ">="].includes(expr.op)) {
+        const order = compare(left, right);
+        if (order === null) return null;
+        switch (expr.op) {
+          case "=":
+            return order === 0;
+          case "!=":
+            return order !== 0;
+          case "<":
+            return order < 0;
+          case "<=":
+            return order <= 0;
+          case ">":
+            return order > 0;
+          default:
+            return order >= 0;
+        }
+      }
+      return arithmetic(expr.op, left, right);
+    }
+    case "in": {
+      const operand = evaluate(expr.operand, row);
+      if (operand === null) return null;
+      let sawNull = false;
+      for (const item of expr.values) {
+        const order = compare(operand, evaluate(item, row));
+        if (order === 0) return !expr.negated;
+        if (order === null) sawNull = true;
+      }
+      return sawNull ? null : expr.negated;
+    }
+    case "between": {
+      const operand = evaluate(expr.operand, row);
+      const low = compare(operand, evaluate(expr.low, row));
+      const high = compare(operand, evaluate(expr.high, row));
+      if (low === null || high === null) return null;
+      const inside = low >= 0 && high <= 0;
+      return expr.negated ? !inside : inside;
+    }
+    case "isNull": {
+      const isNull = evaluate(expr.operand, row) === null;
+      return expr.negated ? !isNull : isNull;
+    }
+    case "like": {
+      const operand = toText(evaluate(expr.operand, row));
+      const pattern = toText(evaluate(expr.pattern, row));
+      if (operand === null || pattern === null) return null;
+      const matches = likeToRegExp(pattern).test(operand);
+      return expr.negated ? !matches : matches;
+    }
+    case "call":
+      return callFunction(
+        expr.name,
+        expr.args.map((arg) => evaluate(arg, row)),
+      );
+  }
+}
+
+/** A row passes a rule only when the expression is TRUE; FALSE and unknown both count as failures, as in `df.query`. */
+export const rowPasses = (expr: Expr, row: Row) => toBoolean(evaluate(expr, row)) === true;
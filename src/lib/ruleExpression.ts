@@ -0,0 +1,442 @@
+/**
+ * Parser for rule expressions, the SQL-style boolean conditions in `RuleDefinition.expression`
+ * (e.g. `amount BETWEEN 0 AND 100 AND status IN ('open', 'closed')`). The AST feeds syntax
+ * checking in the editor and the client-side evaluator.
+ */
+
+export type Expr =
+  | { kind: "literal"; value: string | number | boolean | null; start: number; end: number }
+  | { kind: "column"; name: string; start: number; end: number }
+  | { kind: "unary"; op: "-" | "NOT"; operand: Expr; start: number; end: number }
+  | { kind: "binary"; op: BinaryOp; left: Expr; right: Expr; start: number; end: number }
+  | { kind: "in"; operand: Expr; values: Expr[]; negated: boolean; start: number; end: number }
+  | { kind: "between"; operand: Expr; low: Expr; high: Expr; negated: boolean; start: number; end: number }
+  | { kind: "isNull"; operand: Expr; negated: boolean; start: number; end: number }
+  | { kind: "like"; operand: Expr; pattern: Expr; negated: boolean; start: number; end: number }
+  | { kind: "call"; name: string; args: Expr[]; start: number; end: number };
+
+export type BinaryOp =
+  | "AND"
+  | "OR"
+  | "="
+  | "!="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "%"
+  | "||";
+
+export class RuleSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly start: number,
+    public readonly end: number,
+  ) {
+    super(message);
+    this.name = "RuleSyntaxError";
+  }
+}
+
+/** Supported functions and their accepted argument counts. */
+export const RULE_FUNCTIONS: Record<string, { min: number; max: number }> = {
+  LOWER: { min: 1, max: 1 },
+  UPPER: { min: 1, max: 1 },
+  LENGTH: { min: 1, max: 1 },
+  TRIM: { min: 1, max: 1 },
+  LTRIM: { min: 1, max: 1 },
+  RTRIM: { min: 1, max: 1 },
+  SUBSTR: { min: 2, max: 3 },
+  REPLACE: { min: 3, max: 3 },
+  CONCAT: { min: 1, max: Infinity },
+  COALESCE: { min: 1, max: Infinity },
+  ABS: { min: 1, max: 1 },
+  ROUND: { min: 1, max: 2 },
+  STARTS_WITH: { min: 2, max: 2 },
+  ENDS_WITH: { min: 2, max: 2 },
+  CONTAINS: { min: 2, max: 2 },
+};
+
+const FUNCTION_ALIASES: Record<string, string> = { LEN: "LENGTH", SUBSTRING: "SUBSTR" };
+
+const KEYWORDS = new Set(["AND", "OR", "NOT", "IN", "IS", "NULL", "BETWEEN", "LIKE", "TRUE", "FALSE"]);
+
+type TokenType = "number" | "string" | "ident" | "keyword" | "op" | "lparen" | "rparen" | "comma" | "eof";
+
+interface Token {
+  type: TokenType;
+  value: string;
+  start: number;
+  end: number;
+  /** Identifier was quoted, so it is always a column even if it spells a keyword. */
+  quoted?: boolean;
+}
+
+const OPERATORS = ["<=", ">=", "!=", "<>", "==", "||", "=", "<", ">", "+", "-", "*", "/", "%"];
+
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i += 1;
+      continue;
+    }
+    const start = i;
+    if (/[0-9]/.test(char) || (char === "." && /[0-9]/.test(source[i + 1] ?? ""))) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i))!;
+      i += match[0].length;
+      tokens.push({ type: "number", value: match[0], start, end: i });
+      continue;
+    }
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      i += match[0].length;
+      const upper = match[0].toUpperCase();
+      tokens.push(
+        KEYWORDS.has(upper)
+          ? { type: "keyword", value: upper, start, end: i }
+          : { type: "ident", value: match[0], start, end: i },
+      );
+      continue;
+    }
+    if (char === "'" || char === '"' || char === "`") {
+      // 'text' is a string literal; "name" and `name` are quoted column names.
+      let value = "";
+      i += 1;
+      let closed = false;
+      while (i < source.length) {
+        if (source[i] === char) {
+          if (source[i + 1] === char) {
+            value += char;
+            i += 2;
+            continue;
+          }
+          closed = true;
+          i += 1;
+          break;
+        }
+        value += source[i];
+        i += 1;
+      }
+      if (!closed) throw new RuleSyntaxError(`Unterminated ${char === "'" ? "string" : "quoted name"}`, start, i);
+      tokens.push(
+        char === "'"
+          ? { type: "string", value, start, end: i }
+          : { type: "ident", value, start, end: i, quoted: true },
+      );
+      continue;
+    }
+    if (char === "(") {
+      tokens.push({ type: "lparen", value: char, start, end: ++i });
+      continue;
+    }
+    if (char === ")") {
+      tokens.push({ type: "rparen", value: char, start, end: ++i });
+      continue;
+    }
+    if (char === ",") {
+      tokens.push({ type: "comma", value: char, start, end: ++i });
+      continue;
+    }
+    const op = OPERATORS.find((candidate) => source.startsWith(candidate, i));
+    if (op) {
+      i += op.length;
+      tokens.push({ type: "op", value: op, start, end: i });
+      continue;
+    }
+    throw new RuleSyntaxError(`Unexpected character "${char}"`, start, start + 1);
+  }
+  tokens.push({ type: "eof", value: "", start: source.length, end: source.length });
+  return tokens;
+}
+
+const COMPARISONS: Record<string, BinaryOp> = {
+  "=": "=",
+  "==": "=",
+  "!=": "!=",
+  "<>": "!=",
+  "<": "<",
+  "<=": "<=",
+  ">": ">",
+  ">=": ">=",
+};
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): Expr {
+    const expr = this.parseOr();
+    const next = this.peek();
+    if (next.type !== "eof") {
+      throw new RuleSyntaxError(`Unexpected ${describeToken(next)}`, next.start, next.end);
+    }
+    return expr;
+  }
+
+  private peek(offset = 0) {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private advance() {
+    const token = this.peek();
+    this.pos += 1;
+    return token;
+  }
+
+  private isKeyword(value: string, offset = 0) {
+    const token = this.peek(offset);
+    return token.type === "keyword" && token.value === value;
+  }
+
+  private expect(type: TokenType, label: string) {
+    const token = this.peek();
+    if (token.type !== type) {
+      throw new RuleSyntaxError(`Expected ${label} but found ${describeToken(token)}`, token.start, token.end);
+    }
+    return this.advance();
+  }
+
+  private parseOr(): Expr {
+    let left = this.parseAnd();
+    while (this.isKeyword("OR")) {
+      this.advance();
+      const right = this.parseAnd();
+      left = { kind: "binary", op: "OR", left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expr {
+    let left = this.parseNot();
+    while (this.isKeyword("AND")) {
+      this.advance();
+      const right = this.parseNot();
+      left = { kind: "binary", op: "AND", left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseNot(): Expr {
+    if (this.isKeyword("NOT")) {
+      const token = this.advance();
+      const operand = this.parseNot();
+      return { kind: "unary", op: "NOT", operand, start: token.start, end: operand.end };
+    }
+    return this.parsePredicate();
+  }
+
+  private parsePredicate(): Expr {
+    const left = this.parseAdditive();
+    const token = this.peek();
+
+    if (token.type === "op" && COMPARISONS[token.value]) {
+      this.advance();
+      const right = this.parseAdditive();
+      return { kind: "binary", op: COMPARISONS[token.value], left, right, start: left.start, end: right.end };
+    }
+
+    if (this.isKeyword("IS")) {
+      this.advance();
+      const negated = this.isKeyword("NOT");
+      if (negated) this.advance();
+      const end = this.peek();
+      if (!this.isKeyword("NULL")) {
+        throw new RuleSyntaxError(`Expected NULL after IS${negated ? " NOT" : ""}`, end.start, end.end);
+      }
+      this.advance();
+      return { kind: "isNull", operand: left, negated, start: left.start, end: end.end };
+    }
+
+    const negated = this.isKeyword("NOT") && (this.isKeyword("IN", 1) || this.isKeyword("BETWEEN", 1) || this.isKeyword("LIKE", 1));
+    if (negated) this.advance();
+
+    if (this.isKeyword("IN")) {
+      this.advance();
+      this.expect("lparen", "( after IN");
+      const values: Expr[] = [this.parseAdditive()];
+      while (this.peek().type === "comma") {
+        this.advance();
+        values.push(this.parseAdditive());
+      }
+      const close = this.expect("rparen", ") to close the IN list");
+      return { kind: "in", operand: left, values, negated, start: left.start, end: close.end };
+    }
+
+    if (this.isKeyword("BETWEEN")) {
+      this.advance();
+      const low = this.parseAdditive();
+      const and = this.peek();
+      if (!this.isKeyword("AND")) {
+        throw new RuleSyntaxError("Expected AND in BETWEEN … AND …", and.start, and.end);
+      }
+      this.advance();
+      const high = this.parseAdditive();
+      return { kind: "between", operand: left, low, high, negated, start: left.start, end: high.end };
+    }
+
+    if (this.isKeyword("LIKE")) {
+      this.advance();
+      const pattern = this.parseAdditive();
+      return { kind: "like", operand: left, pattern, negated, start: left.start, end: pattern.end };
+    }
+
+    return left;
+  }
+
+  private parseAdditive(): Expr {
+    let left = this.parseMultiplicative();
+    while (this.peek().type === "op" && ["+", "-", "||"].includes(this.peek().value)) {
+      const op = this.advance().value as BinaryOp;
+      const right = this.parseMultiplicative();
+      left = { kind: "binary", op, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): Expr {
+    let left = this.parseUnary();
+    while (this.peek().type === "op" && ["*", "/", "%"].includes(this.peek().value)) {
+      const op = this.advance().value as BinaryOp;
+      const right = this.parseUnary();
+      left = { kind: "binary", op, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expr {
+    const token = this.peek();
+    if (token.type === "op" && token.value === "-") {
+      this.advance();
+      const operand = this.parseUnary();
+      return { kind: "unary", op: "-", operand, start: token.start, end: operand.end };
+    }
+    if (token.type === "op" && token.value === "+") {
+      this.advance();
+      return this.parseUnary();
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Expr {
+    const token = this.advance();
+    const { start, end } = token;
+    switch (token.type) {
+      case "number":
+        return { kind: "literal", value: Number(token.value), start, end };
+      case "string":
+        return { kind: "literal", value: token.value, start, end };
+      case "keyword":
+        if (token.value === "TRUE" || token.value === "FALSE") {
+          return { kind: "literal", value: token.value === "TRUE", start, end };
+        }
+        if (token.value === "NULL") return { kind: "literal", value: null, start, end };
+        throw new RuleSyntaxError(`Unexpected keyword ${token.value}`, start, end);
+      case "ident": {
+        if (!token.quoted && this.peek().type === "lparen") return this.parseCall(token);
+        return { kind: "column", name: token.value, start, end };
+      }
+      case "lparen": {
+        const inner = this.parseOr();
+        const close = this.expect("rparen", ")");
+        return { ...inner, start, end: close.end };
+      }
+      default:
+        throw new RuleSyntaxError(
+          token.type === "eof" ? "Expression ends unexpectedly" : `Unexpected ${describeToken(token)}`,
+          start,
+          Math.max(end, start + 1),
+        );
+    }
+  }
+
+  private parseCall(nameToken: Token): Expr {
+    const upper = nameToken.value.toUpperCase();
+    const name = FUNCTION_ALIASES[upper] ?? upper;
+    const spec = RULE_FUNCTIONS[name];
+    if (!spec) {
+      throw new RuleSyntaxError(`Unknown function ${nameToken.value}`, nameToken.start, nameToken.end);
+    }
+    this.advance();
+    const args: Expr[] = [];
+    if (this.peek().type !== "rparen") {
+      args.push(this.parseOr());
+      while (this.peek().type === "comma") {
+        this.advance();
+        args.push(this.parseOr());
+      }
+    }
+    const close = this.expect("rparen", `) to close ${name}(`);
+    if (args.length < spec.min || args.length > spec.max) {
+      const expected = spec.min === spec.max ? `${spec.min}` : spec.max === Infinity ? `at least ${spec.min}` : `${spec.min}–${spec.max}`;
+      throw new RuleSyntaxError(
+        `${name} takes ${expected} argument${expected === "1" ? "" : "s"}, got ${args.length}`,
+        nameToken.start,
+        close.end,
+      );
+    }
+    return { kind: "call", name, args, start: nameToken.start, end: close.end };
+  }
+}
+
+function describeToken(token: Token) {
+  if (token.type === "eof") return "end of expression";
+  if (token.type === "string") return `'${token.value}'`;
+  return `"${token.value}"`;
+}
+
+export type ParseResult = { ast: Expr; error: null } | { ast: null; error: RuleSyntaxError };
+
+export function parseRule(source: string): ParseResult {
+  try {
+    if (!source.trim()) throw new RuleSyntaxError("Expression is empty", 0, 0);
+    return { ast: new Parser(tokenize(source)).parse(), error: null };
+  } catch (error) {
+    if (error instanceof RuleSyntaxError) return { ast: null, error };
+    throw error;
+  }
+}
+
+export function referencedColumns(expr: Expr): Array<{ name: string; start: number; end: number }> {
+  switch (expr.kind) {
+    case "column":
+      return [{ name: expr.name, start: expr.start, end: expr.end }];
+    case "literal":
+      return [];
+    case "unary":
+      return referencedColumns(expr.operand);
+    case "binary":
+      return [...referencedColumns(expr.left), ...referencedColumns(expr.right)];
+    case "in":
+      return [expr.operand, ...expr.values].flatMap(referencedColumns);
+    case "between":
+      return [expr.operand, expr.low, expr.high].flatMap(referencedColumns);
+    case "isNull":
+      return referencedColumns(expr.operand);
+    case "like":
+      return [expr.operand, expr.pattern].flatMap(referencedColumns);
+    case "call":
+      return expr.args.flatMap(referencedColumns);
+  }
+}
+
+/** Quotes a column name for insertion into an expression when it is not a plain identifier. */
+export const quoteColumn = (name: string) =>
+  /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !KEYWORDS.has(name.toUpperCase()) ? name : `"${name.replace(/"/g, '""')}"`;
+
+/**
+ * A warning to show before sending rules this parser rejects, or null when every rule parses. The grammar only
+ * approximates what the server engines accept, so such rules may still run there and the user decides.
+ */
+export function unparsedRulesWarning(rules: Array<{ name: string; expression: string }>): string | null {
+  const names = rules.filter((rule) => parseRule(rule.expression).error).map((rule) => rule.name);
+  if (!names.length) return null;
+  return `These rules have syntax errors here: ${names.join(", ")}. The server may still accept them. Run the audit anyway?`;
+}
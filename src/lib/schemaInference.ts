@@ -0,0 +1,104 @@
+import { SchemaField } from "@/types/audit";
+import { ParsedTable } from "@/lib/csv";
+import {
+  isBooleanValue,
+  isDateValue,
+  isFloatValue,
+  isIntegerValue,
+  isNullValue,
+  parseDateValue,
+  parseNumberValue,
+} from "@/lib/values";
+
+export interface InferredField {
+  field: SchemaField;
+  nullCount: number;
+  distinctCount: number;
+  /** Unique and never null within the sample. */
+  uniqueNonNull: boolean;
+}
+
+export interface SchemaProposal {
+  fields: InferredField[];
+  primaryKey: string[];
+  rowsProfiled: number;
+}
+
+export interface InferenceOptions {
+  /** Columns with at most this many distinct values become `category` with `allowed_values`. */
+  maxCategoryValues?: number;
+}
+
+const DEFAULT_MAX_CATEGORY_VALUES = 20;
+// Booleans are only inferred from words; 0/1 columns are far more often integer flags or codes.
+const BOOLEAN_WORDS = new Set(["true", "false", "yes", "no", "t", "f", "y", "n"]);
+
+function inferDtype(present: string[], distinct: number, maxCategoryValues: number): SchemaField["dtype"] {
+  if (!present.length) return "string";
+  if (present.every(isIntegerValue)) return "integer";
+  if (present.every(isFloatValue)) return "float";
+  if (present.every((value) => isBooleanValue(value) && BOOLEAN_WORDS.has(value.trim().toLowerCase()))) {
+    return "boolean";
+  }
+  if (present.every(isDateValue)) return "datetime";
+  // Require repetition so a short sample of free text is not mistaken for an enumeration.
+  if (distinct <= maxCategoryValues && distinct < present.length / 2) return "category";
+  return "string";
+}
+
+// Keep the time of day when there is one, or the latest timestamp in the sample would lie past `max`. Zoneless, as
+// `parseDateValue` reads zoneless values back as the same UTC wall time.
+const isoBound = (time: number) => {
+  const iso = new Date(time)
+    .toISOString()
+    .slice(0, -1)
+    .replace(/\.000$/, "");
+  return iso.endsWith("T00:00:00") ? iso.slice(0, 10) : iso;
+};
+
+function inferField(column: string, values: string[], maxCategoryValues: number): InferredField {
+  const present = values.filter((value) => !isNullValue(value));
+  const distinctValues = new Set(present.map((value) => value.trim()));
+  const dtype = inferDtype(present, distinctValues.size, maxCategoryValues);
+  const field: SchemaField = { name: column, dtype, nullable: present.length < values.length };
+
+  if (dtype === "integer" || dtype === "float") {
+    const numbers = present.map((value) => parseNumberValue(value)).filter((value): value is number => value !== null);
+    if (numbers.length) {
+      field.min = numbers.reduce((a, b) => Math.min(a, b));
+      field.max = numbers.reduce((a, b) => Math.max(a, b));
+    }
+  } else if (dtype === "datetime") {
+    const times = present.map((value) => parseDateValue(value)).filter((value): value is number => value !== null);
+    if (times.length) {
+      field.min = isoBound(times.reduce((a, b) => Math.min(a, b)));
+      field.max = isoBound(times.reduce((a, b) => Math.max(a, b)));
+    }
+  } else if (dtype === "category") {
+    field.allowed_values = Array.from(distinctValues).sort();
+  }
+
+  return {
+    field,
+    nullCount: values.length - present.length,
+    distinctCount: distinctValues.size,
+    uniqueNonNull: present.length === values.length && distinctValues.size === values.length && values.length > 0,
+  };
+}
+
+const looksLikeId = (column: string) => /(^|_|\b)(id|key|code|uuid)$/i.test(column) || /Id$/.test(column);
+
+/** Profiles a sample of rows and proposes a schema; the caller decides what to keep. */
+export function inferSchema(table: ParsedTable, options: InferenceOptions = {}): SchemaProposal {
+  const maxCategoryValues = options.maxCategoryValues ?? DEFAULT_MAX_CATEGORY_VALUES;
+  const fields = table.columns.map((column) =>
+    inferField(
+      column,
+      table.rows.map((row) => row[column]),
+      maxCategoryValues,
+    ),
+  );
+  const candidates = fields.filter((item) => item.uniqueNonNull && item.field.dtype !== "float");
+  const key = candidates.find((item) => looksLikeId(item.field.name)) ?? candidates[0];
+  return { fields, primaryKey: key ? [key.field.name] : [], rowsProfiled: table.rows.length };
+}
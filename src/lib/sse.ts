@@ -0,0 +1,56 @@
+export interface ServerSentEvent {
+  /** `message` when the server did not name the event. */
+  event: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * Parses a `text/event-stream` body. Reading the stream through `fetch` rather than `EventSource` lets the
+ * caller abort it with the same signal as the rest of the request.
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let event = "";
+  let data: string[] = [];
+  let id: string | undefined;
+
+  const dispatch = (): ServerSentEvent | null => {
+    const message = data.length ? { event: event || "message", data: data.join("\n"), id } : null;
+    event = "";
+    data = [];
+    return message;
+  };
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      // A trailing CR may be the first half of a CRLF; wait for the next chunk before splitting.
+      if (buffer.endsWith("\r")) continue;
+      const lines = buffer.split(/\r\n|\r|\n/);
+      // The last piece may be half a line; keep it for the next chunk.
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        if (line === "") {
+          const message = dispatch();
+          if (message) yield message;
+          continue;
+        }
+        if (line.startsWith(":")) continue;
+        const colon = line.indexOf(":");
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const text = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+        if (field === "event") event = text;
+        else if (field === "data") data.push(text);
+        else if (field === "id") id = text;
+      }
+    }
+  } finally {
+    // Stops the download when the caller returns early; a no-op once the stream has ended.
+    await reader.cancel().catch(() => undefined);
+  }
+}
@@ -0,0 +1,85 @@
+import { AuditReport, StoredReportMetadata } from "@/types/audit";
+
+export interface TrendPoint {
+  id: string;
+  created_at: string;
+  issues: number;
+  rows: number;
+  /** Failing rows per rule; absent when the rule was not configured for that run. */
+  rules: Record<string, number>;
+  /** Missing percentage per column, 0–100. */
+  missing: Record<string, number>;
+}
+
+export interface Trend {
+  points: TrendPoint[];
+  ruleNames: string[];
+  missingColumns: string[];
+}
+
+/** Groups report metadata by dataset, each group oldest first; datasets are ordered by most reports. */
+export function groupByDataset(reports: StoredReportMetadata[]) {
+  const groups = new Map<string, StoredReportMetadata[]>();
+  reports.forEach((item) => {
+    const group = groups.get(item.dataset_name) ?? [];
+    group.push(item);
+    groups.set(item.dataset_name, group);
+  });
+  return Array.from(groups.entries())
+    .map(([dataset, items]) => ({
+      dataset,
+      reports: [...items].sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at)),
+    }))
+    .sort((a, b) => b.reports.length - a.reports.length || a.dataset.localeCompare(b.dataset));
+}
+
+export function buildTrend(reports: AuditReport[]): Trend {
+  const sorted = [...reports].sort((a, b) => Date.parse(a.summary.created_at) - Date.parse(b.summary.created_at));
+  const ruleNames = new Set<string>();
+  const missingColumns = new Set<string>();
+  const points = sorted.map((report) => {
+    const rules: Record<string, number> = {};
+    report.rule_results.forEach((rule) => {
+      rules[rule.name] = rule.failing_rows;
+      ruleNames.add(rule.name);
+    });
+    const missing: Record<string, number> = {};
+    report.missing_values.forEach((item) => {
+      missing[item.column] = item.missing_pct;
+      if (item.missing_count > 0) missingColumns.add(item.column);
+    });
+    return {
+      id: report.id,
+      created_at: report.summary.created_at,
+      issues: report.summary.issues_found,
+      rows: report.summary.row_count,
+      rules,
+      missing,
+    };
+  });
+  // Engines may list only columns with missing values, so a column absent from a run had none.
+  points.forEach((point) => {
+    missingColumns.forEach((column) => {
+      point.missing[column] ??= 0;
+    });
+  });
+  return { points, ruleNames: Array.from(ruleNames).sort(), missingColumns: Array.from(missingColumns).sort() };
+}
+
+/**
+ * Flags points that moved sharply from the previous known value: by at least `absolute` and by at least
+ * `relative` of the previous value. The absolute floor keeps small moves near zero, where any change is a
+ * large ratio, from being flagged.
+ */
+export function sharpChanges(values: Array<number | null | undefined>, { relative = 0.5, absolute = 1 } = {}) {
+  let previous: number | null = null;
+  return values.map((value) => {
+    if (value === null || value === undefined) return false;
+    const flagged =
+      previous !== null &&
+      Math.abs(value - previous) >= absolute &&
+      Math.abs(value - previous) >= relative * Math.max(Math.abs(previous), absolute);
+    previous = value;
+    return flagged;
+  });
+}
@@ -0,0 +1,509 @@
+import { AnomalyDetectionConfig, AuditConfig, CrossFieldType, ReferenceSource } from "@/types/audit";
+import { MIN_BASELINE_REPORTS } from "@/lib/anomalies";
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export type Validator = (value: unknown, path: string, issues: ValidationIssue[]) => void;
+
+const describe = (value: unknown) => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+};
+
+const join = (path: string, key: string | number) =>
+  typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+export const isString: Validator = (value, path, issues) => {
+  if (typeof value !== "string") issues.push({ path, message: `expected string, got ${describe(value)}` });
+};
+
+export const isNumber: Validator = (value, path, issues) => {
+  if (typeof value !== "number" || Number.isNaN(value)) {
+    issues.push({ path, message: `expected number, got ${describe(value)}` });
+  }
+};
+
+export const isBoolean: Validator = (value, path, issues) => {
+  if (typeof value !== "boolean") issues.push({ path, message: `expected boolean, got ${describe(value)}` });
+};
+
+export const oneOf =
+  (options: readonly string[]): Validator =>
+  (value, path, issues) => {
+    if (typeof value !== "string" || !options.includes(value)) {
+      issues.push({ path, message: `expected one of ${options.join(", ")}, got ${JSON.stringify(value)}` });
+    }
+  };
+
+export const optional =
+  (validator: Validator): Validator =>
+  (value, path, issues) => {
+    if (value !== undefined) validator(value, path, issues);
+  };
+
+export const nullable =
+  (validator: Validator): Validator =>
+  (value, path, issues) => {
+    if (value !== undefined && value !== null) validator(value, path, issues);
+  };
+
+export const either =
+  (first: Validator, second: Validator): Validator =>
+  (value, path, issues) => {
+    const firstIssues: ValidationIssue[] = [];
+    first(value, path, firstIssues);
+    if (!firstIssues.length) return;
+    const secondIssues: ValidationIssue[] = [];
+    second(value, path, secondIssues);
+    if (secondIssues.length) issues.push(...firstIssues);
+  };
+
+export const arrayOf =
+  (validator: Validator): Validator =>
+  (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `expected array, got ${describe(value)}` });
+      return;
+    }
+    value.forEach((item, idx) => validator(item, join(path, idx), issues));
+  };
+
+export const record =
+  (validator: Validator): Validator =>
+  (value, path, issues) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      issues.push({ path, message: `expected object, got ${describe(value)}` });
+      return;
+    }
+    Object.entries(value).forEach(([key, item]) => validator(item, join(path, key), issues));
+  };
+
+/**
+ * Checks the listed keys. Extra keys are tolerated by default so newer backends stay readable;
+ * `strict` reports them, for user-authored files where an unknown key is usually a typo.
+ */
+export const shape =
+  (fields: Record<string, Validator>, options: { strict?: boolean } = {}): Validator =>
+  (value, path, issues) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      issues.push({ path: path || "(root)", message: `expected object, got ${describe(value)}` });
+      return;
+    }
+    const obj = value as Record<string, unknown>;
+    Object.entries(fields).forEach(([key, validator]) => validator(obj[key], join(path, key), issues));
+    if (options.strict) {
+      Object.keys(obj)
+        .filter((key) => !(key in fields))
+        .forEach((key) => issues.push({ path: join(path, key), message: "unknown field" }));
+    }
+  };
+
+const severity = oneOf(["info", "warning", "error"]);
+const dtype = oneOf(["string", "integer", "float", "boolean", "datetime", "category"]);
+// Sample rows come straight from the dataframe, so cells may be numbers, booleans or nulls.
+const sampleRows = arrayOf(record(() => undefined));
+
+const schemaFieldFields = {
+  name: isString,
+  dtype,
+  nullable: isBoolean,
+  min: nullable(either(isNumber, isString)),
+  max: nullable(either(isNumber, isString)),
+  allowed_values: nullable(arrayOf(isString)),
+  value_domain: nullable(isString),
+  description: nullable(isString),
+  regex: nullable(isString),
+};
+
+const ruleDefinitionFields = {
+  name: isString,
+  expression: isString,
+  severity,
+  description: nullable(isString),
+};
+
+const crossFieldTypes = ["required_if", "compare", "sum_equals", "mutually_exclusive"] as const;
+
+const crossFieldTypeFields: Record<CrossFieldType, Record<string, Validator>> = {
+  required_if: { column: isString, when_column: isString, when_values: arrayOf(isString) },
+  compare: { left: isString, operator: oneOf(["<", "<=", "=", "!=", ">=", ">"]), right: isString },
+  sum_equals: { columns: arrayOf(isString), total: isString, tolerance: nullable(isNumber) },
+  mutually_exclusive: { columns: arrayOf(isString) },
+};
+
+/** The fields checked depend on `type`; an unknown type is reported and only the common fields are checked. */
+const crossFieldConstraint =
+  (strict: boolean): Validator =>
+  (value, path, issues) => {
+    const type = (value as { type?: unknown } | null)?.type;
+    const typeFields = crossFieldTypes.find((item) => item === type);
+    shape(
+      {
+        name: isString,
+        type: oneOf(crossFieldTypes),
+        severity,
+        description: nullable(isString),
+        ...(typeFields ? crossFieldTypeFields[typeFields] : {}),
+      },
+      { strict: strict && Boolean(typeFields) },
+    )(value, path, issues);
+  };
+
+const referenceTypeFields: Record<ReferenceSource["type"], Record<string, Validator>> = {
+  file: { file_name: isString, column: isString },
+  lookup: { lookup: isString },
+};
+
+/** Like cross-field constraints, the reference's fields depend on its `type`. */
+const referenceSource =
+  (strict: boolean): Validator =>
+  (value, path, issues) => {
+    const type = (value as { type?: unknown } | null)?.type;
+    const typeFields = type === "file" || type === "lookup" ? referenceTypeFields[type] : null;
+    shape({ type: oneOf(["file", "lookup"]), ...typeFields }, { strict: strict && Boolean(typeFields) })(
+      value,
+      path,
+      issues,
+    );
+  };
+
+const foreignKeyFields = (strict: boolean) => ({
+  name: isString,
+  column: isString,
+  reference: referenceSource(strict),
+  severity,
+});
+
+const scoringFields = (strict: boolean) => ({
+  severity_weights: nullable(
+    shape({ info: nullable(isNumber), warning: nullable(isNumber), error: nullable(isNumber) }, { strict }),
+  ),
+  pass_threshold: nullable(isNumber),
+});
+
+const anomalyMethod = oneOf(["zscore", "iqr"]);
+const baselineMetric = oneOf(["row_count", "null_rate", "distinct_count", "mean", "p5", "p25", "p50", "p75", "p95"]);
+
+const anomalyDetectionFields = {
+  baseline_runs: isNumber,
+  method: anomalyMethod,
+  threshold: isNumber,
+  severity,
+};
+
+const auditConfigFields = (strict: boolean) => ({
+  dataset_name: isString,
+  primary_key: nullable(arrayOf(isString)),
+  schema: arrayOf(shape(schemaFieldFields, { strict })),
+  rules: arrayOf(shape(ruleDefinitionFields, { strict })),
+  cross_field_constraints: nullable(arrayOf(crossFieldConstraint(strict))),
+  foreign_keys: nullable(arrayOf(shape(foreignKeyFields(strict), { strict }))),
+  scoring: nullable(shape(scoringFields(strict), { strict })),
+  anomaly_detection: nullable(shape(anomalyDetectionFields, { strict })),
+});
+
+export const auditConfigValidator = shape(auditConfigFields(false));
+
+/** Semantic checks on top of the shape: things the backend would otherwise reject mid-audit. */
+const auditConfigSemantics: Validator = (value, path, issues) => {
+  const config = value as Partial<AuditConfig>;
+  const seen = new Map<string, number>();
+  const schema = Array.isArray(config.schema) ? config.schema : [];
+  schema.forEach((field, idx) => {
+    const fieldPath = join(join(path, "schema"), idx);
+    // Shape problems are already reported; only look at entries that are well-formed enough to reason about.
+    if (typeof field !== "object" || field === null || typeof field.name !== "string") return;
+    if (!field.name.trim()) {
+      issues.push({ path: join(fieldPath, "name"), message: "column name is empty" });
+    } else if (seen.has(field.name)) {
+      issues.push({
+        path: join(fieldPath, "name"),
+        message: `duplicate column "${field.name}" (also at schema[${seen.get(field.name)}])`,
+      });
+    } else {
+      seen.set(field.name, idx);
+    }
+    if (typeof field.regex === "string" && field.regex) {
+      try {
+        new RegExp(field.regex);
+      } catch (error) {
+        issues.push({ path: join(fieldPath, "regex"), message: (error as Error).message });
+      }
+    }
+    if (field.min != null && field.max != null && typeof field.min === typeof field.max && field.min > field.max) {
+      issues.push({ path: join(fieldPath, "min"), message: `min ${field.min} is greater than max ${field.max}` });
+    }
+  });
+  (Array.isArray(config.primary_key) ? config.primary_key : []).forEach((column, idx) => {
+    if (typeof column === "string" && !seen.has(column)) {
+      issues.push({
+        path: join(join(path, "primary_key"), idx),
+        message: `primary key column "${column}" is not in the schema`,
+      });
+    }
+  });
+  const ruleNames = new Set<string>();
+  (Array.isArray(config.rules) ? config.rules : []).forEach((rule, idx) => {
+    if (typeof rule !== "object" || rule === null || typeof rule.name !== "string") return;
+    if (ruleNames.has(rule.name)) {
+      issues.push({ path: join(join(join(path, "rules"), idx), "name"), message: `duplicate rule "${rule.name}"` });
+    }
+    ruleNames.add(rule.name);
+  });
+  const constraintNames = new Set<string>();
+  const constraints = Array.isArray(config.cross_field_constraints) ? config.cross_field_constraints : [];
+  constraints.forEach((constraint, idx) => {
+    const constraintPath = join(join(path, "cross_field_constraints"), idx);
+    if (typeof constraint !== "object" || constraint === null || typeof constraint.name !== "string") return;
+    if (constraintNames.has(constraint.name)) {
+      issues.push({ path: join(constraintPath, "name"), message: `duplicate constraint "${constraint.name}"` });
+    }
+    constraintNames.add(constraint.name);
+    if (constraint.type === "mutually_exclusive" && Array.isArray(constraint.columns) && constraint.columns.length < 2) {
+      issues.push({ path: join(constraintPath, "columns"), message: "needs at least two columns" });
+    }
+    if (constraint.type === "sum_equals" && Array.isArray(constraint.columns) && !constraint.columns.length) {
+      issues.push({ path: join(constraintPath, "columns"), message: "needs at least one column to add up" });
+    }
+    if (constraint.type === "sum_equals" && typeof constraint.tolerance === "number" && constraint.tolerance < 0) {
+      issues.push({ path: join(constraintPath, "tolerance"), message: "tolerance must not be negative" });
+    }
+  });
+  const keyNames = new Set<string>();
+  (Array.isArray(config.foreign_keys) ? config.foreign_keys : []).forEach((key, idx) => {
+    if (typeof key !== "object" || key === null || typeof key.name !== "string") return;
+    if (keyNames.has(key.name)) {
+      issues.push({
+        path: join(join(join(path, "foreign_keys"), idx), "name"),
+        message: `duplicate foreign key "${key.name}"`,
+      });
+    }
+    keyNames.add(key.name);
+  });
+  const scoring = typeof config.scoring === "object" && config.scoring !== null ? config.scoring : {};
+  const scoringPath = join(path, "scoring");
+  const weights =
+    typeof scoring.severity_weights === "object" && scoring.severity_weights !== null ? scoring.severity_weights : {};
+  Object.entries(weights).forEach(([level, weight]) => {
+    if (typeof weight === "number" && (weight < 0 || weight > 1)) {
+      issues.push({
+        path: join(join(scoringPath, "severity_weights"), level),
+        message: "weight must be between 0 and 1",
+      });
+    }
+  });
+  const threshold = scoring.pass_threshold;
+  if (typeof threshold === "number" && (threshold < 0 || threshold > 100)) {
+    issues.push({ path: join(scoringPath, "pass_threshold"), message: "threshold must be between 0 and 100" });
+  }
+  const anomalies: Partial<AnomalyDetectionConfig> =
+    typeof config.anomaly_detection === "object" && config.anomaly_detection !== null ? config.anomaly_detection : {};
+  const anomalyPath = join(path, "anomaly_detection");
+  const runs = anomalies.baseline_runs;
+  if (typeof runs === "number" && !(Number.isInteger(runs) && runs >= MIN_BASELINE_REPORTS)) {
+    issues.push({
+      path: join(anomalyPath, "baseline_runs"),
+      message: `baseline must be a whole number of at least ${MIN_BASELINE_REPORTS} reports`,
+    });
+  }
+  if (typeof anomalies.threshold === "number" && !(anomalies.threshold > 0)) {
+    issues.push({ path: join(anomalyPath, "threshold"), message: "threshold must be greater than 0" });
+  }
+};
+
+/** Validates a user-supplied config: unknown keys are errors, and semantic problems are reported alongside shape ones. */
+export const strictAuditConfigValidator: Validator = (value, path, issues) => {
+  shape(auditConfigFields(true), { strict: true })(value, path, issues);
+  if (typeof value === "object" && value !== null) auditConfigSemantics(value, path, issues);
+};
+
+export const auditReportValidator = shape({
+  id: isString,
+  summary: shape({
+    dataset_name: isString,
+    row_count: isNumber,
+    column_count: isNumber,
+    created_at: isString,
+    engine_used: isString,
+    issues_found: isNumber,
+  }),
+  schema_results: arrayOf(
+    shape({
+      field: isString,
+      expected_dtype: isString,
+      actual_dtype: nullable(isString),
+      status: oneOf(["ok", "missing", "type_mismatch"]),
+      details: nullable(isString),
+    }),
+  ),
+  missing_values: arrayOf(
+    shape({
+      column: isString,
+      missing_count: isNumber,
+      missing_pct: isNumber,
+      sample_rows: sampleRows,
+    }),
+  ),
+  rule_results: arrayOf(
+    shape({
+      name: isString,
+      severity,
+      passed: isBoolean,
+      failing_rows: isNumber,
+      sample_rows: sampleRows,
+      description: nullable(isString),
+    }),
+  ),
+  constraint_results: optional(
+    arrayOf(
+      shape({
+        column: isString,
+        constraint: oneOf(["not_null", "range", "allowed_values", "value_domain", "pattern"]),
+        passed: isBoolean,
+        failing_rows: isNumber,
+        sample_rows: sampleRows,
+        details: nullable(isString),
+      }),
+    ),
+  ),
+  cross_field_results: optional(
+    arrayOf(
+      shape({
+        name: isString,
+        type: oneOf(crossFieldTypes),
+        columns: arrayOf(isString),
+        severity,
+        passed: isBoolean,
+        failing_rows: isNumber,
+        sample_rows: sampleRows,
+        details: nullable(isString),
+      }),
+    ),
+  ),
+  foreign_key_results: optional(
+    arrayOf(
+      shape({
+        name: isString,
+        column: isString,
+        reference: isString,
+        severity,
+        checked_rows: isNumber,
+        orphan_count: isNumber,
+        sample_rows: sampleRows,
+        top_missing_keys: arrayOf(shape({ value: isString, count: isNumber })),
+      }),
+    ),
+  ),
+  column_profiles: optional(
+    arrayOf(
+      shape({
+        column: isString,
+        kind: oneOf(["numeric", "datetime", "boolean", "string"]),
+        non_null_count: isNumber,
+        null_count: isNumber,
+        distinct_count: isNumber,
+        top_values: arrayOf(shape({ value: isString, count: isNumber })),
+        histogram: arrayOf(shape({ label: isString, count: isNumber })),
+      }),
+    ),
+  ),
+  column_profile_rows: optional(isNumber),
+  issues: optional(
+    arrayOf(
+      shape({
+        row_id: nullable(isNumber),
+        category: oneOf([
+          "rule_failed",
+          "missing_value",
+          "not_null",
+          "range",
+          "allowed_values",
+          "value_domain",
+          "pattern",
+          "cross_field",
+          "orphan_key",
+          "anomaly",
+          "pk_duplicate",
+          "pk_null",
+        ]),
+        columns: arrayOf(isString),
+        value: nullable(isString),
+        rule: nullable(isString),
+        severity,
+        record: nullable(record(() => undefined)),
+      }),
+    ),
+  ),
+  sample_rows: sampleRows,
+  primary_key_result: nullable(
+    shape({
+      columns: arrayOf(isString),
+      duplicate_count: isNumber,
+      null_count: isNumber,
+      sample_rows: sampleRows,
+    }),
+  ),
+  baseline_comparison: nullable(
+    shape({
+      method: anomalyMethod,
+      threshold: isNumber,
+      baseline_report_ids: arrayOf(isString),
+      metrics_checked: isNumber,
+      metrics_compared: arrayOf(baselineMetric),
+      anomalies: arrayOf(
+        shape({
+          metric: baselineMetric,
+          column: nullable(isString),
+          observed: isNumber,
+          baseline: arrayOf(isNumber),
+          expected: isNumber,
+          score: isNumber,
+          severity,
+        }),
+      ),
+    }),
+  ),
+  config: auditConfigValidator,
+  source_file: isString,
+});
+
+export const storedReportMetadataValidator = shape({
+  id: isString,
+  dataset_name: isString,
+  created_at: isString,
+  issues_found: isNumber,
+  quality_score: nullable(isNumber),
+  report_path: nullable(isString),
+});
+
+export const valueDomainValidator = shape({
+  name: isString,
+  version: isNumber,
+  values: arrayOf(isString),
+  case_insensitive: isBoolean,
+  aliases: record(isString),
+});
+
+export const auditJobValidator = shape({ job_id: isString });
+
+export const auditStageEventValidator = shape({
+  stage: isString,
+  label: isString,
+  progress: nullable(isNumber),
+});
+
+export function validate(value: unknown, validator: Validator, path = ""): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  validator(value, path, issues);
+  return issues;
+}
+
+export function formatIssues(issues: ValidationIssue[], limit = 3): string {
+  const shown = issues.slice(0, limit).map((issue) => `${issue.path || "(root)"}: ${issue.message}`);
+  if (issues.length > limit) shown.push(`…and ${issues.length - limit} more`);
+  return shown.join("; ");
+}
@@ -0,0 +1,89 @@
+import { ValueDomain } from "@/types/audit";
+import { detectDelimiter, parseDelimited } from "@/lib/csv";
+import { formatIssues, valueDomainValidator, validate } from "@/lib/validation";
+import { isNullValue } from "@/lib/values";
+
+/** What one version of a domain holds; the name stays the same across versions. */
+export type ValueDomainContent = Pick<ValueDomain, "values" | "case_insensitive" | "aliases">;
+
+/** A domain read from a file. Only exported domains carry a version and say whether they ignore case. */
+export type ImportedDomain = Pick<ValueDomain, "values" | "aliases"> &
+  Partial<Pick<ValueDomain, "version" | "case_insensitive">>;
+
+export const DOMAIN_FILE_ACCEPT = ".csv,.tsv,.txt,.json";
+
+/** Distinct non-empty values, trimmed, in order of first appearance. */
+export const distinctKeys = (values: Array<string | undefined>) =>
+  Array.from(new Set(values.filter((value): value is string => !isNullValue(value)).map((value) => value.trim())));
+
+/**
+ * Like `distinctKeys`, but only blank entries are dropped. Null tokens such as "NA" mark missing cells in data, yet
+ * in a domain they are ordinary values: "NA" is Namibia's country code.
+ */
+const distinctDomainValues = (values: Array<string | undefined>) =>
+  Array.from(new Set(values.map((value) => value?.trim() ?? "").filter(Boolean)));
+
+/** Dedupes the values and drops aliases that are empty or point at a value the domain does not have. */
+export function normaliseDomainContent(content: ValueDomainContent): ValueDomainContent {
+  const values = distinctDomainValues(content.values);
+  const known = new Set(values);
+  const aliases = Object.entries(content.aliases)
+    .map(([alias, value]) => [alias.trim(), value.trim()])
+    .filter(([alias, value]) => alias && alias !== value && known.has(value));
+  return { values, case_insensitive: content.case_insensitive, aliases: Object.fromEntries(aliases) };
+}
+
+/**
+ * Maps a cell to the domain value it stands for, or `undefined` when it is not in the domain. Exact values win over
+ * aliases that happen to spell the same.
+ */
+export function domainMatcher(domain: ValueDomainContent): (value: string) => string | undefined {
+  const fold = (value: string) => (domain.case_insensitive ? value.trim().toLowerCase() : value.trim());
+  const lookup = new Map<string, string>();
+  Object.entries(domain.aliases).forEach(([alias, value]) => lookup.set(fold(alias), value));
+  domain.values.forEach((value) => lookup.set(fold(value), value));
+  return (value) => lookup.get(fold(value));
+}
+
+/**
+ * Reads an imported domain file. Text files hold one value per line. CSV and TSV files have a header row; the first
+ * column holds the values and any other filled-in cell in the row is an alias for that value. JSON files are domains
+ * exported from here, and also carry their case sensitivity.
+ */
+export function parseDomainFile(text: string, fileName: string): ImportedDomain {
+  if (/\.json$/i.test(fileName)) {
+    const data: unknown = JSON.parse(text);
+    const issues = validate(data, valueDomainValidator);
+    if (issues.length) throw new Error(`${fileName} is not an exported value domain: ${formatIssues(issues)}`);
+    const { version, values, case_insensitive, aliases } = data as ValueDomain;
+    return { version, values, case_insensitive, aliases };
+  }
+  if (!/\.(csv|tsv)$/i.test(fileName)) {
+    return { values: distinctDomainValues(text.split(/\r?\n/)), aliases: {} };
+  }
+  const table = parseDelimited(text, { delimiter: detectDelimiter(text, fileName) });
+  const [valueColumn, ...aliasColumns] = table.columns;
+  const aliases: Record<string, string> = {};
+  table.rows.forEach((row) => {
+    if (!row[valueColumn]?.trim()) return;
+    aliasColumns.forEach((column) => {
+      if (row[column]?.trim()) aliases[row[column].trim()] = row[valueColumn].trim();
+    });
+  });
+  return { values: distinctDomainValues(table.rows.map((row) => row[valueColumn])), aliases };
+}
+
+/** One `alias = value` pair per line, the format the domain editor shows aliases in. */
+export const formatAliases = (aliases: Record<string, string>) =>
+  Object.entries(aliases)
+    .map(([alias, value]) => `${alias} = ${value}`)
+    .join("\n");
+
+export function parseAliases(text: string): Record<string, string> {
+  const aliases: Record<string, string> = {};
+  text.split(/\r?\n/).forEach((line) => {
+    const separator = line.indexOf("=");
+    if (separator > 0) aliases[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+  });
+  return aliases;
+}
@@ -0,0 +1,87 @@
+import { DataType } from "@/types/audit";
+
+// Mirrors pandas' default `na_values` so the browser engine agrees with the server on what counts as missing.
+const NULL_TOKENS = new Set(["", "na", "n/a", "nan", "null", "none", "<na>", "nat", "#n/a", "-nan", "-1.#ind", "1.#qnan"]);
+const TRUE_TOKENS = new Set(["true", "t", "yes", "y", "1"]);
+const FALSE_TOKENS = new Set(["false", "f", "no", "n", "0"]);
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+const FLOAT_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$|^[+-]?(inf|infinity)$/i;
+
+export const isNullValue = (value: string | null | undefined) =>
+  value === null || value === undefined || NULL_TOKENS.has(value.trim().toLowerCase());
+
+export const isIntegerValue = (value: string) => INTEGER_PATTERN.test(value.trim());
+
+export const isFloatValue = (value: string) => FLOAT_PATTERN.test(value.trim());
+
+export const isBooleanValue = (value: string) => {
+  const token = value.trim().toLowerCase();
+  return TRUE_TOKENS.has(token) || FALSE_TOKENS.has(token);
+};
+
+const ISO_LOCAL_PATTERN = /^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?))?$/;
+const EXPLICIT_ZONE_PATTERN = /(?:Z|GMT|UTC|[+-]\d{2}:?\d{2})$/i;
+
+/**
+ * Reads a date or datetime as epoch millis. Values without a timezone are read as UTC wall time, whatever their
+ * format: `Date.parse` alone reads "2024-01-01" as UTC but "2024-01-01T00:00" as local time, so bounds and data would
+ * compare differently depending on the machine's timezone.
+ */
+export const parseDateValue = (value: string): number | null => {
+  const trimmed = value.trim();
+  // Bare numbers parse as years or epoch offsets, which is never what a datetime column means.
+  if (!trimmed || isFloatValue(trimmed)) return null;
+  const iso = ISO_LOCAL_PATTERN.exec(trimmed);
+  if (iso) {
+    const time = Date.parse(`${iso[1]}T${iso[2] ?? "00:00"}Z`);
+    return Number.isNaN(time) ? null : time;
+  }
+  const time = Date.parse(trimmed);
+  if (Number.isNaN(time)) return null;
+  return EXPLICIT_ZONE_PATTERN.test(trimmed) ? time : time - new Date(time).getTimezoneOffset() * 60_000;
+};
+
+export const isDateValue = (value: string) => parseDateValue(value) !== null;
+
+export const parseNumberValue = (value: string): number | null => {
+  if (!isFloatValue(value)) return null;
+  const trimmed = value.trim().toLowerCase().replace(/^\+/, "");
+  if (trimmed === "inf" || trimmed === "infinity") return Infinity;
+  if (trimmed === "-inf" || trimmed === "-infinity") return -Infinity;
+  return Number(trimmed);
+};
+
+export function conformsTo(value: string, dtype: DataType): boolean {
+  switch (dtype) {
+    case "integer":
+      return isIntegerValue(value);
+    case "float":
+      return isFloatValue(value);
+    case "boolean":
+      return isBooleanValue(value);
+    case "datetime":
+      return isDateValue(value);
+    default:
+      return true;
+  }
+}
+
+/** Pandas-style dtype name for a column, so browser reports read like server ones. */
+export function inferPandasDtype(values: string[]): string {
+  const present = values.filter((value) => !isNullValue(value));
+  if (!present.length) return "object";
+  if (present.every(isIntegerValue)) return "int64";
+  if (present.every(isFloatValue)) return "float64";
+  if (present.every((value) => ["true", "false"].includes(value.trim().toLowerCase()))) return "bool";
+  if (present.every(isDateValue)) return "datetime64[ns]";
+  return "object";
+}
+
+/** Schema regexes must match the whole value, like pandas' `str.fullmatch`. Throws on invalid syntax. */
+export const compileFieldPattern = (regex: string) => new RegExp(`^(?:${regex})$`);
+
+/** Reads a value or a schema bound as a comparable number: epoch millis for datetimes, the number otherwise. */
+export function toComparable(value: string | number, dtype: DataType): number | null {
+  if (typeof value === "number") return value;
+  return dtype === "datetime" ? parseDateValue(value) : parseNumberValue(value);
+}
@@ -1,12 +1,17 @@
+export type Severity = "info" | "warning" | "error";
+
 export type DataType = "string" | "integer" | "float" | "boolean" | "datetime" | "category";
 
 export interface SchemaField {
   name: string;
   dtype: "string" | "integer" | "float" | "boolean" | "datetime" | "category";
   nullable: boolean;
-  min?: number;
-  max?: number;
+  /** Numbers for integer/float fields, ISO date strings for datetime fields. Null, as backends send it, is no bound. */
+  min?: number | string | null;
+  max?: number | string | null;
   allowed_values?: string[];
+  /** Name of a shared value domain the column's values must belong to. */
+  value_domain?: string;
   description?: string;
   regex?: string;
   isCustom?: boolean; // UI state for form handling
@@ -19,11 +24,105 @@ export interface RuleDefinition {
   description?: string;
 }
 
+export type ComparisonOperator = "<" | "<=" | "=" | "!=" | ">=" | ">";
+
+interface CrossFieldConstraintBase {
+  name: string;
+  severity: Severity;
+  description?: string;
+}
+
+/** `column` must be filled in on rows where `when_column` is one of `when_values` (or, with no values, is filled in). */
+export interface RequiredIfConstraint extends CrossFieldConstraintBase {
+  type: "required_if";
+  column: string;
+  when_column: string;
+  when_values: string[];
+}
+
+/** `left operator right`, compared as numbers or dates; rows where either side is empty are not checked. */
+export interface CompareConstraint extends CrossFieldConstraintBase {
+  type: "compare";
+  left: string;
+  operator: ComparisonOperator;
+  right: string;
+}
+
+/** The `columns` add up to `total`; empty addends count as zero. */
+export interface SumEqualsConstraint extends CrossFieldConstraintBase {
+  type: "sum_equals";
+  columns: string[];
+  total: string;
+  /** Largest accepted absolute difference; defaults to 0. */
+  tolerance?: number;
+}
+
+/** At most one of `columns` is filled in on each row. */
+export interface MutuallyExclusiveConstraint extends CrossFieldConstraintBase {
+  type: "mutually_exclusive";
+  columns: string[];
+}
+
+export type CrossFieldConstraint =
+  | RequiredIfConstraint
+  | CompareConstraint
+  | SumEqualsConstraint
+  | MutuallyExclusiveConstraint;
+
+export type CrossFieldType = CrossFieldConstraint["type"];
+
+/**
+ * A named, versioned list of valid values shared across configs. Schema fields name it in `value_domain` and foreign
+ * keys in a `lookup` reference, so editing the domain once changes every config that uses it.
+ */
+export interface ValueDomain {
+  name: string;
+  version: number;
+  values: string[];
+  case_insensitive: boolean;
+  /** Other spellings of a value, mapped to the value they normalise to, e.g. `UK` → `GB`. */
+  aliases: Record<string, string>;
+}
+
+/** Where a foreign key's valid values come from: a column of an attached reference file, or a value domain. */
+export type ReferenceSource = { type: "file"; file_name: string; column: string } | { type: "lookup"; lookup: string };
+
+/** Every non-empty value of `column` must exist in the reference. */
+export interface ForeignKey {
+  name: string;
+  column: string;
+  reference: ReferenceSource;
+  severity: Severity;
+}
+
+export interface ScoringConfig {
+  /** Penalty multiplier per severity, from 0 (ignored) to 1 (every failing row counts in full). */
+  severity_weights?: Partial<Record<Severity, number>>;
+  /** Overall score (0–100) a report must reach to pass. */
+  pass_threshold?: number;
+}
+
+export type AnomalyMethod = "zscore" | "iqr";
+
+/** Compares each report's metrics with earlier reports of the same dataset; absent means no comparison. */
+export interface AnomalyDetectionConfig {
+  /** How many of the most recent earlier reports form the baseline. */
+  baseline_runs: number;
+  method: AnomalyMethod;
+  /** Largest |z-score|, or number of IQRs past the quartiles, that still counts as normal. */
+  threshold: number;
+  severity: Severity;
+}
+
 export interface AuditConfig {
   dataset_name: string;
   primary_key?: string[];
   schema: SchemaField[];
   rules: RuleDefinition[];
+  cross_field_constraints?: CrossFieldConstraint[];
+  foreign_keys?: ForeignKey[];
+  scoring?: ScoringConfig;
+  anomaly_detection?: AnomalyDetectionConfig;
 }
 
 export interface AuditSummary {
@@ -31,7 +130,7 @@ export interface AuditSummary {
   row_count: number;
   column_count: number;
   created_at: string;
-  engine_used: "pandas" | "duckdb";
+  engine_used: "pandas" | "duckdb" | "browser";
   issues_found: number;
 }
 
@@ -59,6 +158,71 @@ export interface RuleResult {
   description?: string | null;
 }
 
+export interface ConstraintResult {
+  column: string;
+  constraint: "not_null" | "range" | "allowed_values" | "value_domain" | "pattern";
+  passed: boolean;
+  failing_rows: number;
+  sample_rows: Record<string, string>[];
+  details?: string | null;
+}
+
+export interface CrossFieldResult {
+  name: string;
+  type: CrossFieldType;
+  /** Every column the constraint reads. */
+  columns: string[];
+  severity: Severity;
+  passed: boolean;
+  failing_rows: number;
+  sample_rows: Record<string, string>[];
+  details?: string | null;
+}
+
+export interface ValueFrequency {
+  value: string;
+  count: number;
+}
+
+export interface ForeignKeyResult {
+  name: string;
+  column: string;
+  /** Human-readable reference, e.g. `customers.csv › id` or `lookup customers`. */
+  reference: string;
+  severity: Severity;
+  /** Rows with a non-empty key. */
+  checked_rows: number;
+  orphan_count: number;
+  sample_rows: Record<string, string>[];
+  /** The most frequent keys missing from the reference. */
+  top_missing_keys: ValueFrequency[];
+}
+
+export interface HistogramBin {
+  label: string;
+  count: number;
+}
+
+export interface ColumnProfile {
+  column: string;
+  kind: "numeric" | "datetime" | "boolean" | "string";
+  non_null_count: number;
+  null_count: number;
+  distinct_count: number;
+  top_values: ValueFrequency[];
+  numeric?: {
+    min: number;
+    max: number;
+    mean: number;
+    stddev: number;
+    percentiles: { p5: number; p25: number; p50: number; p75: number; p95: number };
+  } | null;
+  datetime?: { min: string; max: string } | null;
+  string_length?: { min: number; max: number; mean: number } | null;
+  /** Value distribution for numerics and datetimes, length distribution for strings. */
+  histogram: HistogramBin[];
+}
+
 export interface PrimaryKeyResult {
   columns: string[];
   duplicate_count: number;
@@ -66,14 +230,87 @@ export interface PrimaryKeyResult {
   sample_rows: Record<string, string>[];
 }
 
+export type IssueCategory =
+  | "rule_failed"
+  | "missing_value"
+  | "not_null"
+  | "range"
+  | "allowed_values"
+  | "value_domain"
+  | "pattern"
+  | "cross_field"
+  | "orphan_key"
+  | "anomaly"
+  | "pk_duplicate"
+  | "pk_null";
+
+export interface Issue {
+  /** 1-based line in the source file, or null when the engine did not record one. */
+  row_id: number | null;
+  category: IssueCategory;
+  /** Columns responsible for the failure. */
+  columns: string[];
+  /** The offending value; null for missing values. */
+  value: string | null;
+  /** Name of the failed rule, cross-field constraint or foreign key. */
+  rule: string | null;
+  severity: Severity;
+  /** The full offending row, when the engine sampled it. */
+  record?: Record<string, string> | null;
+}
+
+export type BaselineMetric =
+  | "row_count"
+  | "null_rate"
+  | "distinct_count"
+  | "mean"
+  | "p5"
+  | "p25"
+  | "p50"
+  | "p75"
+  | "p95";
+
+export interface AnomalyResult {
+  metric: BaselineMetric;
+  /** Null for dataset-wide metrics such as the row count. */
+  column: string | null;
+  observed: number;
+  /** The metric in each baseline report that had it, oldest first. */
+  baseline: number[];
+  /** Baseline mean for z-scores, median for IQR. */
+  expected: number;
+  /** Signed z-score, or signed distance past the nearer quartile in IQRs. */
+  score: number;
+  severity: Severity;
+}
+
+export interface BaselineComparison {
+  method: AnomalyMethod;
+  threshold: number;
+  /** Reports the baseline was built from, oldest first. */
+  baseline_report_ids: string[];
+  metrics_checked: number;
+  /** Kinds of metric that enough baseline reports had to be checked. */
+  metrics_compared: BaselineMetric[];
+  anomalies: AnomalyResult[];
+}
+
 export interface AuditReport {
   id: string;
   summary: AuditSummary;
   schema_results: SchemaResult[];
   missing_values: MissingValueStat[];
   rule_results: RuleResult[];
+  constraint_results?: ConstraintResult[];
+  cross_field_results?: CrossFieldResult[];
+  foreign_key_results?: ForeignKeyResult[];
+  column_profiles?: ColumnProfile[];
+  /** Set when the column profiles cover only the first rows of the file, to that many rows. */
+  column_profile_rows?: number;
+  issues?: Issue[];
   sample_rows: Record<string, string>[];
   primary_key_result?: PrimaryKeyResult | null;
+  baseline_comparison?: BaselineComparison | null;
   config: AuditConfig;
   source_file: string;
 }
@@ -83,5 +320,28 @@ export interface StoredReportMetadata {
   dataset_name: string;
   created_at: string;
   issues_found: number;
+  /** Overall quality score, for backends that compute it when storing the report. */
+  quality_score?: number | null;
   report_path?: string;
 }
+
+export interface AuditJob {
+  job_id: string;
+}
+
+/** One `stage` event from an audit job's event stream. */
+export interface AuditStageEvent {
+  /** Machine name, e.g. `schema`, `missing_values`, `rule`, `finalizing`. */
+  stage: string;
+  label: string;
+  /** Overall server-side progress, 0–1, when the engine can estimate it. */
+  progress?: number | null;
+}
+
+/** Client-side view of a running audit: upload first, then the server's stage events. */
+export interface AuditProgressState {
+  /** Fraction of the file uploaded, 0–1. */
+  upload: number;
+  /** Stage events received so far, oldest first; the last one is running. */
+  stages: AuditStageEvent[];
+}